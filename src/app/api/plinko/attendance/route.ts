@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { readAttendance, recordAttendance } from "@/lib/attendanceStore"
+import { isLocalDate } from "@/components/game/plinko/utils/dates"
+import type { AttendanceEvent } from "@/components/game/plinko/types"
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string")
+
+const isAttendanceEvent = (value: unknown): value is AttendanceEvent => {
+  if (value == null || typeof value !== "object") return false
+  const event = value as Record<string, unknown>
+  if (!isLocalDate(event.date)) return false
+  if (event.type === "check-in") {
+    return isStringArray(event.enrolledIds) && isStringArray(event.inactiveIds) && isStringArray(event.archivedIds)
+  }
+  return event.type === "wins" && isStringArray(event.playerIds)
+}
+
+// Recorded days, newest first; ?from= and ?to= (YYYY-MM-DD, inclusive) narrow the range
+export async function GET(request: Request) {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const from = searchParams.get("from")
+  const to = searchParams.get("to")
+  if ((from != null && !isLocalDate(from)) || (to != null && !isLocalDate(to))) {
+    return NextResponse.json(
+      { error: "Dates must be YYYY-MM-DD" },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const days = (await readAttendance()).filter(day =>
+      (from == null || day.date >= from) && (to == null || day.date <= to)
+    )
+    return NextResponse.json({ days })
+  } catch (error) {
+    console.error("Failed to fetch attendance from storage:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch attendance", fallback: true },
+      { status: 500 }
+    )
+  }
+}
+
+// Record a round's check-in or its winners
+export async function POST(request: Request) {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const event: unknown = body.event
+
+    if (!isAttendanceEvent(event)) {
+      return NextResponse.json(
+        { error: "Invalid attendance event" },
+        { status: 400 }
+      )
+    }
+
+    const day = await recordAttendance(event)
+    return NextResponse.json({ success: true, day })
+  } catch (error) {
+    console.error("Failed to record attendance in storage:", error)
+    return NextResponse.json(
+      { error: "Failed to record attendance", fallback: true },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import {
+  AuditConflictError,
+  AuditNotFoundError,
+  claimRevert,
+  parseAuditContext,
+  releaseRevert
+} from "@/lib/auditStore"
+import { updateConfig } from "@/lib/configStore"
+import { playersETag, updatePlayers } from "@/lib/playerStore"
+import { revertConfig, revertPlayers } from "@/components/game/plinko/utils/audit"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Undo one recorded change on top of the current roster or config. The change
+ * is claimed in the log first, so it can only be reverted once. The revert is
+ * itself recorded, pointing back at the change it undid. Responds with the
+ * updated roster (and its version) or config.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  const { id } = await params
+
+  try {
+    // Body is optional: { audit?: { source } }
+    const body = await request.json().catch(() => ({}))
+    const audit = { source: parseAuditContext(body.audit).source, revertOf: id }
+
+    const event = await claimRevert(id, Date.now())
+    try {
+      if (event.target === "config") {
+        const config = await updateConfig(current => revertConfig(current, event.changes), audit)
+        return NextResponse.json({ config })
+      }
+      const { players, version } = await updatePlayers(current => revertPlayers(current, event.changes), audit)
+      return NextResponse.json(
+        { players, version },
+        { headers: { ETag: playersETag(version) } }
+      )
+    } catch (error) {
+      await releaseRevert(id)
+      throw error
+    }
+  } catch (error) {
+    if (error instanceof AuditNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof AuditConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    console.error("Failed to revert change in storage:", error)
+    return NextResponse.json(
+      { error: "Failed to revert change", fallback: true },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { readAudit } from "@/lib/auditStore"
+
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 100
+
+const parsePageParam = (value: string | null, fallback: number): number => {
+  const parsed = Number(value)
+  return value != null && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+// Recorded player and config changes, newest first; ?target=players|config narrows them
+export async function GET(request: Request) {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const target = searchParams.get("target")
+  if (target != null && target !== "players" && target !== "config") {
+    return NextResponse.json(
+      { error: "Target must be players or config" },
+      { status: 400 }
+    )
+  }
+  const offset = parsePageParam(searchParams.get("offset"), 0)
+  const limit = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, parsePageParam(searchParams.get("limit"), DEFAULT_PAGE_SIZE))
+  )
+
+  try {
+    const events = (await readAudit()).filter(event => target == null || event.target === target)
+    return NextResponse.json({ events: events.slice(offset, offset + limit), total: events.length, offset, limit })
+  } catch (error) {
+    console.error("Failed to fetch audit log from storage:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch audit log", fallback: true },
+      { status: 500 }
+    )
+  }
+}
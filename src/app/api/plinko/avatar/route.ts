@@ -1,5 +1,22 @@
 import { NextResponse } from "next/server"
-import { put } from "@vercel/blob"
+import { getBlobStore } from "@/lib/blob"
+import {
+  validateAvatar,
+  processAvatar,
+  isAvatarCrop,
+  AvatarValidationError,
+  type AvatarCrop
+} from "@/lib/avatar"
+
+const parseCrop = (value: FormDataEntryValue | null): AvatarCrop | null | "invalid" => {
+  if (value == null || value === "") return null
+  try {
+    const crop: unknown = JSON.parse(String(value))
+    return isAvatarCrop(crop) ? crop : "invalid"
+  } catch {
+    return "invalid"
+  }
+}
 
 export async function POST(request: Request) {
   try {
@@ -10,16 +27,28 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Missing file" }, { status: 400 })
     }
 
-    const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_")
-    const uniqueName = `${crypto.randomUUID()}-${safeName || "avatar"}`
+    // Optional JSON { x, y, size } from the crop preview
+    const crop = parseCrop(formData.get("crop"))
+    if (crop === "invalid") {
+      return NextResponse.json({ error: "Invalid crop" }, { status: 400 })
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    validateAvatar(bytes, file.type)
+    const variants = await processAvatar(bytes, crop ?? undefined)
 
-    const { url } = await put(`plinko/avatars/${uniqueName}`, file, {
-      access: "public"
-    })
+    const store = getBlobStore()
+    const id = crypto.randomUUID()
+    const [url, thumbnailUrl] = await Promise.all(variants.map(variant =>
+      store.put(`avatars/${id}-${variant.size}.webp`, variant.data, "image/webp")
+    ))
 
-    return NextResponse.json({ url })
+    return NextResponse.json({ url, thumbnailUrl })
   } catch (error) {
-    console.error("Failed to upload avatar to Blob:", error)
+    if (error instanceof AvatarValidationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+    console.error("Failed to upload avatar:", error)
     return NextResponse.json({ error: "Failed to upload avatar" }, { status: 500 })
   }
 }
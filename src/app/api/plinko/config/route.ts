@@ -1,48 +1,21 @@
 import { NextResponse } from "next/server"
-import { redis, REDIS_KEYS, isRedisAvailable } from "@/lib/redis"
-
-export interface PlinkoConfig {
-  ballCount: number
-  ballRadius: number
-  ballRestitution: number
-  ballFriction: number
-  ballShape: "ball" | "square" | "triangle"
-  destroyBalls: boolean
-  dropLocation: "random" | "zigzag" | "center"
-  pinRadius: number
-  pinRows: number
-  pinColumns: number
-  pinRestitution: number
-  pinFriction: number
-  pinShape: "ball" | "square" | "triangle"
-  pinAngle: number
-  pinWallGap: number
-  pinRimGap: number
-  ceilingGap: number
-  wallThickness: number
-  rimHeight: number
-  rimWidth: number
-  bucketCount: number
-  bucketDistribution: "even" | "middle" | "edge"
-  winCondition: "nth" | "most" | "first" | "last-empty"
-  winNth: number
-  width: number
-  height: number
-}
+import { getStorage } from "@/lib/storage"
+import { parseAuditContext } from "@/lib/auditStore"
+import { readConfig, updateConfig } from "@/lib/configStore"
+import { parseConfig } from "@/components/game/plinko/schema"
 
 export async function GET() {
-  if (!isRedisAvailable() || !redis) {
+  if (getStorage() == null) {
     return NextResponse.json(
-      { error: "Redis not configured", fallback: true },
+      { error: "Storage not configured", fallback: true },
       { status: 503 }
     )
   }
 
   try {
-    const config = await redis.get<PlinkoConfig>(REDIS_KEYS.CONFIG)
-    return NextResponse.json({ config: config ?? null })
+    return NextResponse.json({ config: await readConfig() })
   } catch (error) {
-    console.error("Failed to fetch config from Redis:", error)
+    console.error("Failed to fetch config from storage:", error)
     return NextResponse.json(
       { error: "Failed to fetch config", fallback: true },
       { status: 500 }
@@ -51,28 +24,28 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
-  if (!isRedisAvailable() || !redis) {
+  if (getStorage() == null) {
     return NextResponse.json(
-      { error: "Redis not configured", fallback: true },
+      { error: "Storage not configured", fallback: true },
       { status: 503 }
     )
   }
 
   try {
     const body = await request.json()
-    const config = body.config as PlinkoConfig
+    const config: unknown = body.config
 
-    if (!config || typeof config !== "object") {
+    if (config == null || typeof config !== "object" || Array.isArray(config)) {
       return NextResponse.json(
         { error: "Invalid config data" },
         { status: 400 }
       )
     }
 
-    await redis.set(REDIS_KEYS.CONFIG, config)
+    await updateConfig(() => parseConfig(config), parseAuditContext(body.audit))
     return NextResponse.json({ success: true })
   } catch (error) {
-    console.error("Failed to save config to Redis:", error)
+    console.error("Failed to save config to storage:", error)
     return NextResponse.json(
       { error: "Failed to save config", fallback: true },
       { status: 500 }
@@ -0,0 +1,125 @@
+import { NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { updatePlayer, playersETag, PlayerNotFoundError } from "@/lib/playerStore"
+import { parseAuditContext } from "@/lib/auditStore"
+import type { PlayerProfile } from "@/components/game/plinko/types"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// Fields a PATCH may change - the id is fixed and wins go through /wins
+const patchableFields = ["name", "active", "avatarUrl", "archived", "weight"] as const
+
+type PlayerPatch = Partial<Pick<PlayerProfile, typeof patchableFields[number]>>
+
+const parsePatch = (value: unknown): PlayerPatch | null => {
+  if (value == null || typeof value !== "object") return null
+  const input = value as Record<string, unknown>
+  const patch: PlayerPatch = {}
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || input.name.trim() === "") return null
+    patch.name = input.name
+  }
+  if (input.active !== undefined) {
+    if (typeof input.active !== "boolean") return null
+    patch.active = input.active
+  }
+  if (input.avatarUrl !== undefined) {
+    if (typeof input.avatarUrl !== "string") return null
+    patch.avatarUrl = input.avatarUrl
+  }
+  if (input.archived !== undefined) {
+    if (typeof input.archived !== "boolean") return null
+    patch.archived = input.archived
+  }
+  if (input.weight !== undefined) {
+    if (typeof input.weight !== "number" || !Number.isFinite(input.weight)) return null
+    patch.weight = input.weight
+  }
+  return patch
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  const { id } = await params
+
+  try {
+    const body = await request.json()
+
+    if (body == null || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      )
+    }
+
+    const patch = parsePatch(body.updates)
+
+    if (patch == null) {
+      return NextResponse.json(
+        { error: `Invalid player updates (allowed: ${patchableFields.join(", ")})` },
+        { status: 400 }
+      )
+    }
+
+    const { player, version } = await updatePlayer(id, existing => ({ ...existing, ...patch }), parseAuditContext(body.audit))
+    return NextResponse.json(
+      { player, version },
+      { headers: { ETag: playersETag(version) } }
+    )
+  } catch (error) {
+    if (error instanceof PlayerNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error("Failed to update player in storage:", error)
+    return NextResponse.json(
+      { error: "Failed to update player", fallback: true },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  const { id } = await params
+
+  try {
+    // Body is optional: { audit?: { source } }
+    const body = await request.json().catch(() => ({}))
+
+    if (body == null || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      )
+    }
+
+    const { version } = await updatePlayer(id, () => null, parseAuditContext(body.audit))
+    return NextResponse.json(
+      { success: true, version },
+      { headers: { ETag: playersETag(version) } }
+    )
+  } catch (error) {
+    if (error instanceof PlayerNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error("Failed to delete player from storage:", error)
+    return NextResponse.json(
+      { error: "Failed to delete player", fallback: true },
+      { status: 500 }
+    )
+  }
+}
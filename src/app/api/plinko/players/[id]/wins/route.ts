@@ -0,0 +1,65 @@
+import { NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { updatePlayer, playersETag, PlayerNotFoundError } from "@/lib/playerStore"
+import { parseAuditContext } from "@/lib/auditStore"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Increment a player's win count server-side, so a finished round doesn't
+ * have to send (and possibly clobber) the whole roster
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  const { id } = await params
+
+  try {
+    // Body is optional: { kind?: "round" | "tournament", amount?: number, audit?: { source } }
+    const body = await request.json().catch(() => ({}))
+
+    if (body == null || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      )
+    }
+
+    const kind = body.kind ?? "round"
+    const amount = body.amount ?? 1
+
+    if ((kind !== "round" && kind !== "tournament") || !Number.isInteger(amount)) {
+      return NextResponse.json(
+        { error: "Invalid win increment" },
+        { status: 400 }
+      )
+    }
+
+    const { player, version } = await updatePlayer(id, existing =>
+      kind === "tournament"
+        ? { ...existing, tournamentWins: Math.max(0, (existing.tournamentWins ?? 0) + amount) }
+        : { ...existing, wins: Math.max(0, existing.wins + amount) },
+      parseAuditContext(body.audit)
+    )
+    return NextResponse.json(
+      { player, version },
+      { headers: { ETag: playersETag(version) } }
+    )
+  } catch (error) {
+    if (error instanceof PlayerNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error("Failed to increment wins in storage:", error)
+    return NextResponse.json(
+      { error: "Failed to increment wins", fallback: true },
+      { status: 500 }
+    )
+  }
+}
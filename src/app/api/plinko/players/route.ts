@@ -1,35 +1,31 @@
 import { NextResponse } from "next/server"
-import { redis, REDIS_KEYS, isRedisAvailable } from "@/lib/redis"
-
-export interface PlayerProfile {
-  id: string
-  name: string
-  wins: number
-  active: boolean
-  avatarUrl?: string
-  archived?: boolean
-}
-
-const normalizePlayers = (players: PlayerProfile[]): PlayerProfile[] =>
-  players.map(player => ({
-    ...player,
-    archived: player.archived ?? false
-  }))
+import { getStorage } from "@/lib/storage"
+import {
+  readPlayers,
+  writePlayers,
+  parseIfMatch,
+  playersETag,
+  PlayerVersionConflictError
+} from "@/lib/playerStore"
+import { parseAuditContext } from "@/lib/auditStore"
+import type { PlayerProfile } from "@/components/game/plinko/types"
 
 export async function GET() {
-  if (!isRedisAvailable() || redis == null) {
+  if (getStorage() == null) {
     return NextResponse.json(
-      { error: "Redis not configured", fallback: true },
+      { error: "Storage not configured", fallback: true },
       { status: 503 }
     )
   }
 
   try {
-    const players = await redis.get<PlayerProfile[]>(REDIS_KEYS.PLAYERS)
-    if (players == null) return NextResponse.json({ players: null })
-    return NextResponse.json({ players: normalizePlayers(players) })
+    const { players, version } = await readPlayers()
+    return NextResponse.json(
+      { players, version },
+      { headers: { ETag: playersETag(version) } }
+    )
   } catch (error) {
-    console.error("Failed to fetch players from Redis:", error)
+    console.error("Failed to fetch players from storage:", error)
     return NextResponse.json(
       { error: "Failed to fetch players", fallback: true },
       { status: 500 }
@@ -38,15 +34,32 @@ export async function GET() {
 }
 
 export async function POST(request: Request) {
-  if (!isRedisAvailable() || redis == null) {
+  if (getStorage() == null) {
     return NextResponse.json(
-      { error: "Redis not configured", fallback: true },
+      { error: "Storage not configured", fallback: true },
       { status: 503 }
     )
   }
 
+  // Without If-Match the roster is overwritten unconditionally
+  const expectedVersion = parseIfMatch(request.headers.get("If-Match"))
+  if (expectedVersion === "invalid") {
+    return NextResponse.json(
+      { error: "Invalid If-Match header" },
+      { status: 400 }
+    )
+  }
+
   try {
     const body = await request.json()
+
+    if (body == null || typeof body !== "object") {
+      return NextResponse.json(
+        { error: "Invalid request body" },
+        { status: 400 }
+      )
+    }
+
     const players = body.players as PlayerProfile[]
 
     if (!Array.isArray(players)) {
@@ -56,10 +69,19 @@ export async function POST(request: Request) {
       )
     }
 
-    await redis.set(REDIS_KEYS.PLAYERS, normalizePlayers(players))
-    return NextResponse.json({ success: true })
+    const version = await writePlayers(players, expectedVersion, parseAuditContext(body.audit))
+    return NextResponse.json(
+      { success: true, version },
+      { headers: { ETag: playersETag(version) } }
+    )
   } catch (error) {
-    console.error("Failed to save players to Redis:", error)
+    if (error instanceof PlayerVersionConflictError) {
+      return NextResponse.json(
+        { error: error.message, players: error.current.players, version: error.current.version },
+        { status: 409, headers: { ETag: playersETag(error.current.version) } }
+      )
+    }
+    console.error("Failed to save players to storage:", error)
     return NextResponse.json(
       { error: "Failed to save players", fallback: true },
       { status: 500 }
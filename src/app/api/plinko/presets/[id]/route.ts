@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { deletePreset, PresetNotFoundError } from "@/lib/presetStore"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  const { id } = await params
+
+  try {
+    await deletePreset(id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    if (error instanceof PresetNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    console.error("Failed to delete preset from storage:", error)
+    return NextResponse.json(
+      { error: "Failed to delete preset", fallback: true },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+import { NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { readPresets, savePreset, MAX_PRESET_NAME_LENGTH } from "@/lib/presetStore"
+import type { PlinkoConfig } from "@/components/game/plinko/types"
+
+// Saved presets only - the built-in ones ship with the client
+export async function GET() {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const presets = await readPresets()
+    return NextResponse.json({ presets })
+  } catch (error) {
+    console.error("Failed to fetch presets from storage:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch presets", fallback: true },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const name = typeof body.name === "string" ? body.name.trim() : ""
+    const config = body.config as Partial<PlinkoConfig>
+
+    if (name === "" || name.length > MAX_PRESET_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Preset name must be 1-${MAX_PRESET_NAME_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+    if (config == null || typeof config !== "object" || Array.isArray(config)) {
+      return NextResponse.json(
+        { error: "Invalid config data" },
+        { status: 400 }
+      )
+    }
+
+    const preset = await savePreset(name, config)
+    return NextResponse.json({ preset })
+  } catch (error) {
+    console.error("Failed to save preset to storage:", error)
+    return NextResponse.json(
+      { error: "Failed to save preset", fallback: true },
+      { status: 500 }
+    )
+  }
+}
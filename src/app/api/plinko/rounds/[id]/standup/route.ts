@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server"
+import { getStorage, standupKey } from "@/lib/storage"
+import type { StandupRecord, StandupSpeaker } from "@/components/game/plinko/types"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+const speakerStatuses = new Set<StandupSpeaker["status"]>(["spoke", "skipped", "absent"])
+
+const isStandupSpeaker = (value: unknown): value is StandupSpeaker => {
+  if (value == null || typeof value !== "object") return false
+  const speaker = value as Partial<StandupSpeaker>
+  return (
+    typeof speaker.playerId === "string" &&
+    speaker.status != null && speakerStatuses.has(speaker.status) &&
+    typeof speaker.durationMs === "number" && speaker.durationMs >= 0
+  )
+}
+
+const isStandupRecord = (value: unknown): value is StandupRecord => {
+  if (value == null || typeof value !== "object") return false
+  const standup = value as Partial<StandupRecord>
+  return (
+    typeof standup.roundId === "string" &&
+    typeof standup.startedAt === "number" &&
+    typeof standup.endedAt === "number" &&
+    typeof standup.totalMs === "number" && standup.totalMs >= 0 &&
+    Array.isArray(standup.speakers) && standup.speakers.every(isStandupSpeaker)
+  )
+}
+
+// Record the standup held after a round
+export async function PUT(request: Request, { params }: RouteContext) {
+  const storage = getStorage()
+  if (storage == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const { id } = await params
+    const body = await request.json()
+    const standup: unknown = body.standup
+
+    if (!isStandupRecord(standup) || standup.roundId !== id) {
+      return NextResponse.json(
+        { error: "Invalid standup data" },
+        { status: 400 }
+      )
+    }
+
+    await storage.set(standupKey(id), standup)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Failed to save standup to storage:", error)
+    return NextResponse.json(
+      { error: "Failed to save standup", fallback: true },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+import { NextResponse } from "next/server"
+import { getStorage, standupKey, STORAGE_KEYS } from "@/lib/storage"
+import type { RoundRecord, StandupRecord } from "@/components/game/plinko/types"
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string")
+
+const isNumberArray = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(item => typeof item === "number")
+
+const isRoundRecord = (value: unknown): value is RoundRecord => {
+  if (value == null || typeof value !== "object") return false
+  const round = value as Partial<RoundRecord>
+  return (
+    typeof round.id === "string" &&
+    typeof round.timestamp === "number" &&
+    typeof round.seed === "number" &&
+    Array.isArray(round.participants) &&
+    isStringArray(round.bucketAssignments) &&
+    isNumberArray(round.bucketCounts) &&
+    typeof round.winCondition === "string" &&
+    typeof round.tiebreakerRounds === "number" &&
+    isStringArray(round.winnerIds)
+  )
+}
+
+const parsePageParam = (value: string | null, fallback: number): number => {
+  const parsed = Number(value)
+  return value != null && Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback
+}
+
+export async function GET(request: Request) {
+  const storage = getStorage()
+  if (storage == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  const { searchParams } = new URL(request.url)
+  const offset = parsePageParam(searchParams.get("offset"), 0)
+  const limit = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(1, parsePageParam(searchParams.get("limit"), DEFAULT_PAGE_SIZE))
+  )
+
+  try {
+    // Rounds are pushed to the head of the list, so index 0 is the newest
+    const [page, total] = await Promise.all([
+      storage.listRange<RoundRecord>(STORAGE_KEYS.ROUNDS, offset, limit),
+      storage.listLength(STORAGE_KEYS.ROUNDS)
+    ])
+    // Standups finish after their round is pushed, so they're stored alongside
+    // it and fetched for the whole page at once
+    const standups = await storage.getMany<StandupRecord>(page.map(round => standupKey(round.id)))
+    const rounds = page.map((round, index) => {
+      const standup = standups[index]
+      return standup != null ? { ...round, standup } : round
+    })
+    return NextResponse.json({ rounds, total, offset, limit })
+  } catch (error) {
+    console.error("Failed to fetch rounds from storage:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch rounds", fallback: true },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  const storage = getStorage()
+  if (storage == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const round: unknown = body.round
+
+    if (!isRoundRecord(round)) {
+      return NextResponse.json(
+        { error: "Invalid round data" },
+        { status: 400 }
+      )
+    }
+
+    await storage.listPush(STORAGE_KEYS.ROUNDS, round)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Failed to save round to storage:", error)
+    return NextResponse.json(
+      { error: "Failed to save round", fallback: true },
+      { status: 500 }
+    )
+  }
+}
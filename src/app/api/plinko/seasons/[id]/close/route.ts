@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { playersETag } from "@/lib/playerStore"
+import { parseAuditContext } from "@/lib/auditStore"
+import { endSeason, SeasonConflictError, SeasonNotFoundError } from "@/lib/seasonStore"
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Close a season: its standings are archived and wins start again from zero.
+ * Closing a season that's already closed retries its wins reset, which is a
+ * no-op once it has landed. Responds with the closed season and the updated roster.
+ */
+export async function POST(request: Request, { params }: RouteContext) {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  const { id } = await params
+
+  try {
+    // Body is optional: { audit?: { source } } for the wins reset
+    const body = await request.json().catch(() => ({}))
+    const { season, players, version } = await endSeason(id, parseAuditContext(body.audit))
+    return NextResponse.json(
+      { season, players, version },
+      { headers: { ETag: playersETag(version) } }
+    )
+  } catch (error) {
+    if (error instanceof SeasonNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof SeasonConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    console.error("Failed to close season in storage:", error)
+    return NextResponse.json(
+      { error: "Failed to close season", fallback: true },
+      { status: 500 }
+    )
+  }
+}
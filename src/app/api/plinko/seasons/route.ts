@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server"
+import { getStorage } from "@/lib/storage"
+import { readSeasons, startSeason, SeasonConflictError } from "@/lib/seasonStore"
+import { isLocalDate } from "@/components/game/plinko/utils/dates"
+import { MAX_SEASON_NAME_LENGTH } from "@/components/game/plinko/utils/seasons"
+
+export async function GET() {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const seasons = await readSeasons()
+    return NextResponse.json({ seasons })
+  } catch (error) {
+    console.error("Failed to fetch seasons from storage:", error)
+    return NextResponse.json(
+      { error: "Failed to fetch seasons", fallback: true },
+      { status: 500 }
+    )
+  }
+}
+
+// Open a new season: { name, startDate, endDate } with YYYY-MM-DD dates
+export async function POST(request: Request) {
+  if (getStorage() == null) {
+    return NextResponse.json(
+      { error: "Storage not configured", fallback: true },
+      { status: 503 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const name = typeof body.name === "string" ? body.name.trim() : ""
+    const { startDate, endDate } = body
+
+    if (name === "" || name.length > MAX_SEASON_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `Season name must be 1-${MAX_SEASON_NAME_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+    if (!isLocalDate(startDate) || !isLocalDate(endDate) || endDate < startDate) {
+      return NextResponse.json(
+        { error: "Seasons need a start and end date (YYYY-MM-DD), ending after they start" },
+        { status: 400 }
+      )
+    }
+
+    const season = await startSeason(name, startDate, endDate)
+    return NextResponse.json({ season })
+  } catch (error) {
+    if (error instanceof SeasonConflictError) {
+      return NextResponse.json({ error: error.message }, { status: 409 })
+    }
+    console.error("Failed to start season in storage:", error)
+    return NextResponse.json(
+      { error: "Failed to start season", fallback: true },
+      { status: 500 }
+    )
+  }
+}
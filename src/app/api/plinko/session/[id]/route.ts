@@ -0,0 +1,126 @@
+import { NextResponse } from "next/server"
+import {
+  isSessionHost,
+  isValidSessionId,
+  parseSessionEvent,
+  publishSessionEvent,
+  sessionExists,
+  subscribeToSession,
+  type SessionMessage
+} from "@/lib/sessionBus"
+
+export const dynamic = "force-dynamic"
+
+// Comment lines keep proxies from closing an idle stream
+const HEARTBEAT_MS = 15000
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+// The host token goes in an "Authorization: Bearer <token>" header
+const readBearerToken = (request: Request): string | null => {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get("Authorization") ?? "")
+  return match != null ? match[1] : null
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  if (!isValidSessionId(id)) {
+    return NextResponse.json(
+      { error: "Invalid session id" },
+      { status: 400 }
+    )
+  }
+  if (!sessionExists(id)) {
+    return NextResponse.json(
+      { error: "Session not found" },
+      { status: 404 }
+    )
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (message: SessionMessage) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(message)}\n\n`))
+      }
+      const unsubscribe = subscribeToSession(id, send)
+      if (unsubscribe == null) {
+        controller.close()
+        return
+      }
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(": heartbeat\n\n"))
+      }, HEARTBEAT_MS)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+      }
+      request.signal.addEventListener("abort", () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {}
+      })
+    },
+    cancel() {
+      cleanup()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive"
+    }
+  })
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const { id } = await params
+  if (!isValidSessionId(id)) {
+    return NextResponse.json(
+      { error: "Invalid session id" },
+      { status: 400 }
+    )
+  }
+  if (!sessionExists(id)) {
+    return NextResponse.json(
+      { error: "Session not found" },
+      { status: 404 }
+    )
+  }
+  const token = readBearerToken(request)
+  if (token == null || !isSessionHost(id, token)) {
+    return NextResponse.json(
+      { error: "Only the session host can publish" },
+      { status: 403 }
+    )
+  }
+
+  try {
+    const body = await request.json()
+    const event = body != null && typeof body === "object" ? parseSessionEvent(body.event) : null
+
+    if (event == null) {
+      return NextResponse.json(
+        { error: "Invalid session event" },
+        { status: 400 }
+      )
+    }
+
+    publishSessionEvent(id, event)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Failed to publish session event:", error)
+    return NextResponse.json(
+      { error: "Failed to publish session event" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { createSession } from "@/lib/sessionBus"
+
+export const dynamic = "force-dynamic"
+
+/**
+ * Open a live session. The response's host token must accompany every event
+ * the host publishes, so keep it out of the share link.
+ */
+export async function POST() {
+  try {
+    return NextResponse.json(createSession())
+  } catch (error) {
+    console.error("Failed to create session:", error)
+    return NextResponse.json(
+      { error: "Failed to create session" },
+      { status: 500 }
+    )
+  }
+}
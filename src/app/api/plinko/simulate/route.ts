@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server"
+import { parseConfig } from "@/components/game/plinko/schema"
+import {
+  buildFairnessReport,
+  playWinDistribution,
+  unfinishableReason,
+  type WinDistribution
+} from "@/components/game/plinko/simulation"
+import { makeRandomSeed, normalizeSeed } from "@/components/game/plinko/utils/random"
+import type { PlinkoConfig } from "@/components/game/plinko/types"
+
+// Each headless round takes roughly 100ms of CPU, so keep batches bounded -
+// bigger runs belong in the browser's fairness worker
+const DEFAULT_ROUNDS = 100
+const MAX_ROUNDS = 200
+
+export const maxDuration = 60
+
+const parseRounds = (value: unknown): number => {
+  if (typeof value !== "number" || !Number.isFinite(value)) return DEFAULT_ROUNDS
+  return Math.max(1, Math.floor(value))
+}
+
+/**
+ * Play the batch a round at a time, handing the event loop back in between
+ * so other requests and live streams keep moving
+ */
+async function runWinDistributionYielding(
+  config: PlinkoConfig,
+  rounds: number,
+  seed: number
+): Promise<WinDistribution> {
+  const steps = playWinDistribution(config, rounds, seed)
+  for (let step = steps.next(); ; step = steps.next()) {
+    if (step.done === true) return step.value
+    await new Promise(resolve => setImmediate(resolve))
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const body = await request.json()
+
+    if (body == null || typeof body !== "object" || (body.config != null && typeof body.config !== "object")) {
+      return NextResponse.json(
+        { error: "Invalid config" },
+        { status: 400 }
+      )
+    }
+
+    const config = parseConfig(body.config)
+    // Rounds that can never end would each burn the whole step budget
+    const unfinishable = unfinishableReason(config)
+    if (unfinishable != null) {
+      return NextResponse.json(
+        { error: unfinishable },
+        { status: 400 }
+      )
+    }
+    const rounds = parseRounds(body.rounds)
+    if (rounds > MAX_ROUNDS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_ROUNDS} rounds per request` },
+        { status: 413 }
+      )
+    }
+    const requestedSeed = typeof body.seed === "number" ? normalizeSeed(body.seed) : 0
+    const seed = requestedSeed > 0 ? requestedSeed : makeRandomSeed()
+
+    return NextResponse.json(buildFairnessReport(await runWinDistributionYielding(config, rounds, seed)))
+  } catch (error) {
+    console.error("Failed to run simulation:", error)
+    return NextResponse.json(
+      { error: "Failed to run simulation" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,10 @@
+import { PlinkoPlayerStats } from "@/components/game/PlinkoPlayerStats"
+
+export default async function PlinkoPlayerPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  return <PlinkoPlayerStats playerId={id} />
+}
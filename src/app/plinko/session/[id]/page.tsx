@@ -0,0 +1,10 @@
+import { PlinkoSpectator } from "@/components/game/PlinkoSpectator"
+
+export default async function PlinkoSessionPage({
+  params,
+}: {
+  params: Promise<{ id: string }>
+}) {
+  const { id } = await params
+  return <PlinkoSpectator sessionId={id} />
+}
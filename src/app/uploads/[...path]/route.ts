@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import { localBlobStore } from "@/lib/blob"
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>
+}
+
+const contentTypes: Record<string, string> = {
+  webp: "image/webp",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif"
+}
+
+/**
+ * Serves local uploads added after the build - Next only serves files that
+ * were in public/ at build time, and those still take precedence over this
+ */
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { path } = await params
+  const relativePath = path.join("/")
+  const extension = relativePath.split(".").pop()?.toLowerCase() ?? ""
+  const contentType = contentTypes[extension] as string | undefined
+
+  const data = contentType != null ? await localBlobStore.read(relativePath) : null
+  if (data == null) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  return new Response(new Uint8Array(data), {
+    headers: {
+      "Content-Type": contentType as string,
+      // Upload paths carry a unique id, so their contents never change
+      "Cache-Control": "public, max-age=31536000, immutable"
+    }
+  })
+}
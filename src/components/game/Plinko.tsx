@@ -1,45 +1,134 @@
 "use client"
 
 import { useRef, useState, useEffect, useCallback, useMemo } from "react"
+import { cn } from "@/lib/utils"
 import { GameLayout, SidebarToggle } from "./layout/GameLayout"
 import { PlayerSidebar, PlayerManager } from "./shared"
 import { PlinkoGame } from "./plinko/PlinkoGame"
 import { PlinkoControls } from "./plinko/PlinkoControls"
 import { PlinkoConfigPanel } from "./plinko/PlinkoConfigPanel"
 import { PlinkoLeaderboard } from "./plinko/PlinkoLeaderboard"
+import { PlinkoRoundHistory } from "./plinko/PlinkoRoundHistory"
 import { WinCelebration } from "./plinko/WinCelebration"
 import { TiebreakerAnnouncement } from "./plinko/TiebreakerAnnouncement"
-import { defaultConfig, type PlinkoConfig, type PlayerProfile } from "./plinko/types"
+import { BoardEditorToolbar } from "./plinko/BoardEditorToolbar"
+import { PlinkoReplay } from "./plinko/PlinkoReplay"
+import { StandupRunner } from "./plinko/StandupRunner"
+import { useBoardTheme } from "./plinko/hooks/useBoardTheme"
+import { useAttendance } from "./plinko/hooks/useAttendance"
+import { useAuditLog } from "./plinko/hooks/useAuditLog"
+import { useSeasons } from "./plinko/hooks/useSeasons"
+import {
+  defaultConfig,
+  type AuditContext,
+  type PlayerDrop,
+  type PlinkoConfig,
+  type PlinkoPreset,
+  type PlayerProfile,
+  type PlinkoRoundResult,
+  type RoundRecord,
+  type RoundReplay,
+  type StandupRecord,
+  type TournamentState
+} from "./plinko/types"
+import { createSeededRandom, makeRandomSeed, shuffleWithRandom } from "./plinko/utils/random"
+import { computeBucketWeights } from "./plinko/utils/weights"
+import { assignBucketsBySeed, mergePlayers } from "./plinko/utils/players"
+import { applyPreset, toPresetConfig, upsertPreset } from "./plinko/utils/presets"
+import { BOARD_PARAM, readBoardFromLocation } from "./plinko/utils/boardUrl"
+import type { BoardEditorTool, BoardLayout } from "./plinko/utils/boardEditor"
+import { nextThemePreference } from "./plinko/utils/theme"
+import { makeCheckIn } from "./plinko/utils/attendance"
+import { buildSpeakerQueue, createStandup, toStandupRecord, toggleSpoken, type StandupState } from "./plinko/utils/standup"
+import { allTimeWins, seasonTitles } from "./plinko/utils/seasons"
+import { loadLocalPlayers, loadLocalRounds, roundStorageKey, saveLocalPlayers } from "./plinko/utils/localRecords"
+import type { BoardThread } from "./plinko/board"
+import { parseConfigPatch, parsePlayers, serializeConfig } from "./plinko/schema"
+import type { SessionEvent } from "@/lib/sessionBus"
+import type { AvatarCrop } from "@/lib/avatar"
 
-const playerStorageKey = "plinko.players.v2"
 const configStorageKey = "plinko.config.v1"
+const presetStorageKey = "plinko.presets.v1"
+const roundPageSize = 20
+const maxLocalRounds = 500 // keep localStorage well under quota
 const initialBoardScale = 0.6 // proportion of viewport for initial board size
+const tournamentRoundDelayMs = 2500 // pause between elimination rounds
+const maxTournamentReplays = 3 // replays of a round nobody (or everybody) went out in before the seed decides
+const standupConfigKeys = new Set<keyof PlinkoConfig>(["speakerOrder", "speakerSeconds", "speakerWarningSeconds"])
+// Sent with every audited write so the log can tell people from the game
+const manualAudit: AuditContext = { source: "manual" }
+const gameAudit: AuditContext = { source: "game" }
 
 // API helpers with localStorage fallback
-async function loadPlayersFromAPI(): Promise<PlayerProfile[] | null> {
+async function loadPlayersFromAPI(): Promise<{ players: PlayerProfile[] | null; version: number } | null> {
   try {
     const response = await fetch("/api/plinko/players")
     if (!response.ok) return null
     const data = await response.json()
     if (data.fallback === true) return null
-    return data.players
+    return { players: data.players != null ? parsePlayers(data.players) : null, version: data.version }
   } catch {
     return null
   }
 }
 
-async function savePlayersToAPI(players: PlayerProfile[]): Promise<boolean> {
+type SavePlayersResult =
+  | { status: "saved"; version: number }
+  | { status: "conflict"; players: PlayerProfile[]; version: number }
+  | { status: "failed" }
+
+// Whole-roster save; `version` makes it conditional on nobody else having saved since
+async function savePlayersToAPI(players: PlayerProfile[], version: number | null, audit: AuditContext): Promise<SavePlayersResult> {
   try {
+    const headers: Record<string, string> = { "Content-Type": "application/json" }
+    if (version !== null) headers["If-Match"] = `"v${version}"`
     const response = await fetch("/api/plinko/players", {
       method: "POST",
+      headers,
+      body: JSON.stringify({ players, audit })
+    })
+    const data = await response.json()
+    if (response.status === 409) {
+      return { status: "conflict", players: parsePlayers(data.players), version: data.version }
+    }
+    if (!response.ok || data.fallback === true || data.success !== true) return { status: "failed" }
+    return { status: "saved", version: data.version }
+  } catch {
+    return { status: "failed" }
+  }
+}
+
+// Single-player updates return the new roster version, "missing" if the
+// server doesn't know the player, or null when the API is unavailable
+async function patchPlayerToAPI(id: string, updates: Partial<PlayerProfile>, audit: AuditContext): Promise<number | "missing" | null> {
+  try {
+    const response = await fetch(`/api/plinko/players/${encodeURIComponent(id)}`, {
+      method: "PATCH",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ players })
+      body: JSON.stringify({ updates, audit })
     })
-    if (!response.ok) return false
+    if (response.status === 404) return "missing"
+    if (!response.ok) return null
     const data = await response.json()
-    return data.fallback !== true && data.success === true
+    return typeof data.version === "number" ? data.version : null
   } catch {
-    return false
+    return null
+  }
+}
+
+async function incrementWinsToAPI(id: string, kind: "round" | "tournament", audit: AuditContext): Promise<number | "missing" | null> {
+  try {
+    const response = await fetch(`/api/plinko/players/${encodeURIComponent(id)}/wins`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ kind, audit })
+    })
+    if (response.status === 404) return "missing"
+    if (!response.ok) return null
+    const data = await response.json()
+    return typeof data.version === "number" ? data.version : null
+  } catch {
+    return null
   }
 }
 
@@ -55,12 +144,12 @@ async function loadConfigFromAPI(): Promise<Partial<PlinkoConfig> | null> {
   }
 }
 
-async function saveConfigToAPI(config: PlinkoConfig): Promise<boolean> {
+async function saveConfigToAPI(config: PlinkoConfig, audit: AuditContext): Promise<boolean> {
   try {
     const response = await fetch("/api/plinko/config", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ config })
+      body: JSON.stringify({ config, audit })
     })
     if (!response.ok) return false
     const data = await response.json()
@@ -70,6 +159,136 @@ async function saveConfigToAPI(config: PlinkoConfig): Promise<boolean> {
   }
 }
 
+async function loadPresetsFromAPI(): Promise<PlinkoPreset[] | null> {
+  try {
+    const response = await fetch("/api/plinko/presets")
+    if (!response.ok) return null
+    const data = await response.json()
+    if (data.fallback === true || !Array.isArray(data.presets)) return null
+    return data.presets
+  } catch {
+    return null
+  }
+}
+
+async function savePresetToAPI(name: string, config: PlinkoConfig): Promise<PlinkoPreset | null> {
+  try {
+    const response = await fetch("/api/plinko/presets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, config })
+    })
+    if (!response.ok) return null
+    const data = await response.json()
+    return data.fallback !== true && data.preset != null ? data.preset : null
+  } catch {
+    return null
+  }
+}
+
+async function deletePresetFromAPI(id: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/plinko/presets/${encodeURIComponent(id)}`, { method: "DELETE" })
+    // Already gone counts as deleted
+    return response.ok || response.status === 404
+  } catch {
+    return false
+  }
+}
+
+function loadLocalPresets(): PlinkoPreset[] {
+  try {
+    const stored = localStorage.getItem(presetStorageKey)
+    if (stored == null) return []
+    const parsed = JSON.parse(stored) as PlinkoPreset[]
+    return Array.isArray(parsed)
+      ? parsed.map(preset => ({ ...preset, config: toPresetConfig(preset.config) }))
+      : []
+  } catch {
+    return []
+  }
+}
+
+async function loadRoundsFromAPI(offset: number, limit: number): Promise<{ rounds: RoundRecord[]; total: number } | null> {
+  try {
+    const response = await fetch(`/api/plinko/rounds?offset=${offset}&limit=${limit}`)
+    if (!response.ok) return null
+    const data = await response.json()
+    if (data.fallback === true || !Array.isArray(data.rounds)) return null
+    return { rounds: data.rounds, total: data.total }
+  } catch {
+    return null
+  }
+}
+
+async function saveRoundToAPI(round: RoundRecord): Promise<boolean> {
+  try {
+    const response = await fetch("/api/plinko/rounds", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ round })
+    })
+    if (!response.ok) return false
+    const data = await response.json()
+    return data.fallback !== true && data.success === true
+  } catch {
+    return false
+  }
+}
+
+async function saveStandupToAPI(standup: StandupRecord): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/plinko/rounds/${standup.roundId}/standup`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ standup })
+    })
+    if (!response.ok) return false
+    const data = await response.json()
+    return data.fallback !== true && data.success === true
+  } catch {
+    return false
+  }
+}
+
+interface LiveSession {
+  id: string
+  /** Proves to the server that events come from this host */
+  hostToken: string
+}
+
+async function createSessionToAPI(): Promise<LiveSession | null> {
+  try {
+    const response = await fetch("/api/plinko/session", { method: "POST" })
+    if (!response.ok) return null
+    const data = await response.json()
+    return typeof data.id === "string" && typeof data.hostToken === "string"
+      ? { id: data.id, hostToken: data.hostToken }
+      : null
+  } catch {
+    return null
+  }
+}
+
+async function publishSessionEventToAPI(session: LiveSession, event: SessionEvent): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/plinko/session/${session.id}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Authorization: `Bearer ${session.hostToken}` },
+      body: JSON.stringify({ event })
+    })
+    return response.ok
+  } catch {
+    return false
+  }
+}
+
+const makeRoundId = (): string =>
+  `r_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`
+
+const makeTournamentId = (): string =>
+  `t_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`
+
 const makePlayerId = (): string =>
   `p_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`
 
@@ -96,14 +315,8 @@ const defaultAvatarByName = new Map(
     .map(player => [player.name.toLowerCase(), player.avatarUrl as string])
 )
 
-const normalizePlayers = (profiles: PlayerProfile[]): PlayerProfile[] =>
-  profiles.map(profile => ({
-    ...profile,
-    archived: profile.archived ?? false
-  }))
-
 const applyDefaultAvatars = (profiles: PlayerProfile[]): PlayerProfile[] =>
-  normalizePlayers(profiles).map(profile => {
+  parsePlayers(profiles).map(profile => {
     if (profile.avatarUrl != null && profile.avatarUrl.trim() !== "") {
       return profile
     }
@@ -136,10 +349,28 @@ export function Plinko({ initialConfig }: PlinkoProps) {
   const [rightSidebarOpen, setRightSidebarOpen] = useState(false)
   const [playerSearchQuery, setPlayerSearchQuery] = useState("")
   const [boardKey, setBoardKey] = useState(0)
+  // Board editor - null when closed
+  const [editorTool, setEditorTool] = useState<BoardEditorTool | null>(null)
+  const [selectedObstacleId, setSelectedObstacleId] = useState<string | null>(null)
+  // Performance overlay, and where the board loop runs (to compare the two)
+  const [showStats, setShowStats] = useState(false)
+  const [renderThread, setRenderThread] = useState<BoardThread>("worker")
+  // The last finished round, to replay or export; and the current board's player drops
+  const [lastReplay, setLastReplay] = useState<RoundReplay | null>(null)
+  const [showReplay, setShowReplay] = useState(false)
+  const roundDropsRef = useRef<PlayerDrop[]>([])
 
   // Game State - start with defaults, then apply responsive size on mount
   const [config, setConfig] = useState<PlinkoConfig>(initialConfig ?? defaultConfig)
   
+  // Page light/dark mode, and the board colors that go with it
+  const {
+    preference: themePreference,
+    setPreference: setThemePreference,
+    isDark,
+    theme,
+  } = useBoardTheme(config.customTheme)
+
   // Track if we've applied responsive sizing (only do it once on mount)
   const hasAppliedResponsiveSizeRef = useRef(false)
   
@@ -162,11 +393,46 @@ export function Plinko({ initialConfig }: PlinkoProps) {
   const [draftPlayers, setDraftPlayers] = useState<PlayerProfile[]>(defaultPlayers)
   const [playersDirty, setPlayersDirty] = useState(false)
   const [bucketAssignments, setBucketAssignments] = useState<string[]>([])
+  const [roundSeed, setRoundSeed] = useState(0)
+  const [recentWinners, setRecentWinners] = useState<string[][]>([])
   const [roundWinnerBuckets, setRoundWinnerBuckets] = useState<number[]>([])
   const [showWinCelebration, setShowWinCelebration] = useState(false)
   const [showTiebreaker, setShowTiebreaker] = useState(false)
   const [tiebreakerRound, setTiebreakerRound] = useState(0)
   const [soundEnabled, setSoundEnabled] = useState(true)
+  const [rightPanelTab, setRightPanelTab] = useState<"leaderboard" | "history">("leaderboard")
+
+  // Round History State
+  const [roundHistory, setRoundHistory] = useState<RoundRecord[]>([])
+  const [roundHistoryTotal, setRoundHistoryTotal] = useState(0)
+  const [isLoadingRounds, setIsLoadingRounds] = useState(true)
+
+  // Daily attendance, recorded from the roster with every counted round
+  const { attendance: playerAttendance, record: recordAttendance } = useAttendance()
+
+  // Standup after the last round - speaker queue, timer and finished turns
+  const [standup, setStandup] = useState<StandupState | null>(null)
+
+  // Elimination tournament (kept after it finishes so the timeline stays visible)
+  const [tournament, setTournament] = useState<TournamentState | null>(null)
+
+  // Saved config presets (built-in ones come from types)
+  const [savedPresets, setSavedPresets] = useState<PlinkoPreset[]>([])
+  const presetsAreLocalRef = useRef(false)
+
+  // Audit log of roster and config changes, newest first. Without storage,
+  // roster changes are logged in localStorage instead.
+  const {
+    events: auditEvents,
+    refresh: refreshAudit,
+    recordPlayersChange: recordLocalAudit,
+    revert: revertAudit
+  } = useAuditLog()
+
+  // Live session spectators can follow at /plinko/session/[id]
+  const [liveSession, setLiveSession] = useState<LiveSession | null>(null)
+  const liveSessionId = liveSession?.id ?? null
+  const [liveLinkCopied, setLiveLinkCopied] = useState(false)
 
   // Save/Load State
   const [isSaving, setIsSaving] = useState(false)
@@ -176,6 +442,17 @@ export function Plinko({ initialConfig }: PlinkoProps) {
   // Refs
   const hasStartedOnceRef = useRef(false)
   const allowWinCountRef = useRef(false)
+  // Day the current round checked in on, until it ends - restarting an
+  // unfinished round doesn't check anyone in again
+  const roundCheckInDateRef = useRef<string | null>(null)
+  const tournamentTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const roundHistoryRef = useRef<RoundRecord[]>([])
+  const publishedBoardKeyRef = useRef<number | null>(null)
+  // Roster version last seen from the server, used for conditional saves
+  const playersVersionRef = useRef<number | null>(null)
+  const playersRef = useRef<PlayerProfile[]>(players)
+  const draftBaseRef = useRef<PlayerProfile[]>(players)
+  const startGameRef = useRef<() => void>(() => {})
 
   // Computed values
   const visiblePlayers = useMemo(
@@ -188,7 +465,17 @@ export function Plinko({ initialConfig }: PlinkoProps) {
     [players]
   )
 
-  const derivedBucketCount = Math.max(2, enrolledPlayers.length)
+  // Tournament boards shrink with each elimination, so follow the current assignment
+  const derivedBucketCount = Math.max(
+    2,
+    tournament != null ? bucketAssignments.length : enrolledPlayers.length
+  )
+
+  // Tournament rounds eliminate the bucket with the fewest balls; ties go to a tiebreaker
+  const boardConfig = useMemo<PlinkoConfig>(
+    () => config.gameMode === "tournament" ? { ...config, winCondition: "last-empty" } : config,
+    [config]
+  )
 
   // Sync bucket count with enrolled players
   useEffect(() => {
@@ -197,25 +484,39 @@ export function Plinko({ initialConfig }: PlinkoProps) {
     }
   }, [derivedBucketCount, config.bucketCount])
 
-  // Assign buckets to players
+  // Assign buckets to players - picks the round seed and shuffles with it, so
+  // the same seed + config + roster always produces the same round
   const assignBuckets = useCallback((activePlayers: PlayerProfile[]) => {
+    const seed = config.seed > 0 ? config.seed : makeRandomSeed()
+    setRoundSeed(seed)
+    // Snapshot streaks now so anti-streak widths stay fixed for the whole round
+    setRecentWinners(roundHistoryRef.current.map(round => round.winnerIds))
     if (activePlayers.length === 0) {
       setBucketAssignments([])
       return
     }
-    const shuffled = [...activePlayers].sort(() => Math.random() - 0.5)
-    setBucketAssignments(shuffled.map(p => p.id))
-  }, [])
+    setBucketAssignments(assignBucketsBySeed(activePlayers, seed))
+  }, [config.seed])
+
+  // Relative bucket widths from player weights and anti-streak dampening
+  const bucketWeights = useMemo(
+    () => computeBucketWeights({ bucketAssignments, players, config, recentWinners }),
+    [bucketAssignments, players, config, recentWinners]
+  )
 
-  // Reassign buckets when enrolled players change
+  // Reassign buckets when enrolled players (or the fixed seed) change - a
+  // tournament manages its own roster between rounds
   useEffect(() => {
+    if (tournament != null) return
     assignBuckets(enrolledPlayers)
-  }, [assignBuckets, enrolledPlayers.map(p => p.id).join("|")])
+  }, [assignBuckets, enrolledPlayers.map(p => p.id).join("|"), tournament])
 
   // Load players from API/localStorage on mount
   useEffect(() => {
     async function loadPlayers() {
-      const apiPlayers = await loadPlayersFromAPI()
+      const apiResult = await loadPlayersFromAPI()
+      if (apiResult != null) playersVersionRef.current = apiResult.version
+      const apiPlayers = apiResult?.players
       if (apiPlayers && Array.isArray(apiPlayers) && apiPlayers.length > 0) {
         const seeded = applyDefaultAvatars(apiPlayers.length >= 2 ? apiPlayers : [...apiPlayers, ...defaultPlayers.slice(0, 2 - apiPlayers.length)])
         setPlayers(seeded)
@@ -223,18 +524,13 @@ export function Plinko({ initialConfig }: PlinkoProps) {
         return
       }
 
-      try {
-        const stored = localStorage.getItem(playerStorageKey)
-        if (stored) {
-          const parsed = JSON.parse(stored) as PlayerProfile[]
-          if (Array.isArray(parsed) && parsed.length > 0) {
-            const seeded = applyDefaultAvatars(parsed.length >= 2 ? parsed : [...parsed, ...defaultPlayers.slice(0, 2 - parsed.length)])
-            setPlayers(seeded)
-            setDraftPlayers(seeded)
-            return
-          }
-        }
-      } catch {}
+      const localPlayers = loadLocalPlayers()
+      if (localPlayers != null && localPlayers.length > 0) {
+        const seeded = applyDefaultAvatars(localPlayers.length >= 2 ? localPlayers : [...localPlayers, ...defaultPlayers.slice(0, 2 - localPlayers.length)])
+        setPlayers(seeded)
+        setDraftPlayers(seeded)
+        return
+      }
 
       // Default
       setPlayers(applyDefaultAvatars(defaultPlayers))
@@ -243,28 +539,77 @@ export function Plinko({ initialConfig }: PlinkoProps) {
     loadPlayers()
   }, [])
 
-  // Load config from API/localStorage on mount
+  // Load config on mount: a shared ?board= link wins over API/localStorage
   useEffect(() => {
     async function loadConfig() {
+      const sharedConfig = readBoardFromLocation(window.location)
+      if (sharedConfig != null) {
+        setConfig(prev => ({ ...prev, ...sharedConfig }))
+        // Drop the parameter so a reload keeps any changes made afterwards
+        const url = new URL(window.location.href)
+        url.searchParams.delete(BOARD_PARAM)
+        url.hash = ""
+        window.history.replaceState(null, "", url.toString())
+        return
+      }
+
       const apiConfig = await loadConfigFromAPI()
       if (apiConfig && typeof apiConfig === "object") {
-        setConfig(prev => ({ ...prev, ...apiConfig }))
+        setConfig(prev => ({ ...prev, ...parseConfigPatch(apiConfig) }))
         return
       }
 
       try {
         const stored = localStorage.getItem(configStorageKey)
         if (stored) {
-          const parsed = JSON.parse(stored) as Partial<PlinkoConfig>
-          if (typeof parsed === "object" && parsed !== null) {
-            setConfig(prev => ({ ...prev, ...parsed }))
-          }
+          // Older saves are upgraded and clamped rather than spread as-is
+          setConfig(prev => ({ ...prev, ...parseConfigPatch(JSON.parse(stored)) }))
         }
       } catch {}
     }
     loadConfig()
   }, [])
 
+  // Load saved presets from API/localStorage on mount
+  useEffect(() => {
+    async function loadPresets() {
+      const apiPresets = await loadPresetsFromAPI()
+      presetsAreLocalRef.current = apiPresets == null
+      setSavedPresets(apiPresets ?? loadLocalPresets())
+    }
+    loadPresets()
+  }, [])
+
+  // Load a page of round history from API, falling back to localStorage
+  const loadRounds = useCallback(async (offset: number) => {
+    try {
+      const page = await loadRoundsFromAPI(offset, roundPageSize) ?? (() => {
+        const localRounds = loadLocalRounds()
+        return {
+          rounds: localRounds.slice(offset, offset + roundPageSize),
+          total: localRounds.length
+        }
+      })()
+      setRoundHistory(prev => offset === 0 ? page.rounds : [...prev, ...page.rounds])
+      setRoundHistoryTotal(page.total)
+    } finally {
+      setIsLoadingRounds(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void loadRounds(0)
+  }, [loadRounds])
+
+  useEffect(() => {
+    roundHistoryRef.current = roundHistory
+  }, [roundHistory])
+
+  const handleLoadMoreRounds = useCallback(() => {
+    setIsLoadingRounds(true)
+    void loadRounds(roundHistory.length)
+  }, [loadRounds, roundHistory.length])
+
   // Save config to localStorage when changed
   const configInitRef = useRef(false)
   useEffect(() => {
@@ -272,17 +617,113 @@ export function Plinko({ initialConfig }: PlinkoProps) {
       configInitRef.current = true
       return
     }
-    localStorage.setItem(configStorageKey, JSON.stringify(config))
+    localStorage.setItem(configStorageKey, JSON.stringify(serializeConfig(config)))
   }, [config])
 
-  // Persist players
-  const persistPlayers = useCallback(async (nextPlayers: PlayerProfile[]): Promise<boolean> => {
-    localStorage.setItem(playerStorageKey, JSON.stringify(nextPlayers))
-    return await savePlayersToAPI(nextPlayers)
+  useEffect(() => {
+    playersRef.current = players
+  }, [players])
+
+  // Save the whole roster. On a conflict, merge our edits (made on top of
+  // `base`) into the server's roster and retry once. Returns what was saved.
+  const persistPlayers = useCallback(async (
+    nextPlayers: PlayerProfile[],
+    base: PlayerProfile[],
+    audit: AuditContext
+  ): Promise<PlayerProfile[] | null> => {
+    recordLocalAudit(playersRef.current, nextPlayers, audit)
+    saveLocalPlayers(nextPlayers)
+    let saved = nextPlayers
+    let result = await savePlayersToAPI(saved, playersVersionRef.current, audit)
+    if (result.status === "conflict") {
+      saved = parsePlayers(mergePlayers(base, nextPlayers, result.players))
+      result = await savePlayersToAPI(saved, result.version, audit)
+    }
+    if (result.status !== "saved") return null
+    playersVersionRef.current = result.version
+    saveLocalPlayers(saved)
+    return saved
+  }, [recordLocalAudit])
+
+  // Follow-up for single-player API calls: only trust the new version if no
+  // one else wrote in between, and fall back to a full save when the server
+  // doesn't have the player yet
+  const handlePlayerWriteResult = useCallback((version: number | "missing" | null, audit: AuditContext) => {
+    if (version === "missing") {
+      void persistPlayers(playersRef.current, playersRef.current, audit).then(saved => {
+        if (saved != null) setPlayers(saved)
+      })
+      return
+    }
+    if (version !== null && playersVersionRef.current !== null && version === playersVersionRef.current + 1) {
+      playersVersionRef.current = version
+    }
+  }, [persistPlayers])
+
+  // Apply a local roster change immediately; the server is updated per player.
+  // With `audit`, the change is logged when there's no server to do it.
+  const updatePlayersLocally = useCallback((update: (prev: PlayerProfile[]) => PlayerProfile[], audit?: AuditContext) => {
+    if (audit != null) recordLocalAudit(playersRef.current, update(playersRef.current), audit)
+    setPlayers(prev => {
+      const updated = update(prev)
+      playersRef.current = updated
+      saveLocalPlayers(updated)
+      return updated
+    })
+  }, [recordLocalAudit])
+
+  // Persist a completed round
+  const persistRound = useCallback(async (round: RoundRecord): Promise<boolean> => {
+    try {
+      const localRounds = [round, ...loadLocalRounds()].slice(0, maxLocalRounds)
+      localStorage.setItem(roundStorageKey, JSON.stringify(localRounds))
+    } catch {}
+    return await saveRoundToAPI(round)
   }, [])
 
+  // Attach a finished standup to its round
+  const persistStandup = useCallback(async (record: StandupRecord): Promise<boolean> => {
+    try {
+      const localRounds = loadLocalRounds().map(round =>
+        round.id === record.roundId ? { ...round, standup: record } : round
+      )
+      localStorage.setItem(roundStorageKey, JSON.stringify(localRounds))
+    } catch {}
+    return await saveStandupToAPI(record)
+  }, [])
+
+  // Seasons - the open one plus closed ones with their final standings
+  const getPlayers = useCallback(() => playersRef.current, [])
+  const handleSeasonWinsReset = useCallback((reset: (prev: PlayerProfile[]) => PlayerProfile[], version: number | null) => {
+    // A local reset is logged here; the server logged its own
+    if (version == null) {
+      updatePlayersLocally(reset, manualAudit)
+      return
+    }
+    playersVersionRef.current = version
+    updatePlayersLocally(reset)
+  }, [updatePlayersLocally])
+  const { seasons, startSeason, closeSeason } = useSeasons({ getPlayers, onWinsReset: handleSeasonWinsReset })
+  const handleCloseSeason = useCallback(
+    (seasonId: string) => closeSeason(seasonId, manualAudit),
+    [closeSeason]
+  )
+
+  const championTitles = useMemo(() => seasonTitles(seasons), [seasons])
+  const allTimeTotals = useMemo(() => allTimeWins(players, seasons), [players, seasons])
+
+  const clearTournamentTimer = useCallback(() => {
+    if (tournamentTimerRef.current != null) {
+      clearTimeout(tournamentTimerRef.current)
+      tournamentTimerRef.current = null
+    }
+  }, [])
+
+  useEffect(() => clearTournamentTimer, [clearTournamentTimer])
+
   // Game controls
   const startGame = useCallback(() => {
+    clearTournamentTimer()
     setBoardKey(k => k + 1)
     setStarted(true)
     setRoundWinnerBuckets([])
@@ -291,38 +732,245 @@ export function Plinko({ initialConfig }: PlinkoProps) {
     setTiebreakerRound(0)
     allowWinCountRef.current = true
 
-    if (hasStartedOnceRef.current) {
+    let roundPlayers = enrolledPlayers
+    if (config.gameMode === "tournament" && enrolledPlayers.length >= 2) {
+      // Continue the running tournament with its survivors, or open a new one
+      // with everyone enrolled
+      const isContinuing = tournament != null && tournament.championId == null
+      const roster = isContinuing
+        ? players.filter(p => tournament.survivorIds.includes(p.id))
+        : enrolledPlayers
+      if (!isContinuing) {
+        setTournament({
+          id: makeTournamentId(),
+          startedAt: Date.now(),
+          entrantIds: roster.map(p => p.id),
+          survivorIds: roster.map(p => p.id),
+          eliminations: []
+        })
+      }
+      assignBuckets(roster)
+      roundPlayers = roster
+    } else if (hasStartedOnceRef.current) {
       assignBuckets(enrolledPlayers)
     }
     hasStartedOnceRef.current = true
-  }, [assignBuckets, enrolledPlayers])
+
+    // Rounds played with the config panel open are tests and aren't counted
+    if (roundCheckInDateRef.current == null && !showConfig) {
+      const checkIn = makeCheckIn(players, roundPlayers.map(p => p.id), Date.now())
+      recordAttendance(checkIn)
+      roundCheckInDateRef.current = checkIn.date
+    }
+  }, [assignBuckets, clearTournamentTimer, config.gameMode, enrolledPlayers, players, tournament, showConfig, recordAttendance])
+
+  useEffect(() => {
+    startGameRef.current = startGame
+  }, [startGame])
+
+  // Stream a host event to the live session, if one is open
+  const publishLiveEvent = useCallback((event: SessionEvent) => {
+    if (liveSession == null) return
+    void publishSessionEventToAPI(liveSession, event)
+  }, [liveSession])
 
   const stopGame = useCallback(() => {
+    clearTournamentTimer()
     setStarted(false)
     allowWinCountRef.current = false
-  }, [])
+    publishLiveEvent({ type: "stop" })
+  }, [clearTournamentTimer, publishLiveEvent])
+
+  // Announce each new board to spectators - they rebuild it from the seed
+  useEffect(() => {
+    if (!started || liveSessionId == null || publishedBoardKeyRef.current === boardKey) return
+    publishedBoardKeyRef.current = boardKey
+    const assigned = new Set(bucketAssignments)
+    publishLiveEvent({
+      type: "round-start",
+      seed: roundSeed,
+      config: boardConfig,
+      bucketAssignments,
+      bucketWeights,
+      players: players
+        .filter(p => assigned.has(p.id))
+        .map(p => ({ id: p.id, name: p.name, avatarUrl: p.avatarUrl }))
+    })
+  }, [started, boardKey, liveSessionId, roundSeed, boardConfig, bucketAssignments, bucketWeights, players, publishLiveEvent])
+
+  const handleBallSettle = useCallback((bucketIndex: number) => {
+    publishLiveEvent({ type: "settle", bucketIndex })
+  }, [publishLiveEvent])
+
+  useEffect(() => {
+    roundDropsRef.current = []
+  }, [boardKey])
+
+  const handlePlayerDrop = useCallback((drop: PlayerDrop) => {
+    roundDropsRef.current = [...roundDropsRef.current, drop]
+    publishLiveEvent({ type: "drop", drop })
+  }, [publishLiveEvent])
+
+  const handleLiveToggle = useCallback(async () => {
+    publishedBoardKeyRef.current = null
+    setLiveLinkCopied(false)
+    if (liveSession != null) {
+      setLiveSession(null)
+      return
+    }
+    setLiveSession(await createSessionToAPI())
+  }, [liveSession])
+
+  const handleCopyLiveLink = useCallback(async () => {
+    if (liveSessionId == null) return
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/plinko/session/${liveSessionId}`)
+      setLiveLinkCopied(true)
+      setTimeout(() => setLiveLinkCopied(false), 2000)
+    } catch {}
+  }, [liveSessionId])
+
+  // Finish a tournament round: drop the eliminated player(s), then either crown
+  // the last survivor or queue the next, smaller board
+  const handleTournamentRoundEnd = useCallback((current: TournamentState, winningBuckets: number[], result: PlinkoRoundResult) => {
+    const scheduleNextRound = () => {
+      setRoundWinnerBuckets([])
+      tournamentTimerRef.current = setTimeout(() => {
+        tournamentTimerRef.current = null
+        startGameRef.current()
+      }, tournamentRoundDelayMs)
+    }
+
+    let eliminatedIds = winningBuckets
+      .map(bucket => bucketAssignments[bucket])
+      .filter(Boolean)
+    let survivorIds = current.survivorIds.filter(id => !eliminatedIds.includes(id))
+
+    // A round that knocks out nobody, or the whole field, is played again. If
+    // it keeps happening, the round's seed picks who goes out (or who stays).
+    if (eliminatedIds.length === 0 || survivorIds.length === 0) {
+      const reason = eliminatedIds.length === 0 ? "nobody-out" : "everyone-out"
+      const count = (current.replay?.count ?? 0) + 1
+      if (count <= maxTournamentReplays) {
+        setTournament({ ...current, replay: { reason, count } })
+        scheduleNextRound()
+        return
+      }
+      const drawn = shuffleWithRandom(current.survivorIds, createSeededRandom(roundSeed))
+      eliminatedIds = reason === "nobody-out" ? drawn.slice(0, 1) : drawn.slice(1)
+      survivorIds = current.survivorIds.filter(id => !eliminatedIds.includes(id))
+    }
+
+    const championId = survivorIds.length === 1 ? survivorIds[0] : undefined
+    setTournament({
+      ...current,
+      replay: undefined,
+      survivorIds,
+      eliminations: [
+        ...current.eliminations,
+        {
+          round: current.eliminations.length + 1,
+          eliminatedIds,
+          bucketCounts: result.bucketCounts,
+          remaining: survivorIds.length
+        }
+      ],
+      championId
+    })
+
+    if (championId == null) {
+      scheduleNextRound()
+      return
+    }
+
+    // Tournament wins are tracked separately from single-round wins
+    setRoundWinnerBuckets([bucketAssignments.indexOf(championId)])
+    updatePlayersLocally(prev => prev.map(p =>
+      p.id === championId
+        ? { ...p, tournamentWins: (p.tournamentWins ?? 0) + 1 }
+        : p
+    ), gameAudit)
+    void incrementWinsToAPI(championId, "tournament", gameAudit).then(version => handlePlayerWriteResult(version, gameAudit))
+    setShowWinCelebration(true)
+  }, [bucketAssignments, roundSeed, updatePlayersLocally, handlePlayerWriteResult])
 
   // Handle game end
-  const handleGameEnd = useCallback((winningBuckets: number[]) => {
+  const handleGameEnd = useCallback((winningBuckets: number[], result: PlinkoRoundResult, steps: number) => {
     setStarted(false)
+    publishLiveEvent({ type: "round-end", winningBuckets, result })
+    const checkInDate = roundCheckInDateRef.current
+    roundCheckInDateRef.current = null
+
+    const participantIds = new Set(bucketAssignments)
+    setLastReplay({
+      timestamp: Date.now(),
+      config: boardConfig,
+      seed: roundSeed,
+      bucketWeights,
+      bucketAssignments: [...bucketAssignments],
+      playerDrops: roundDropsRef.current,
+      players: players.filter(p => participantIds.has(p.id)),
+      winningBuckets,
+      steps
+    })
+
+    // Tournament rounds don't count toward single-round wins or history
+    if (tournament != null && tournament.championId == null) {
+      if (allowWinCountRef.current && !showConfig) {
+        handleTournamentRoundEnd(tournament, winningBuckets, result)
+        allowWinCountRef.current = false
+      }
+      return
+    }
+
     setRoundWinnerBuckets(winningBuckets)
+    const speakingOrder = result.ranking
+      ?.map(bucket => bucketAssignments[bucket])
+      .filter(Boolean)
+    const speakerQueue = buildSpeakerQueue(config.speakerOrder, bucketAssignments, winningBuckets, result, roundSeed)
 
     // Increment wins for winning players (skip if config panel is open)
+    // Uncounted rounds still get a standup, it just isn't saved with a round
+    let recordedRoundId: string | null = null
     if (allowWinCountRef.current && !showConfig) {
       const winningPlayerIds = winningBuckets
         .map(bucket => bucketAssignments[bucket])
         .filter(Boolean)
 
+      // Record the round in history
+      const round: RoundRecord = {
+        id: makeRoundId(),
+        timestamp: Date.now(),
+        seed: roundSeed,
+        participants: players
+          .filter(p => participantIds.has(p.id))
+          .map(p => ({ id: p.id, name: p.name })),
+        bucketAssignments: [...bucketAssignments],
+        bucketCounts: result.bucketCounts,
+        winCondition: config.winCondition,
+        winNth: config.winCondition === "nth" ? config.winNth : undefined,
+        tiebreakerRounds: result.tiebreakerRounds,
+        winnerIds: winningPlayerIds,
+        speakingOrder
+      }
+      setRoundHistory(prev => [round, ...prev])
+      setRoundHistoryTotal(prev => prev + 1)
+      void persistRound(round)
+      recordedRoundId = round.id
+
       if (winningPlayerIds.length > 0) {
-        setPlayers(prev => {
-          const updated = prev.map(p =>
-            winningPlayerIds.includes(p.id)
-              ? { ...p, wins: p.wins + 1 }
-              : p
-          )
-          void persistPlayers(updated)
-          return updated
+        updatePlayersLocally(prev => prev.map(p =>
+          winningPlayerIds.includes(p.id)
+            ? { ...p, wins: p.wins + 1 }
+            : p
+        ), gameAudit)
+        winningPlayerIds.forEach(id => {
+          void incrementWinsToAPI(id, "round", gameAudit).then(version => handlePlayerWriteResult(version, gameAudit))
         })
+        // Wins go on the day the round checked in, so they're normalized by that day's rounds
+        if (checkInDate != null) {
+          recordAttendance({ type: "wins", date: checkInDate, playerIds: winningPlayerIds })
+        }
 
         // Show celebration for single winner
         if (winningPlayerIds.length === 1) {
@@ -331,33 +979,131 @@ export function Plinko({ initialConfig }: PlinkoProps) {
       }
       allowWinCountRef.current = false
     }
-  }, [bucketAssignments, persistPlayers, showConfig])
+    setStandup(createStandup(speakerQueue, recordedRoundId))
+  }, [bucketAssignments, updatePlayersLocally, handlePlayerWriteResult, persistRound, showConfig, players, roundSeed, boardConfig, bucketWeights, config.winCondition, config.winNth, config.speakerOrder, tournament, handleTournamentRoundEnd, publishLiveEvent, recordAttendance])
+
+  // Record the standup on its round once the last speaker is done
+  const handleStandupChange = useCallback((next: StandupState) => {
+    setStandup(next)
+    const record = standup?.endedAt == null ? toStandupRecord(next) : null
+    if (record == null) return
+    setRoundHistory(prev => prev.map(round =>
+      round.id === record.roundId ? { ...round, standup: record } : round
+    ))
+    void persistStandup(record)
+  }, [standup, persistStandup])
+
+  // Check a speaker off from the leaderboard's queue (or undo it)
+  const handleToggleSpoken = useCallback((playerId: string) => {
+    if (standup == null) return
+    handleStandupChange(toggleSpoken(standup, playerId, Date.now()))
+  }, [standup, handleStandupChange])
 
   // Handle tiebreaker announcement
   const handleTiebreaker = useCallback((roundNumber: number) => {
     setTiebreakerRound(roundNumber)
     setShowTiebreaker(true)
-  }, [])
+    publishLiveEvent({ type: "tiebreaker", roundNumber })
+  }, [publishLiveEvent])
 
   // Config change handler
   const handleConfigChange = <K extends keyof PlinkoConfig>(key: K, value: PlinkoConfig[K]) => {
     setConfig(prev => ({ ...prev, [key]: value }))
+    // Colors and standup timing don't touch the physics, so the board (and a running round) carries on
+    if (key === "customTheme" || standupConfigKeys.has(key)) return
     if (started) {
       setStarted(false)
     }
+    if (key === "gameMode") {
+      clearTournamentTimer()
+      setTournament(null)
+    }
     setBoardKey(k => k + 1)
   }
 
+  // Board editor saved a new layout
+  const handleLayoutChange = useCallback((layout: BoardLayout) => {
+    setConfig(prev => ({ ...prev, ...layout }))
+    setStarted(false)
+    setBoardKey(k => k + 1)
+  }, [])
+
+  // Moving the board loop to the other thread starts a fresh board
+  const handleRenderThreadToggle = () => {
+    setRenderThread(thread => thread === "worker" ? "main" : "worker")
+    setStarted(false)
+    setBoardKey(k => k + 1)
+  }
+
+  const handleCloseEditor = () => {
+    setEditorTool(null)
+    setSelectedObstacleId(null)
+  }
+
+  const handleLoadPreset = (preset: PlinkoPreset) => {
+    const next = applyPreset(config, preset)
+    setConfig(next)
+    if (started) {
+      setStarted(false)
+    }
+    if (next.gameMode !== config.gameMode) {
+      clearTournamentTimer()
+      setTournament(null)
+    }
+    setBoardKey(k => k + 1)
+  }
+
+  const showSaveMessage = useCallback((message: { type: "success" | "error"; text: string }) => {
+    setSaveMessage(message)
+    setTimeout(() => setSaveMessage(null), 3000)
+  }, [])
+
+  const handleSavePreset = useCallback(async (name: string): Promise<PlinkoPreset | null> => {
+    let preset: PlinkoPreset | null
+    if (!presetsAreLocalRef.current) {
+      const saved = await savePresetToAPI(name, config)
+      preset = saved
+      if (saved != null) {
+        setSavedPresets(prev => prev.some(p => p.id === saved.id)
+          ? prev.map(p => p.id === saved.id ? saved : p)
+          : [...prev, saved])
+      }
+    } else {
+      const local = upsertPreset(savedPresets, name, config)
+      localStorage.setItem(presetStorageKey, JSON.stringify(local.presets))
+      setSavedPresets(local.presets)
+      preset = local.preset
+    }
+    showSaveMessage(preset != null
+      ? { type: "success", text: `Saved preset "${name}"` }
+      : { type: "error", text: "Could not save preset" })
+    return preset
+  }, [config, savedPresets, showSaveMessage])
+
+  const handleDeletePreset = useCallback(async (id: string) => {
+    if (!presetsAreLocalRef.current) {
+      if (!await deletePresetFromAPI(id)) {
+        showSaveMessage({ type: "error", text: "Could not delete preset" })
+        return
+      }
+      setSavedPresets(prev => prev.filter(p => p.id !== id))
+    } else {
+      const presets = savedPresets.filter(p => p.id !== id)
+      localStorage.setItem(presetStorageKey, JSON.stringify(presets))
+      setSavedPresets(presets)
+    }
+  }, [savedPresets, showSaveMessage])
+
   // Player toggle handler
   const handleTogglePlayer = useCallback((id: string) => {
-    setPlayers(prev => {
-      const updated = prev.map(p =>
-        p.id === id ? { ...p, active: !p.active } : p
-      )
-      void persistPlayers(updated)
-      return updated
-    })
-  }, [persistPlayers])
+    const player = playersRef.current.find(p => p.id === id)
+    if (player == null) return
+    const active = !player.active
+    updatePlayersLocally(prev => prev.map(p =>
+      p.id === id ? { ...p, active } : p
+    ), manualAudit)
+    void patchPlayerToAPI(id, { active }, manualAudit).then(version => handlePlayerWriteResult(version, manualAudit))
+  }, [updatePlayersLocally, handlePlayerWriteResult])
 
   // Player manager handlers
   const handleUpdateDraftPlayer = useCallback((id: string, updates: Partial<PlayerProfile>) => {
@@ -397,11 +1143,14 @@ export function Plinko({ initialConfig }: PlinkoProps) {
   const handleSavePlayers = useCallback(async () => {
     setIsSaving(true)
     try {
-      const success = await persistPlayers(draftPlayers)
-      if (success) {
-        setPlayers(draftPlayers)
+      const saved = await persistPlayers(draftPlayers, draftBaseRef.current, manualAudit)
+      if (saved != null) {
+        setPlayers(saved)
         setPlayersDirty(false)
-        setSaveMessage({ type: "success", text: "Players saved!" })
+        setSaveMessage({
+          type: "success",
+          text: saved === draftPlayers ? "Players saved!" : "Players saved (merged with other changes)"
+        })
       } else {
         setSaveMessage({ type: "error", text: "Could not save to server" })
       }
@@ -414,24 +1163,30 @@ export function Plinko({ initialConfig }: PlinkoProps) {
     }
   }, [draftPlayers, persistPlayers])
 
-  const handleAvatarUpload = useCallback(async (playerId: string, file: File) => {
+  const handleAvatarUpload = useCallback(async (playerId: string, file: File, crop?: AvatarCrop) => {
     setUploadingPlayerId(playerId)
     try {
       const formData = new FormData()
       formData.append("file", file)
+      if (crop != null) formData.append("crop", JSON.stringify(crop))
       const response = await fetch("/api/plinko/avatar", {
         method: "POST",
         body: formData
       })
 
-      if (!response.ok) throw new Error("Upload failed")
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(typeof data.error === "string" ? data.error : "Upload failed")
+      }
 
-      const data = await response.json()
       if (typeof data.url === "string" && data.url.trim() !== "") {
         handleUpdateDraftPlayer(playerId, { avatarUrl: data.url })
       }
-    } catch {
-      setSaveMessage({ type: "error", text: "Avatar upload failed" })
+    } catch (error) {
+      setSaveMessage({
+        type: "error",
+        text: error instanceof Error ? `Avatar upload failed: ${error.message}` : "Avatar upload failed"
+      })
       setTimeout(() => setSaveMessage(null), 3000)
     } finally {
       setUploadingPlayerId(null)
@@ -442,7 +1197,7 @@ export function Plinko({ initialConfig }: PlinkoProps) {
   const handleSaveConfigToServer = useCallback(async () => {
     setIsSaving(true)
     try {
-      const success = await saveConfigToAPI(config)
+      const success = await saveConfigToAPI(config, manualAudit)
       setSaveMessage({
         type: success ? "success" : "error",
         text: success ? "Config saved!" : "Could not save to server"
@@ -457,10 +1212,36 @@ export function Plinko({ initialConfig }: PlinkoProps) {
 
   // Open player manager
   const openPlayerManager = useCallback(() => {
+    draftBaseRef.current = players
     setDraftPlayers(players)
     setPlayersDirty(false)
     setShowPlayerManager(true)
-  }, [players])
+    void refreshAudit()
+  }, [players, refreshAudit])
+
+  // Undo one logged change. The manager's draft follows the reverted roster.
+  const handleRevertAudit = useCallback(async (eventId: string): Promise<boolean> => {
+    const revert: AuditContext = { source: "manual", revertOf: eventId }
+    const result = await revertAudit(eventId, playersRef.current, revert)
+    if (result == null) return false
+    if (result.target === "config") {
+      setConfig(prev => ({ ...prev, ...parseConfigPatch(result.config) }))
+      return true
+    }
+
+    const reverted = result.players
+    if (result.version == null) {
+      // Reverted locally, so it's logged here too
+      updatePlayersLocally(() => reverted, revert)
+    } else {
+      playersVersionRef.current = result.version
+      updatePlayersLocally(() => reverted)
+    }
+    draftBaseRef.current = reverted
+    setDraftPlayers(reverted)
+    setPlayersDirty(false)
+    return true
+  }, [revertAudit, updatePlayersLocally])
 
   // Get winner for celebration
   const celebrationWinner = useMemo(() => {
@@ -469,6 +1250,13 @@ export function Plinko({ initialConfig }: PlinkoProps) {
     return players.find(p => p.id === winnerId) || null
   }, [roundWinnerBuckets, bucketAssignments, players])
 
+  // Spectators open the celebration when the host does
+  const celebrationWinnerId = showWinCelebration ? celebrationWinner?.id : undefined
+  useEffect(() => {
+    if (celebrationWinnerId == null) return
+    publishLiveEvent({ type: "celebration", winnerId: celebrationWinnerId })
+  }, [celebrationWinnerId, publishLiveEvent])
+
   return (
     <>
       <GameLayout
@@ -484,26 +1272,51 @@ export function Plinko({ initialConfig }: PlinkoProps) {
             onManageClick={openPlayerManager}
             searchQuery={playerSearchQuery}
             onSearchChange={setPlayerSearchQuery}
+            seasonTitles={championTitles}
           />
         }
         mainContent={
           <div className="flex flex-col items-center gap-4">
+            {editorTool != null && (
+              <BoardEditorToolbar
+                config={config}
+                tool={editorTool}
+                onToolChange={setEditorTool}
+                selectedObstacleId={selectedObstacleId}
+                onSelectObstacle={setSelectedObstacleId}
+                onLayoutChange={handleLayoutChange}
+                onClose={handleCloseEditor}
+                className="w-full"
+              />
+            )}
             <div className="relative">
               <PlinkoGame
                 key={boardKey}
-                config={config}
+                config={boardConfig}
                 bucketAssignments={bucketAssignments}
                 players={visiblePlayers}
                 isRunning={started}
+                seed={roundSeed}
+                bucketWeights={bucketWeights}
                 onGameEnd={handleGameEnd}
                 onTiebreaker={handleTiebreaker}
+                onBallSettle={handleBallSettle}
+                onPlayerDrop={handlePlayerDrop}
                 winningBuckets={roundWinnerBuckets}
                 soundEnabled={soundEnabled}
+                theme={theme}
+                editorTool={editorTool}
+                selectedObstacleId={selectedObstacleId}
+                onSelectObstacle={setSelectedObstacleId}
+                onLayoutChange={handleLayoutChange}
+                renderThread={renderThread}
+                showStats={showStats}
               />
               <TiebreakerAnnouncement
                 isVisible={showTiebreaker}
                 roundNumber={tiebreakerRound}
                 onComplete={() => setShowTiebreaker(false)}
+                theme={theme}
               />
             </div>
             <PlinkoControls
@@ -517,7 +1330,53 @@ export function Plinko({ initialConfig }: PlinkoProps) {
               showConfig={showConfig}
               isMuted={!soundEnabled}
               onMuteToggle={() => setSoundEnabled(!soundEnabled)}
+              isLive={liveSessionId != null}
+              onLiveToggle={handleLiveToggle}
+              themePreference={themePreference}
+              onThemeToggle={() => setThemePreference(nextThemePreference(themePreference))}
+              showStats={showStats}
+              onStatsToggle={() => setShowStats(!showStats)}
+              onReplay={lastReplay != null && !started ? () => setShowReplay(true) : undefined}
             />
+            {standup != null && (
+              <StandupRunner
+                standup={standup}
+                players={players}
+                speakerSeconds={config.speakerSeconds}
+                warningSeconds={config.speakerWarningSeconds}
+                soundEnabled={soundEnabled}
+                onChange={handleStandupChange}
+                onClose={() => setStandup(null)}
+              />
+            )}
+            {showStats && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span>
+                  Board loop on the {renderThread === "worker" ? "worker (OffscreenCanvas)" : "main thread"}
+                </span>
+                <button
+                  onClick={handleRenderThreadToggle}
+                  className="px-2 py-0.5 rounded-md bg-muted hover:bg-muted/80 text-foreground transition-colors"
+                  title="Restarts the board"
+                >
+                  {renderThread === "worker" ? "Run on main thread" : "Run in worker"}
+                </button>
+              </div>
+            )}
+            {liveSessionId != null && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span className="w-2 h-2 rounded-full bg-destructive animate-pulse" />
+                <span>
+                  Live at <span className="font-mono">/plinko/session/{liveSessionId}</span>
+                </span>
+                <button
+                  onClick={() => void handleCopyLiveLink()}
+                  className="px-2 py-0.5 rounded-md bg-muted hover:bg-muted/80 text-foreground transition-colors"
+                >
+                  {liveLinkCopied ? "Copied!" : "Copy link"}
+                </button>
+              </div>
+            )}
           </div>
         }
         rightSidebar={
@@ -526,16 +1385,62 @@ export function Plinko({ initialConfig }: PlinkoProps) {
               config={config}
               onConfigChange={handleConfigChange}
               enrolledPlayerCount={enrolledPlayers.length}
+              boardConfig={boardConfig}
+              bucketWeights={bucketWeights}
               onSaveToServer={handleSaveConfigToServer}
               isSaving={isSaving}
               saveMessage={saveMessage}
+              savedPresets={savedPresets}
+              onLoadPreset={handleLoadPreset}
+              onSavePreset={handleSavePreset}
+              onDeletePreset={handleDeletePreset}
+              onEditBoard={() => setEditorTool(editorTool ?? "select")}
+              isDark={isDark}
             />
           ) : (
-            <PlinkoLeaderboard
-              players={visiblePlayers}
-              bucketAssignments={bucketAssignments}
-              roundWinnerBuckets={roundWinnerBuckets}
-            />
+            <div className="space-y-4">
+              <div className="flex gap-1 p-1 rounded-lg bg-muted/50">
+                {(["leaderboard", "history"] as const).map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setRightPanelTab(tab)}
+                    className={cn(
+                      "flex-1 px-3 py-1.5 text-xs font-medium rounded-md capitalize transition-colors",
+                      rightPanelTab === tab
+                        ? "bg-background text-foreground shadow-sm"
+                        : "text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    {tab}
+                  </button>
+                ))}
+              </div>
+              {rightPanelTab === "leaderboard" ? (
+                <PlinkoLeaderboard
+                  players={visiblePlayers}
+                  bucketAssignments={bucketAssignments}
+                  roundWinnerBuckets={roundWinnerBuckets}
+                  roundSeed={roundSeed}
+                  speakingQueue={standup != null ? [...standup.speakers.map(s => s.playerId), ...standup.queue] : undefined}
+                  spokenIds={standup?.speakers.map(s => s.playerId)}
+                  onToggleSpoken={standup?.endedAt == null ? handleToggleSpoken : undefined}
+                  attendance={playerAttendance}
+                  seasons={seasons}
+                  allTimeWins={allTimeTotals}
+                  onStartSeason={startSeason}
+                  onCloseSeason={handleCloseSeason}
+                  tournament={tournament}
+                />
+              ) : (
+                <PlinkoRoundHistory
+                  rounds={roundHistory}
+                  total={roundHistoryTotal}
+                  players={players}
+                  isLoading={isLoadingRounds}
+                  onLoadMore={handleLoadMoreRounds}
+                />
+              )}
+            </div>
           )
         }
       />
@@ -573,6 +1478,8 @@ export function Plinko({ initialConfig }: PlinkoProps) {
         onAddPlayer={handleAddPlayer}
         onArchivePlayer={handleArchivePlayer}
         onSave={handleSavePlayers}
+        auditEvents={auditEvents}
+        onRevertAudit={handleRevertAudit}
         onAvatarUpload={handleAvatarUpload}
         isDirty={playersDirty}
         isSaving={isSaving}
@@ -584,7 +1491,18 @@ export function Plinko({ initialConfig }: PlinkoProps) {
         isVisible={showWinCelebration}
         winner={celebrationWinner}
         onClose={() => setShowWinCelebration(false)}
+        theme={theme}
       />
+
+      {/* Last round replay */}
+      {showReplay && lastReplay != null && (
+        <PlinkoReplay
+          replay={lastReplay}
+          onClose={() => setShowReplay(false)}
+          theme={theme}
+          soundEnabled={soundEnabled}
+        />
+      )}
     </>
   )
 }
@@ -0,0 +1,262 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import { cn } from "@/lib/utils"
+import { useBoardTheme } from "./plinko/hooks/useBoardTheme"
+import { winConditionLabels } from "./plinko/PlinkoRoundHistory"
+import type { PlayerProfile, PlinkoConfig, RoundRecord } from "./plinko/types"
+import { parsePlayers } from "./plinko/schema"
+import { loadLocalPlayers, loadLocalRounds } from "./plinko/utils/localRecords"
+import { computePlayerStats, type PlayerStats } from "./plinko/utils/playerStats"
+import { getAvatarUrl } from "./shared/PlayerSidebar"
+
+// Largest page the rounds API serves
+const roundPageSize = 100
+
+async function loadPlayersFromAPI(): Promise<PlayerProfile[] | null> {
+  try {
+    const response = await fetch("/api/plinko/players")
+    if (!response.ok) return null
+    const data = await response.json()
+    if (data.fallback === true || data.players == null) return null
+    return parsePlayers(data.players)
+  } catch {
+    return null
+  }
+}
+
+// Every stored round, page by page
+async function loadAllRoundsFromAPI(): Promise<RoundRecord[] | null> {
+  try {
+    // Rounds played while paging push older ones down a page, so the same
+    // round can come back twice - keep the first copy of each
+    const roundsById = new Map<string, RoundRecord>()
+    let offset = 0
+    for (;;) {
+      const response = await fetch(`/api/plinko/rounds?offset=${offset}&limit=${roundPageSize}`)
+      if (!response.ok) return null
+      const data = await response.json()
+      if (data.fallback === true || !Array.isArray(data.rounds)) return null
+      const page = data.rounds as RoundRecord[]
+      page.forEach(round => {
+        if (!roundsById.has(round.id)) roundsById.set(round.id, round)
+      })
+      offset += page.length
+      if (page.length < roundPageSize || roundsById.size >= data.total) return [...roundsById.values()]
+    }
+  } catch {
+    return null
+  }
+}
+
+const formatPercent = (value: number): string => `${Math.round(value * 100)}%`
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="p-3 rounded-xl glass-panel">
+      <div className="text-[11px] uppercase tracking-wide text-muted-foreground">{label}</div>
+      <div className="text-2xl font-bold tabular-nums">{value}</div>
+      {detail != null && <div className="text-xs text-muted-foreground">{detail}</div>}
+    </div>
+  )
+}
+
+/**
+ * Cumulative wins as a small line chart, one point per round played
+ */
+function WinSparkline({ points }: { points: PlayerStats["cumulativeWins"] }) {
+  const width = 300
+  const height = 60
+  const maxWins = Math.max(1, ...points.map(point => point.wins))
+  const step = points.length > 1 ? width / (points.length - 1) : width
+  const path = points
+    .map((point, index) => `${(index * step).toFixed(1)},${(height - point.wins / maxWins * height).toFixed(1)}`)
+    .join(" ")
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="none"
+      className="w-full h-16 overflow-visible"
+      role="img"
+      aria-label={`Cumulative wins over ${points.length} rounds`}
+    >
+      <polyline
+        points={path}
+        fill="none"
+        stroke="currentColor"
+        strokeWidth={2}
+        strokeLinejoin="round"
+        vectorEffect="non-scaling-stroke"
+        className="text-primary"
+      />
+    </svg>
+  )
+}
+
+export interface PlinkoPlayerStatsProps {
+  playerId: string
+}
+
+/**
+ * PlinkoPlayerStats - One player's record, worked out from the stored rounds
+ */
+export function PlinkoPlayerStats({ playerId }: PlinkoPlayerStatsProps) {
+  // Applies the viewer's light/dark mode to the page
+  useBoardTheme()
+  const [players, setPlayers] = useState<PlayerProfile[]>([])
+  const [rounds, setRounds] = useState<RoundRecord[] | null>(null)
+
+  useEffect(() => {
+    async function load() {
+      const [apiPlayers, apiRounds] = await Promise.all([loadPlayersFromAPI(), loadAllRoundsFromAPI()])
+      setPlayers(apiPlayers ?? loadLocalPlayers() ?? [])
+      setRounds(apiRounds ?? loadLocalRounds())
+    }
+    load()
+  }, [])
+
+  const stats = useMemo(
+    () => rounds != null ? computePlayerStats(playerId, rounds) : null,
+    [playerId, rounds]
+  )
+
+  // Players removed from the roster still have a name in their rounds
+  const player = players.find(p => p.id === playerId)
+  const name = player?.name
+    ?? rounds?.flatMap(round => round.participants).find(p => p.id === playerId)?.name
+    ?? "Unknown player"
+
+  return (
+    <div className="min-h-screen max-w-3xl mx-auto p-6 space-y-6">
+      <Link href="/" className="text-sm text-muted-foreground hover:text-foreground transition-colors">
+        ← Back to the board
+      </Link>
+
+      <div className="flex items-center gap-4">
+        <Image
+          src={getAvatarUrl(player ?? { id: playerId, name, wins: 0, active: false })}
+          alt={name}
+          width={64}
+          height={64}
+          unoptimized
+          className="w-16 h-16 rounded-full object-cover ring-2 ring-primary/40"
+        />
+        <div>
+          <h1 className="text-2xl font-semibold">{name}</h1>
+          {stats != null && (
+            <p className="text-sm text-muted-foreground">
+              {stats.wins} {stats.wins === 1 ? "win" : "wins"} in {stats.roundsPlayed} {stats.roundsPlayed === 1 ? "round" : "rounds"}
+              {player != null && (player.tournamentWins ?? 0) > 0 && ` · ${player.tournamentWins}× tournament champion`}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {stats == null ? (
+        <p className="text-sm text-muted-foreground">Loading rounds...</p>
+      ) : stats.roundsPlayed === 0 ? (
+        <p className="text-sm text-muted-foreground">No recorded rounds yet.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            <StatCard label="Win rate" value={formatPercent(stats.winRate)} detail="per round played" />
+            <StatCard
+              label="Win streak"
+              value={String(stats.currentWinStreak)}
+              detail={`Longest ${stats.longestWinStreak}`}
+            />
+            <StatCard
+              label="Longest drought"
+              value={String(stats.longestDrought)}
+              detail={`Current ${stats.currentDrought}`}
+            />
+            <StatCard
+              label="Favorite bucket"
+              value={stats.favoriteBucket != null ? `#${stats.favoriteBucket + 1}` : "—"}
+              detail="most wins from"
+            />
+          </div>
+
+          <section className="p-4 rounded-xl glass-panel space-y-2">
+            <h2 className="text-sm font-semibold">Wins over time</h2>
+            <WinSparkline points={stats.cumulativeWins} />
+            <div className="flex justify-between text-[11px] text-muted-foreground">
+              <span>{new Date(stats.cumulativeWins[0].timestamp).toLocaleDateString()}</span>
+              <span>{new Date(stats.cumulativeWins[stats.cumulativeWins.length - 1].timestamp).toLocaleDateString()}</span>
+            </div>
+          </section>
+
+          <div className="grid sm:grid-cols-2 gap-3">
+            <section className="p-4 rounded-xl glass-panel space-y-2">
+              <h2 className="text-sm font-semibold">By win condition</h2>
+              {(Object.keys(stats.byWinCondition) as Array<PlinkoConfig["winCondition"]>).map(condition => {
+                const record = stats.byWinCondition[condition]
+                if (record == null) return null
+                return (
+                  <div key={condition} className="flex items-center gap-2 text-sm">
+                    <span className="flex-1">{winConditionLabels[condition]}</span>
+                    <span className="tabular-nums text-muted-foreground">
+                      {record.wins}/{record.played} · {formatPercent(record.wins / record.played)}
+                    </span>
+                  </div>
+                )
+              })}
+            </section>
+
+            <section className="p-4 rounded-xl glass-panel space-y-2">
+              <h2 className="text-sm font-semibold">By bucket position</h2>
+              {stats.buckets.map(position => (
+                <div key={position.bucket} className="flex items-center gap-2 text-xs">
+                  <span className="w-16 shrink-0 tabular-nums">Bucket {position.bucket + 1}</span>
+                  <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className={cn(
+                        "h-full",
+                        position.bucket === stats.favoriteBucket ? "bg-game-success" : "bg-primary/60"
+                      )}
+                      style={{ width: `${position.wins / position.played * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-12 text-right tabular-nums text-muted-foreground">
+                    {position.wins}/{position.played}
+                  </span>
+                </div>
+              ))}
+            </section>
+          </div>
+
+          <section className="p-4 rounded-xl glass-panel space-y-2">
+            <h2 className="text-sm font-semibold">Head to head</h2>
+            <div className="space-y-1">
+              {stats.headToHead.map(record => (
+                <div key={record.opponentId} className="flex items-center gap-3 text-sm">
+                  <Link
+                    href={`/plinko/players/${encodeURIComponent(record.opponentId)}`}
+                    className="flex-1 min-w-0 truncate hover:underline"
+                  >
+                    {players.find(p => p.id === record.opponentId)?.name ?? record.opponentName}
+                  </Link>
+                  <span className="text-xs text-muted-foreground tabular-nums">
+                    {record.rounds} {record.rounds === 1 ? "round" : "rounds"}
+                  </span>
+                  <span
+                    className={cn(
+                      "w-14 text-right font-medium tabular-nums",
+                      record.wins > record.losses ? "text-game-success" : record.wins < record.losses ? "text-destructive" : ""
+                    )}
+                    title="Rounds won - rounds they won"
+                  >
+                    {record.wins}–{record.losses}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </section>
+        </>
+      )}
+    </div>
+  )
+}
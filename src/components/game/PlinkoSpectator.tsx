@@ -0,0 +1,178 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { cn } from "@/lib/utils"
+import { PlinkoGame } from "./plinko/PlinkoGame"
+import { WinCelebration } from "./plinko/WinCelebration"
+import { TiebreakerAnnouncement } from "./plinko/TiebreakerAnnouncement"
+import { FIXED_TIMESTEP_MS } from "./plinko/simulation"
+import { useBoardTheme } from "./plinko/hooks/useBoardTheme"
+import type { PlayerDrop, PlayerProfile, PlinkoRoundResult } from "./plinko/types"
+import type { SessionEvent, SessionMessage } from "@/lib/sessionBus"
+
+// Replayed overlays older than this are skipped - the moment has passed
+const overlayReplayWindowMs = 4000
+
+type RoundStart = Extract<SessionEvent, { type: "round-start" }>
+
+interface SpectatorRound extends RoundStart {
+  key: number
+  initialStep: number
+}
+
+export interface PlinkoSpectatorProps {
+  sessionId: string
+}
+
+/**
+ * PlinkoSpectator - Follows a host's live session. Each round is re-simulated
+ * locally from the host's seed and config; overlays follow the host's events.
+ */
+export function PlinkoSpectator({ sessionId }: PlinkoSpectatorProps) {
+  const [status, setStatus] = useState<"connecting" | "live" | "reconnecting" | "ended">("connecting")
+  const [round, setRound] = useState<SpectatorRound | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [landedCount, setLandedCount] = useState(0)
+  const [playerDrops, setPlayerDrops] = useState<PlayerDrop[]>([])
+  const [winningBuckets, setWinningBuckets] = useState<number[]>([])
+  const [hostResult, setHostResult] = useState<PlinkoRoundResult | null>(null)
+  const [localResult, setLocalResult] = useState<PlinkoRoundResult | null>(null)
+  const [celebrationWinnerId, setCelebrationWinnerId] = useState<string | null>(null)
+  const [showTiebreaker, setShowTiebreaker] = useState(false)
+  const [tiebreakerRound, setTiebreakerRound] = useState(0)
+  // Host's custom colors if the round has them, otherwise this viewer's light/dark mode
+  const { theme } = useBoardTheme(round?.config.customTheme ?? null)
+
+  const handleMessage = useCallback(({ event, elapsedMs }: SessionMessage) => {
+    const isFresh = elapsedMs < overlayReplayWindowMs
+    switch (event.type) {
+      case "round-start":
+        setRound(prev => ({
+          ...event,
+          key: (prev?.key ?? 0) + 1,
+          initialStep: Math.floor(elapsedMs / FIXED_TIMESTEP_MS)
+        }))
+        setIsRunning(true)
+        setLandedCount(0)
+        setPlayerDrops([])
+        setWinningBuckets([])
+        setHostResult(null)
+        setLocalResult(null)
+        setCelebrationWinnerId(null)
+        setShowTiebreaker(false)
+        break
+      case "drop":
+        setPlayerDrops(prev => [...prev, event.drop])
+        break
+      case "settle":
+        setLandedCount(count => count + 1)
+        break
+      case "tiebreaker":
+        setTiebreakerRound(event.roundNumber)
+        if (isFresh) setShowTiebreaker(true)
+        break
+      case "round-end":
+        setIsRunning(false)
+        setWinningBuckets(event.winningBuckets)
+        setHostResult(event.result)
+        break
+      case "celebration":
+        if (isFresh) setCelebrationWinnerId(event.winnerId)
+        break
+      case "stop":
+        setIsRunning(false)
+        break
+    }
+  }, [])
+
+  useEffect(() => {
+    const source = new EventSource(`/api/plinko/session/${encodeURIComponent(sessionId)}`)
+    source.onopen = () => setStatus("live")
+    // EventSource reconnects on its own; just reflect it in the UI. It gives
+    // up for good when the session is gone (404).
+    source.onerror = () => setStatus(source.readyState === EventSource.CLOSED ? "ended" : "reconnecting")
+    source.onmessage = event => {
+      try {
+        handleMessage(JSON.parse(event.data) as SessionMessage)
+      } catch {}
+    }
+    return () => source.close()
+  }, [sessionId, handleMessage])
+
+  const players = useMemo<PlayerProfile[]>(
+    () => (round?.players ?? []).map(p => ({ ...p, wins: 0, active: true })),
+    [round]
+  )
+
+  const celebrationWinner = useMemo(
+    () => players.find(p => p.id === celebrationWinnerId) ?? null,
+    [players, celebrationWinnerId]
+  )
+
+  // Same seed and config should land every ball identically - flag it if not
+  const isOutOfSync = hostResult != null && localResult != null &&
+    hostResult.bucketCounts.join(",") !== localResult.bucketCounts.join(",")
+
+  return (
+    <div className="min-h-screen flex flex-col items-center gap-4 p-6">
+      <div className="flex items-center gap-3 text-sm">
+        <span className={cn(
+          "w-2 h-2 rounded-full",
+          status === "live" ? "bg-destructive animate-pulse" : "bg-muted-foreground"
+        )} />
+        <span className="font-medium">
+          {status === "live"
+            ? "Watching live"
+            : status === "connecting" ? "Connecting..." : status === "ended" ? "Session ended" : "Reconnecting..."}
+        </span>
+        <span className="font-mono text-xs text-muted-foreground">{sessionId}</span>
+        {round != null && (
+          <span className="text-xs text-muted-foreground tabular-nums">
+            {landedCount} landed
+          </span>
+        )}
+        {isOutOfSync && (
+          <span className="px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide bg-amber-500/15 text-amber-600 rounded">
+            Out of sync - showing host result
+          </span>
+        )}
+      </div>
+
+      {round != null ? (
+        <div className="relative">
+          <PlinkoGame
+            key={round.key}
+            config={round.config}
+            bucketAssignments={round.bucketAssignments}
+            bucketWeights={round.bucketWeights}
+            players={players}
+            isRunning={isRunning}
+            seed={round.seed}
+            initialStep={round.initialStep}
+            playerDrops={playerDrops}
+            onGameEnd={(_, result) => setLocalResult(result)}
+            winningBuckets={winningBuckets}
+            theme={theme}
+          />
+          <TiebreakerAnnouncement
+            isVisible={showTiebreaker}
+            roundNumber={tiebreakerRound}
+            onComplete={() => setShowTiebreaker(false)}
+            theme={theme}
+          />
+        </div>
+      ) : (
+        <div className="py-24 text-sm text-muted-foreground">
+          Waiting for the host to start a round...
+        </div>
+      )}
+
+      <WinCelebration
+        isVisible={celebrationWinner != null}
+        winner={celebrationWinner}
+        onClose={() => setCelebrationWinnerId(null)}
+        theme={theme}
+      />
+    </div>
+  )
+}
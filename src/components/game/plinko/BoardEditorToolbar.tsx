@@ -0,0 +1,167 @@
+"use client"
+
+import * as React from "react"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { RangeSlider } from "@/components/ui/RangeSlider"
+import type { BoardObstacle, PlinkoConfig } from "./types"
+import { obstacleSchema } from "./schema"
+import {
+  editableObstacles,
+  toBoardLayout,
+  type BoardEditorTool,
+  type BoardLayout,
+} from "./utils/boardEditor"
+
+export interface BoardEditorToolbarProps {
+  config: PlinkoConfig
+  tool: BoardEditorTool
+  onToolChange: (tool: BoardEditorTool) => void
+  selectedObstacleId: string | null
+  onSelectObstacle: (id: string | null) => void
+  onLayoutChange: (layout: BoardLayout) => void
+  onClose: () => void
+  className?: string
+}
+
+const tools: Array<{ tool: BoardEditorTool; label: string; hint: string }> = [
+  { tool: "select", label: "Select", hint: "Pick and drag obstacles" },
+  { tool: "pin", label: "Pin", hint: "Place pins" },
+  { tool: "bumper", label: "Bumper", hint: "Place extra-bouncy round bumpers" },
+  { tool: "spinner", label: "Spinner", hint: "Place rotating bars" },
+  { tool: "deflector", label: "Deflector", hint: "Place angled walls" },
+  { tool: "gate", label: "Gate", hint: "Place one-way gates - balls pass in the arrow's direction" },
+  { tool: "erase", label: "Erase", hint: "Click obstacles to delete them" },
+]
+
+function EditorSlider({ label, value, onChange, min, max }: {
+  label: string
+  value: number
+  onChange: (value: number) => void
+  min: number
+  max: number
+}) {
+  return (
+    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+      <span className="w-12 shrink-0">{label}</span>
+      <RangeSlider className="w-28" value={value} onValueChange={onChange} min={min} max={max} />
+      <span className="w-10 tabular-nums text-foreground">{value}</span>
+    </label>
+  )
+}
+
+/**
+ * BoardEditorToolbar - Tool palette and settings for the selected obstacle
+ */
+export function BoardEditorToolbar({
+  config,
+  tool,
+  onToolChange,
+  selectedObstacleId,
+  onSelectObstacle,
+  onLayoutChange,
+  onClose,
+  className,
+}: BoardEditorToolbarProps) {
+  const obstacles = editableObstacles(config)
+  const selected = obstacles.find(o => o.id === selectedObstacleId)
+
+  const updateSelected = (patch: Partial<BoardObstacle>) => {
+    if (selected == null) return
+    const updated = { ...selected, ...patch }
+    onLayoutChange(toBoardLayout(config, obstacles.map(o => o.id === updated.id ? updated : o), updated))
+  }
+
+  const deleteSelected = () => {
+    if (selected == null) return
+    onLayoutChange(toBoardLayout(config, obstacles.filter(o => o.id !== selected.id), selected))
+    onSelectObstacle(null)
+  }
+
+  const resetPins = () => {
+    onLayoutChange({ pinLayout: "grid", obstacles: config.obstacles.filter(o => o.type !== "pin") })
+    onSelectObstacle(null)
+  }
+
+  const clearObstacles = () => {
+    onLayoutChange({ pinLayout: config.pinLayout, obstacles: config.obstacles.filter(o => o.type === "pin") })
+    onSelectObstacle(null)
+  }
+
+  const hasPlacedObstacles = config.obstacles.some(o => o.type !== "pin")
+
+  return (
+    <div className={cn("flex flex-col gap-2 p-3 rounded-xl glass-panel", className)}>
+      <div className="flex flex-wrap items-center gap-1">
+        {tools.map(({ tool: value, label, hint }) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={tool === value ? "secondary" : "ghost"}
+            onClick={() => onToolChange(value)}
+            title={hint}
+          >
+            {label}
+          </Button>
+        ))}
+        <div className="flex-1" />
+        <Button size="sm" onClick={onClose}>
+          Done
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 min-h-8">
+        {selected != null ? (
+          <>
+            <span className="text-xs font-medium capitalize">{selected.type}</span>
+            {selected.type !== "pin" && selected.type !== "bumper" && (
+              <EditorSlider
+                label="Angle"
+                value={selected.angle}
+                onChange={angle => updateSelected({ angle })}
+                min={-180}
+                max={180}
+              />
+            )}
+            {selected.type !== "pin" && (
+              <EditorSlider
+                label={selected.type === "bumper" ? "Radius" : "Length"}
+                value={selected.size}
+                onChange={size => updateSelected({ size })}
+                {...obstacleSchema.size[selected.type]}
+              />
+            )}
+            {selected.type === "spinner" && (
+              <EditorSlider
+                label="Speed"
+                value={selected.speed ?? 0}
+                onChange={speed => updateSelected({ speed })}
+                {...obstacleSchema.speed}
+              />
+            )}
+            <Button size="sm" variant="outline" onClick={deleteSelected}>
+              Delete
+            </Button>
+          </>
+        ) : (
+          <span className="text-xs text-muted-foreground">
+            {config.pinLayout === "custom" ? "Custom pin layout" : "Grid pins"}
+            {" - "}
+            {tool === "select" ? "click an obstacle to edit it" : tools.find(t => t.tool === tool)?.hint}
+          </span>
+        )}
+        <div className="flex-1" />
+        {hasPlacedObstacles && (
+          <Button size="sm" variant="ghost" onClick={clearObstacles} title="Remove bumpers, spinners, deflectors and gates">
+            Clear obstacles
+          </Button>
+        )}
+        {config.pinLayout === "custom" && (
+          <Button size="sm" variant="ghost" onClick={resetPins} title="Go back to the staggered pin grid">
+            Reset pins to grid
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -6,15 +6,40 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/Input"
 import { RangeSlider } from "@/components/ui/RangeSlider"
 import { Select } from "@/components/ui/Select"
-import type { PlinkoConfig } from "./types"
+import {
+  builtInPresets,
+  type BucketModifierType,
+  type PlinkoConfig,
+  type PlinkoPreset,
+  type RenderTheme
+} from "./types"
+import { normalizeSeed } from "./utils/random"
+import { configRange } from "./schema"
+import { applyPreset } from "./utils/presets"
+import { buildBoardUrl } from "./utils/boardUrl"
+import { useFairnessReport } from "./hooks/useFairnessReport"
+import { UNFAIR_P_VALUE } from "./simulation/fairness"
+import { unfinishableReason } from "./simulation/PlinkoSimulation"
+import { darkTheme, lightTheme, renderThemeFields } from "./utils/theme"
 
 export interface PlinkoConfigPanelProps {
   config: PlinkoConfig
   onConfigChange: <K extends keyof PlinkoConfig>(key: K, value: PlinkoConfig[K]) => void
   enrolledPlayerCount: number
+  /** The config the board actually plays with (tournaments force last-empty), for the fairness report */
+  boardConfig?: PlinkoConfig
+  /** Current bucket widths, for the fairness report */
+  bucketWeights?: number[]
   onSaveToServer?: () => void
   isSaving?: boolean
   saveMessage?: { type: "success" | "error"; text: string } | null
+  savedPresets?: PlinkoPreset[]
+  onLoadPreset?: (preset: PlinkoPreset) => void
+  onSavePreset?: (name: string) => Promise<PlinkoPreset | null>
+  onDeletePreset?: (id: string) => Promise<void>
+  onEditBoard?: () => void
+  /** Page is in dark mode - new custom themes start from the dark palette */
+  isDark?: boolean
   className?: string
 }
 
@@ -63,6 +88,353 @@ function ConfigRow({ label, children }: { label: string; children: React.ReactNo
   )
 }
 
+const bucketModifierOptions: Array<{ value: BucketModifierType; label: string }> = [
+  { value: "double", label: "Double (counts 2)" },
+  { value: "steal", label: "Steal from neighbor" },
+  { value: "reset", label: "Reset to zero" },
+  { value: "jackpot", label: "Jackpot (wins instantly)" },
+]
+
+/**
+ * Per-bucket modifier pickers
+ */
+function BucketModifierList({ config, onConfigChange }: Pick<PlinkoConfigPanelProps, "config" | "onConfigChange">) {
+  const handleChange = (bucket: number, type: BucketModifierType | "") => {
+    const others = config.bucketModifiers.filter(m => m.bucket !== bucket)
+    const next = type === "" ? others : [...others, { bucket, type }]
+    onConfigChange("bucketModifiers", next.sort((a, b) => a.bucket - b.bucket))
+  }
+
+  return (
+    <>
+      {Array.from({ length: config.bucketCount }, (_, bucket) => (
+        <ConfigRow key={bucket} label={`Bucket ${bucket + 1}`}>
+          <Select
+            className="flex-1 h-8 text-xs"
+            value={config.bucketModifiers.find(m => m.bucket === bucket)?.type ?? ""}
+            onChange={e => handleChange(bucket, e.target.value as BucketModifierType | "")}
+          >
+            <option value="">Normal</option>
+            {bucketModifierOptions.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </Select>
+        </ConfigRow>
+      ))}
+      {config.winCondition === "last-empty" && config.bucketModifiers.some(m => m.type === "jackpot") && (
+        <p className="text-xs text-muted-foreground">
+          Jackpots count as normal buckets when the emptiest bucket wins (and in tournaments).
+        </p>
+      )}
+    </>
+  )
+}
+
+/**
+ * Custom board colors: one color picker per theme field, saved with the config
+ * (and so with presets)
+ */
+function ThemeEditor({ config, onConfigChange, isDark }: Pick<PlinkoConfigPanelProps, "config" | "onConfigChange" | "isDark">) {
+  const customTheme = config.customTheme
+  const setColor = (key: keyof RenderTheme, color: string) => {
+    if (customTheme == null) return
+    onConfigChange("customTheme", { ...customTheme, [key]: color })
+  }
+
+  return (
+    <>
+      <ConfigRow label="Board Colors">
+        <Select
+          className="flex-1 h-8 text-xs"
+          value={customTheme != null ? "custom" : "page"}
+          onChange={e => onConfigChange(
+            "customTheme",
+            e.target.value === "custom" ? { ...(isDark === true ? darkTheme : lightTheme) } : null
+          )}
+        >
+          <option value="page">Match light/dark mode</option>
+          <option value="custom">Custom</option>
+        </Select>
+      </ConfigRow>
+      {customTheme != null && (
+        <>
+          <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+            {renderThemeFields.map(({ key, label }) => (
+              <label key={key} className="flex items-center gap-2 text-xs text-muted-foreground">
+                <input
+                  type="color"
+                  value={customTheme[key]}
+                  onChange={e => setColor(key, e.target.value)}
+                  className="w-7 h-7 shrink-0 rounded border border-border bg-transparent cursor-pointer"
+                />
+                <span className="truncate">{label}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="outline" className="flex-1" onClick={() => onConfigChange("customTheme", { ...lightTheme })}>
+              Reset to light
+            </Button>
+            <Button size="sm" variant="outline" className="flex-1" onClick={() => onConfigChange("customTheme", { ...darkTheme })}>
+              Reset to dark
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Custom colors are saved with presets and shown to spectators.
+          </p>
+        </>
+      )}
+    </>
+  )
+}
+
+interface PresetPickerProps {
+  config: PlinkoConfig
+  savedPresets: PlinkoPreset[]
+  onLoadPreset: (preset: PlinkoPreset) => void
+  onSavePreset?: (name: string) => Promise<PlinkoPreset | null>
+  onDeletePreset?: (id: string) => Promise<void>
+}
+
+/**
+ * Preset dropdown with save-as and delete for saved presets
+ */
+function PresetPicker({ config, savedPresets, onLoadPreset, onSavePreset, onDeletePreset }: PresetPickerProps) {
+  const [selectedId, setSelectedId] = React.useState("")
+  const [newName, setNewName] = React.useState<string | null>(null)
+  const [isBusy, setIsBusy] = React.useState(false)
+
+  const presets = React.useMemo(() => [...builtInPresets, ...savedPresets], [savedPresets])
+  const selected = presets.find(p => p.id === selectedId)
+  // Flag the selection once the config drifts from what the preset sets
+  const isModified = selected != null &&
+    JSON.stringify(applyPreset(config, selected)) !== JSON.stringify(config)
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id)
+    const preset = presets.find(p => p.id === id)
+    if (preset != null) onLoadPreset(preset)
+  }
+
+  const handleSave = async () => {
+    const name = newName?.trim() ?? ""
+    if (name === "" || onSavePreset == null) return
+    setIsBusy(true)
+    try {
+      const saved = await onSavePreset(name)
+      if (saved != null) {
+        setSelectedId(saved.id)
+        setNewName(null)
+      }
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (selected == null || selected.builtIn === true || onDeletePreset == null) return
+    setIsBusy(true)
+    try {
+      await onDeletePreset(selected.id)
+      setSelectedId("")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <ConfigRow label="Preset">
+        <Select
+          className="flex-1 h-8 text-xs"
+          value={selectedId}
+          onChange={e => handleSelect(e.target.value)}
+          disabled={isBusy}
+        >
+          <option value="">Custom</option>
+          <optgroup label="Built-in">
+            {builtInPresets.map(preset => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}{preset.id === selectedId && isModified ? " (modified)" : ""}
+              </option>
+            ))}
+          </optgroup>
+          {savedPresets.length > 0 && (
+            <optgroup label="Saved">
+              {savedPresets.map(preset => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.name}{preset.id === selectedId && isModified ? " (modified)" : ""}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </Select>
+        {onDeletePreset != null && selected != null && selected.builtIn !== true && (
+          <Button size="sm" variant="outline" onClick={handleDelete} disabled={isBusy} title="Delete preset">
+            Delete
+          </Button>
+        )}
+        {onSavePreset != null && newName == null && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setNewName(selected != null && selected.builtIn !== true ? selected.name : "")}
+            disabled={isBusy}
+          >
+            Save as...
+          </Button>
+        )}
+      </ConfigRow>
+
+      {newName != null && (
+        <ConfigRow label="Name">
+          <Input
+            className="flex-1 h-8 text-xs"
+            value={newName}
+            onChange={e => setNewName(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === "Enter") void handleSave()
+              if (e.key === "Escape") setNewName(null)
+            }}
+            maxLength={40}
+            placeholder="Preset name"
+            autoFocus
+          />
+          <Button
+            size="sm"
+            onClick={handleSave}
+            disabled={isBusy || newName.trim() === ""}
+          >
+            Save
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setNewName(null)} disabled={isBusy}>
+            Cancel
+          </Button>
+        </ConfigRow>
+      )}
+    </div>
+  )
+}
+
+const fairnessRoundOptions = [100, 250, 500]
+
+interface FairnessReportViewProps {
+  config: PlinkoConfig
+  bucketWeights: number[]
+}
+
+/**
+ * Runs background simulations for the board as played and charts how often each bucket wins
+ */
+function FairnessReportView({ config, bucketWeights }: FairnessReportViewProps) {
+  const { report, isRunning, progress, error, run, cancel } = useFairnessReport()
+  const [rounds, setRounds] = React.useState(fairnessRoundOptions[0])
+  const [testedConfigKey, setTestedConfigKey] = React.useState<string | null>(null)
+
+  const configKey = JSON.stringify([config, bucketWeights])
+  const isStale = report != null && testedConfigKey !== configKey
+  // Same check the simulate API makes - a round that can't finish would only burn its step budget
+  const blockedReason = config.bucketCount < 2
+    ? "Enroll at least two players to test fairness."
+    : unfinishableReason(config)
+  const canRun = blockedReason == null
+  const maxRate = report != null ? Math.max(...report.winRates, 1 / report.wins.length) : 0
+
+  const handleRun = () => {
+    setTestedConfigKey(configKey)
+    run(config, rounds, bucketWeights)
+  }
+
+  return (
+    <>
+      <ConfigRow label="Rounds">
+        <Select
+          className="flex-1 h-8 text-xs"
+          value={rounds}
+          onChange={e => setRounds(Number(e.target.value))}
+          disabled={isRunning}
+        >
+          {fairnessRoundOptions.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </Select>
+        {isRunning ? (
+          <Button size="sm" variant="outline" onClick={cancel}>
+            Cancel
+          </Button>
+        ) : (
+          <Button size="sm" onClick={handleRun} disabled={!canRun}>
+            Run
+          </Button>
+        )}
+      </ConfigRow>
+
+      {isRunning && (
+        <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+          <div
+            className="h-full bg-primary transition-all"
+            style={{ width: `${Math.round(progress * 100)}%` }}
+          />
+        </div>
+      )}
+
+      {blockedReason != null && (
+        <p className="text-xs text-muted-foreground">{blockedReason}</p>
+      )}
+
+      {error != null && (
+        <p className="text-xs text-destructive">{error}</p>
+      )}
+
+      {report != null && (
+        <div className={cn("space-y-2", isStale && "opacity-50")}>
+          <div className="flex items-center gap-2">
+            <span className={cn(
+              "text-xs px-2 py-0.5 rounded font-semibold",
+              report.isUnfair
+                ? "bg-destructive/20 text-destructive"
+                : "bg-game-success/20 text-game-success"
+            )}>
+              {report.isUnfair ? "Unfair" : "Looks fair"}
+            </span>
+            <span className="text-xs text-muted-foreground font-mono">
+              χ² {report.chiSquare.statistic.toFixed(1)} (df {report.chiSquare.degreesOfFreedom}) · p {report.chiSquare.pValue < 0.001 ? "< 0.001" : report.chiSquare.pValue.toFixed(3)}
+            </span>
+          </div>
+
+          {/* Histogram of win probability per bucket; the dashed line marks equal odds */}
+          <div className="relative flex items-end gap-0.5 h-24 border-b border-border/50">
+            <div
+              className="absolute inset-x-0 border-t border-dashed border-muted-foreground/60"
+              style={{ bottom: `${(1 / report.wins.length / maxRate) * 100}%` }}
+            />
+            {report.winRates.map((rate, bucketIndex) => (
+              <div
+                key={bucketIndex}
+                className="flex-1 bg-primary/70 rounded-t-sm"
+                style={{ height: `${(rate / maxRate) * 100}%` }}
+                title={`Bucket ${bucketIndex + 1}: ${(rate * 100).toFixed(1)}% (${report.wins[bucketIndex]} wins)`}
+              />
+            ))}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {report.completed} of {report.rounds} rounds finished
+            {report.tiebreakers > 0 && `, ${report.tiebreakers} needed tiebreakers`}
+            {report.escapedBalls > 0 && `, ${report.escapedBalls} balls fell through the floor`}.
+            {report.isUnfair
+              ? ` Bucket odds differ from equal (p < ${UNFAIR_P_VALUE}), so the shuffled standup order is biased.`
+              : " No measurable bucket bias."}
+          </p>
+          {isStale && (
+            <p className="text-xs text-amber-600">Settings changed since this run.</p>
+          )}
+        </div>
+      )}
+    </>
+  )
+}
+
 /**
  * PlinkoConfigPanel - Accordion-based configuration panel
  */
@@ -70,16 +442,45 @@ export function PlinkoConfigPanel({
   config,
   onConfigChange,
   enrolledPlayerCount,
+  boardConfig = config,
+  bucketWeights = [],
   onSaveToServer,
   isSaving = false,
   saveMessage,
+  savedPresets = [],
+  onLoadPreset,
+  onSavePreset,
+  onDeletePreset,
+  onEditBoard,
+  isDark = false,
   className,
 }: PlinkoConfigPanelProps) {
+  const [linkCopied, setLinkCopied] = React.useState(false)
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(buildBoardUrl(config, window.location))
+      setLinkCopied(true)
+      setTimeout(() => setLinkCopied(false), 2000)
+    } catch {}
+  }
+
   return (
     <div className={cn("space-y-4", className)}>
-      {/* Header with Save */}
-      {onSaveToServer && (
-        <div className="flex items-center gap-3">
+      {/* Presets */}
+      {onLoadPreset != null && (
+        <PresetPicker
+          config={config}
+          savedPresets={savedPresets}
+          onLoadPreset={onLoadPreset}
+          onSavePreset={onSavePreset}
+          onDeletePreset={onDeletePreset}
+        />
+      )}
+
+      {/* Header with Save and share */}
+      <div className="flex items-center gap-3">
+        {onSaveToServer && (
           <Button
             size="sm"
             onClick={onSaveToServer}
@@ -87,57 +488,101 @@ export function PlinkoConfigPanel({
           >
             {isSaving ? "Saving..." : "Save to Server"}
           </Button>
-          {saveMessage && (
-            <span className={cn(
-              "text-xs px-2 py-1 rounded",
-              saveMessage.type === "success" 
-                ? "bg-game-success/20 text-game-success" 
-                : "bg-destructive/20 text-destructive"
-            )}>
-              {saveMessage.text}
-            </span>
-          )}
-        </div>
-      )}
+        )}
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => void handleCopyLink()}
+          title="Copy a link that opens this exact board"
+        >
+          {linkCopied ? "Copied!" : "Copy link"}
+        </Button>
+        {saveMessage && (
+          <span className={cn(
+            "text-xs px-2 py-1 rounded",
+            saveMessage.type === "success" 
+              ? "bg-game-success/20 text-game-success" 
+              : "bg-destructive/20 text-destructive"
+          )}>
+            {saveMessage.text}
+          </span>
+        )}
+      </div>
 
       {/* Balls Section */}
       <CollapsibleSection title="Balls">
-        <ConfigRow label="Count">
-          <RangeSlider
-            className="flex-1"
-            value={config.ballCount}
-            onValueChange={v => onConfigChange("ballCount", v)}
-            min={0}
-            max={50}
-          />
-          {config.ballCount === 0 ? (
-            <span className="w-16 text-xs text-muted-foreground">∞</span>
-          ) : (
-            <Input
-              className="w-16 h-8 text-xs"
-              type="number"
+        <ConfigRow label="Dropped By">
+          <Select
+            className="flex-1 h-8 text-xs"
+            value={config.dropMode}
+            onChange={e => onConfigChange("dropMode", e.target.value as PlinkoConfig["dropMode"])}
+          >
+            <option value="auto">Automatic</option>
+            <option value="players">Players (take turns aiming)</option>
+          </Select>
+        </ConfigRow>
+        {config.dropMode === "players" ? (
+          <>
+            <ConfigRow label="Balls Each">
+              <RangeSlider
+                className="flex-1"
+                value={config.ballsPerPlayer}
+                onValueChange={v => onConfigChange("ballsPerPlayer", v)}
+                {...configRange("ballsPerPlayer")}
+              />
+              <Input
+                className="w-16 h-8 text-xs"
+                type="number"
+                value={config.ballsPerPlayer}
+                onChange={e => onConfigChange("ballsPerPlayer", Number(e.target.value))}
+                {...configRange("ballsPerPlayer")}
+              />
+            </ConfigRow>
+            <ConfigRow label="Scoring">
+              <Select
+                className="flex-1 h-8 text-xs"
+                value={config.playerScoring}
+                onChange={e => onConfigChange("playerScoring", e.target.value as PlinkoConfig["playerScoring"])}
+              >
+                <option value="own-bucket">Own balls in own bucket</option>
+                <option value="any">Any ball in your bucket</option>
+              </Select>
+            </ConfigRow>
+          </>
+        ) : (
+          <ConfigRow label="Count">
+            <RangeSlider
+              className="flex-1"
               value={config.ballCount}
-              onChange={e => onConfigChange("ballCount", Number(e.target.value))}
-              min={0}
-              max={50}
+              onValueChange={v => onConfigChange("ballCount", v)}
+              {...configRange("ballCount")}
             />
-          )}
-        </ConfigRow>
+            {config.ballCount === 0 ? (
+              <span className="w-16 text-xs text-muted-foreground">∞</span>
+            ) : (
+              <Input
+                className="w-16 h-8 text-xs"
+                type="number"
+                value={config.ballCount}
+                onChange={e => onConfigChange("ballCount", Number(e.target.value))}
+                {...configRange("ballCount")}
+              />
+            )}
+          </ConfigRow>
+        )}
         <ConfigRow label="Size">
           <RangeSlider
             className="flex-1"
             value={config.ballRadius}
             onValueChange={v => onConfigChange("ballRadius", v)}
-            min={4}
-            max={20}
+            {...configRange("ballRadius")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.ballRadius}
             onChange={e => onConfigChange("ballRadius", Number(e.target.value))}
-            min={4}
-            max={20}
+            {...configRange("ballRadius")}
           />
         </ConfigRow>
         <ConfigRow label="Bounciness">
@@ -145,18 +590,14 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.ballRestitution}
             onValueChange={v => onConfigChange("ballRestitution", v)}
-            min={0}
-            max={1}
-            step={0.05}
+            {...configRange("ballRestitution")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.ballRestitution}
             onChange={e => onConfigChange("ballRestitution", Number(e.target.value))}
-            min={0}
-            max={1}
-            step={0.05}
+            {...configRange("ballRestitution")}
           />
         </ConfigRow>
         <ConfigRow label="Friction">
@@ -164,18 +605,14 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.ballFriction}
             onValueChange={v => onConfigChange("ballFriction", v)}
-            min={0}
-            max={1}
-            step={0.01}
+            {...configRange("ballFriction")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.ballFriction}
             onChange={e => onConfigChange("ballFriction", Number(e.target.value))}
-            min={0}
-            max={1}
-            step={0.01}
+            {...configRange("ballFriction")}
           />
         </ConfigRow>
         <ConfigRow label="Shape">
@@ -189,53 +626,49 @@ export function PlinkoConfigPanel({
             <option value="triangle">Triangle</option>
           </Select>
         </ConfigRow>
-        <ConfigRow label="Drop From">
-          <Select
-            className="flex-1 h-8 text-xs"
-            value={config.dropLocation}
-            onChange={e => onConfigChange("dropLocation", e.target.value as PlinkoConfig["dropLocation"])}
-          >
-            <option value="random">Random</option>
-            <option value="zigzag">Zig-Zag</option>
-            <option value="center">Center</option>
-          </Select>
-        </ConfigRow>
-        <ConfigRow label="Drop Delay (ms)">
-          <RangeSlider
-            className="flex-1"
-            value={config.dropDelay}
-            onValueChange={v => onConfigChange("dropDelay", v)}
-            min={50}
-            max={2000}
-            step={50}
-          />
-          <Input
-            className="w-20 h-8 text-xs"
-            type="number"
-            value={config.dropDelay}
-            onChange={e => onConfigChange("dropDelay", Number(e.target.value))}
-            min={50}
-            max={2000}
-            step={50}
-          />
-        </ConfigRow>
+        {config.dropMode === "auto" && (
+          <>
+            <ConfigRow label="Drop From">
+              <Select
+                className="flex-1 h-8 text-xs"
+                value={config.dropLocation}
+                onChange={e => onConfigChange("dropLocation", e.target.value as PlinkoConfig["dropLocation"])}
+              >
+                <option value="random">Random</option>
+                <option value="zigzag">Zig-Zag</option>
+                <option value="center">Center</option>
+              </Select>
+            </ConfigRow>
+            <ConfigRow label="Drop Delay (ms)">
+              <RangeSlider
+                className="flex-1"
+                value={config.dropDelay}
+                onValueChange={v => onConfigChange("dropDelay", v)}
+                {...configRange("dropDelay")}
+              />
+              <Input
+                className="w-20 h-8 text-xs"
+                type="number"
+                value={config.dropDelay}
+                onChange={e => onConfigChange("dropDelay", Number(e.target.value))}
+                {...configRange("dropDelay")}
+              />
+            </ConfigRow>
+          </>
+        )}
         <ConfigRow label="Drop Velocity">
           <RangeSlider
             className="flex-1"
             value={config.dropVelocity}
             onValueChange={v => onConfigChange("dropVelocity", v)}
-            min={0}
-            max={20}
-            step={0.5}
+            {...configRange("dropVelocity")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.dropVelocity}
             onChange={e => onConfigChange("dropVelocity", Number(e.target.value))}
-            min={0}
-            max={20}
-            step={0.5}
+            {...configRange("dropVelocity")}
           />
         </ConfigRow>
         <ConfigRow label="Angle Randomness (°)">
@@ -243,32 +676,39 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.dropAngleRandomness}
             onValueChange={v => onConfigChange("dropAngleRandomness", v)}
-            min={0}
-            max={90}
-            step={5}
+            {...configRange("dropAngleRandomness")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.dropAngleRandomness}
             onChange={e => onConfigChange("dropAngleRandomness", Number(e.target.value))}
-            min={0}
-            max={90}
-            step={5}
+            {...configRange("dropAngleRandomness")}
           />
         </ConfigRow>
       </CollapsibleSection>
 
       {/* Pins Section */}
       <CollapsibleSection title="Pins" defaultOpen={false}>
+        <ConfigRow label="Layout">
+          <span className="flex-1 text-xs">
+            {config.pinLayout === "custom" ? "Custom" : "Grid"}
+            {config.obstacles.some(o => o.type !== "pin") && " + obstacles"}
+          </span>
+          {onEditBoard != null && (
+            <Button size="sm" variant="outline" onClick={onEditBoard}>
+              Edit board
+            </Button>
+          )}
+        </ConfigRow>
         <ConfigRow label="Rows">
           <Input
             className="w-20 h-8 text-xs"
             type="number"
             value={config.pinRows}
             onChange={e => onConfigChange("pinRows", Number(e.target.value))}
-            min={1}
-            max={20}
+            disabled={config.pinLayout === "custom"}
+            {...configRange("pinRows")}
           />
         </ConfigRow>
         <ConfigRow label="Columns">
@@ -277,8 +717,8 @@ export function PlinkoConfigPanel({
             type="number"
             value={config.pinColumns}
             onChange={e => onConfigChange("pinColumns", Number(e.target.value))}
-            min={1}
-            max={20}
+            disabled={config.pinLayout === "custom"}
+            {...configRange("pinColumns")}
           />
         </ConfigRow>
         <ConfigRow label="Size">
@@ -286,16 +726,14 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.pinRadius}
             onValueChange={v => onConfigChange("pinRadius", v)}
-            min={2}
-            max={20}
+            {...configRange("pinRadius")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.pinRadius}
             onChange={e => onConfigChange("pinRadius", Number(e.target.value))}
-            min={2}
-            max={20}
+            {...configRange("pinRadius")}
           />
         </ConfigRow>
         <ConfigRow label="Shape">
@@ -314,18 +752,14 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.pinRestitution}
             onValueChange={v => onConfigChange("pinRestitution", v)}
-            min={0}
-            max={1}
-            step={0.05}
+            {...configRange("pinRestitution")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.pinRestitution}
             onChange={e => onConfigChange("pinRestitution", Number(e.target.value))}
-            min={0}
-            max={1}
-            step={0.05}
+            {...configRange("pinRestitution")}
           />
         </ConfigRow>
         <ConfigRow label="Friction">
@@ -333,18 +767,14 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.pinFriction}
             onValueChange={v => onConfigChange("pinFriction", v)}
-            min={0}
-            max={1}
-            step={0.01}
+            {...configRange("pinFriction")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.pinFriction}
             onChange={e => onConfigChange("pinFriction", Number(e.target.value))}
-            min={0}
-            max={1}
-            step={0.01}
+            {...configRange("pinFriction")}
           />
         </ConfigRow>
       </CollapsibleSection>
@@ -356,16 +786,14 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.width}
             onValueChange={v => onConfigChange("width", v)}
-            min={300}
-            max={1000}
+            {...configRange("width")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.width}
             onChange={e => onConfigChange("width", Number(e.target.value))}
-            min={300}
-            max={1000}
+            {...configRange("width")}
           />
         </ConfigRow>
         <ConfigRow label="Height">
@@ -373,16 +801,14 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.height}
             onValueChange={v => onConfigChange("height", v)}
-            min={300}
-            max={800}
+            {...configRange("height")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.height}
             onChange={e => onConfigChange("height", Number(e.target.value))}
-            min={300}
-            max={800}
+            {...configRange("height")}
           />
         </ConfigRow>
         <ConfigRow label="Ceiling Gap">
@@ -390,16 +816,14 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.ceilingGap}
             onValueChange={v => onConfigChange("ceilingGap", v)}
-            min={20}
-            max={200}
+            {...configRange("ceilingGap")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.ceilingGap}
             onChange={e => onConfigChange("ceilingGap", Number(e.target.value))}
-            min={20}
-            max={200}
+            {...configRange("ceilingGap")}
           />
         </ConfigRow>
         <ConfigRow label="Wall Gap">
@@ -407,16 +831,14 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.pinWallGap}
             onValueChange={v => onConfigChange("pinWallGap", v)}
-            min={10}
-            max={100}
+            {...configRange("pinWallGap")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.pinWallGap}
             onChange={e => onConfigChange("pinWallGap", Number(e.target.value))}
-            min={10}
-            max={100}
+            {...configRange("pinWallGap")}
           />
         </ConfigRow>
         <ConfigRow label="Rim Gap">
@@ -424,20 +846,23 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.pinRimGap}
             onValueChange={v => onConfigChange("pinRimGap", v)}
-            min={10}
-            max={150}
+            {...configRange("pinRimGap")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.pinRimGap}
             onChange={e => onConfigChange("pinRimGap", Number(e.target.value))}
-            min={10}
-            max={150}
+            {...configRange("pinRimGap")}
           />
         </ConfigRow>
       </CollapsibleSection>
 
+      {/* Colors Section */}
+      <CollapsibleSection title="Colors" defaultOpen={false}>
+        <ThemeEditor config={config} onConfigChange={onConfigChange} isDark={isDark} />
+      </CollapsibleSection>
+
       {/* Buckets Section */}
       <CollapsibleSection title="Buckets" defaultOpen={false}>
         <ConfigRow label="Count">
@@ -458,23 +883,49 @@ export function PlinkoConfigPanel({
             <option value="even">Even</option>
             <option value="middle">Middle-Weighted</option>
             <option value="edge">Edge-Weighted</option>
+            <option value="weighted">Player Weights</option>
           </Select>
         </ConfigRow>
+        {config.bucketDistribution === "weighted" && (
+          <p className="text-xs text-muted-foreground">
+            Bucket widths follow each player&apos;s weight (set in Manage Players).
+          </p>
+        )}
+        <ConfigRow label="Anti-Streak">
+          <input
+            type="checkbox"
+            checked={config.antiStreak}
+            onChange={e => onConfigChange("antiStreak", e.target.checked)}
+            className="w-4 h-4 rounded border-border"
+          />
+          <span className="text-xs text-muted-foreground">Narrow recent winners&apos; buckets</span>
+        </ConfigRow>
+        {config.antiStreak && (
+          <ConfigRow label="Look Back">
+            <RangeSlider
+              className="flex-1"
+              value={config.antiStreakWindow}
+              onValueChange={v => onConfigChange("antiStreakWindow", v)}
+              {...configRange("antiStreakWindow")}
+            />
+            <span className="w-16 text-xs text-muted-foreground tabular-nums">
+              {config.antiStreakWindow} {config.antiStreakWindow === 1 ? "round" : "rounds"}
+            </span>
+          </ConfigRow>
+        )}
         <ConfigRow label="Rim Height">
           <RangeSlider
             className="flex-1"
             value={config.rimHeight}
             onValueChange={v => onConfigChange("rimHeight", v)}
-            min={30}
-            max={200}
+            {...configRange("rimHeight")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.rimHeight}
             onChange={e => onConfigChange("rimHeight", Number(e.target.value))}
-            min={30}
-            max={200}
+            {...configRange("rimHeight")}
           />
         </ConfigRow>
         <ConfigRow label="Rim Width">
@@ -482,16 +933,14 @@ export function PlinkoConfigPanel({
             className="flex-1"
             value={config.rimWidth}
             onValueChange={v => onConfigChange("rimWidth", v)}
-            min={2}
-            max={20}
+            {...configRange("rimWidth")}
           />
           <Input
             className="w-16 h-8 text-xs"
             type="number"
             value={config.rimWidth}
             onChange={e => onConfigChange("rimWidth", Number(e.target.value))}
-            min={2}
-            max={20}
+            {...configRange("rimWidth")}
           />
         </ConfigRow>
         <ConfigRow label="Destroy Balls">
@@ -505,18 +954,40 @@ export function PlinkoConfigPanel({
         </ConfigRow>
       </CollapsibleSection>
 
+      {/* Special Buckets Section */}
+      <CollapsibleSection title="Special Buckets" defaultOpen={false}>
+        <BucketModifierList config={config} onConfigChange={onConfigChange} />
+      </CollapsibleSection>
+
       {/* Win Condition Section */}
       <CollapsibleSection title="Win Condition" defaultOpen={false}>
+        <ConfigRow label="Format">
+          <Select
+            className="flex-1 h-8 text-xs"
+            value={config.gameMode}
+            onChange={e => onConfigChange("gameMode", e.target.value as PlinkoConfig["gameMode"])}
+          >
+            <option value="single">Single round</option>
+            <option value="tournament">Elimination tournament</option>
+          </Select>
+        </ConfigRow>
+        {config.gameMode === "tournament" && (
+          <p className="text-xs text-muted-foreground">
+            Each round knocks out the bucket with the fewest balls until one player remains.
+          </p>
+        )}
         <ConfigRow label="Mode">
           <Select
             className="flex-1 h-8 text-xs"
             value={config.winCondition}
             onChange={e => onConfigChange("winCondition", e.target.value as PlinkoConfig["winCondition"])}
+            disabled={config.gameMode === "tournament"}
           >
             <option value="most">Most balls</option>
             <option value="nth">Nth ball</option>
             <option value="first">First ball</option>
             <option value="last-empty">Last empty</option>
+            <option value="ranking">Speaking order</option>
           </Select>
         </ConfigRow>
         {config.winCondition === "nth" && (
@@ -526,10 +997,85 @@ export function PlinkoConfigPanel({
               type="number"
               value={config.winNth}
               onChange={e => onConfigChange("winNth", Number(e.target.value))}
-              min={1}
+              {...configRange("winNth")}
             />
           </ConfigRow>
         )}
+        {config.winCondition === "ranking" && (
+          <p className="text-xs text-muted-foreground">
+            Ranks everyone by balls caught. Tiebreaker rounds only reorder players who were tied.
+          </p>
+        )}
+      </CollapsibleSection>
+
+      {/* Standup Section */}
+      <CollapsibleSection title="Standup" defaultOpen={false}>
+        <ConfigRow label="Order">
+          <Select
+            className="flex-1 h-8 text-xs"
+            value={config.speakerOrder}
+            onChange={e => onConfigChange("speakerOrder", e.target.value as PlinkoConfig["speakerOrder"])}
+          >
+            <option value="ranking">Most balls first</option>
+            <option value="buckets">Bucket order</option>
+            <option value="random">Random</option>
+          </Select>
+        </ConfigRow>
+        <p className="text-xs text-muted-foreground">
+          The winner always speaks first.
+        </p>
+        <ConfigRow label="Time (s)">
+          <RangeSlider
+            className="flex-1"
+            value={config.speakerSeconds}
+            onValueChange={v => onConfigChange("speakerSeconds", v)}
+            {...configRange("speakerSeconds")}
+          />
+          <Input
+            className="w-16 h-8 text-xs"
+            type="number"
+            value={config.speakerSeconds}
+            onChange={e => onConfigChange("speakerSeconds", Number(e.target.value))}
+            {...configRange("speakerSeconds")}
+          />
+        </ConfigRow>
+        <ConfigRow label="Warning (s)">
+          <RangeSlider
+            className="flex-1"
+            value={config.speakerWarningSeconds}
+            onValueChange={v => onConfigChange("speakerWarningSeconds", v)}
+            {...configRange("speakerWarningSeconds")}
+          />
+          <Input
+            className="w-16 h-8 text-xs"
+            type="number"
+            value={config.speakerWarningSeconds}
+            onChange={e => onConfigChange("speakerWarningSeconds", Number(e.target.value))}
+            {...configRange("speakerWarningSeconds")}
+          />
+        </ConfigRow>
+      </CollapsibleSection>
+
+      {/* Randomness Section */}
+      <CollapsibleSection title="Randomness" defaultOpen={false}>
+        <ConfigRow label="Seed">
+          <Input
+            className="w-32 h-8 text-xs font-mono"
+            type="number"
+            value={config.seed}
+            onChange={e => onConfigChange("seed", normalizeSeed(Number(e.target.value)))}
+            min={0}
+          />
+          <span className="text-xs text-muted-foreground">0 = random</span>
+        </ConfigRow>
+        <p className="text-xs text-muted-foreground">
+          The same seed, settings and roster always replay the same round.
+        </p>
+      </CollapsibleSection>
+
+      {/* Fairness Section */}
+      <CollapsibleSection title="Fairness" defaultOpen={false}>
+        <FairnessReportView config={boardConfig} bucketWeights={bucketWeights} />
       </CollapsibleSection>
     </div>
   )
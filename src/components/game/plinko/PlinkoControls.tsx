@@ -3,6 +3,7 @@
 import * as React from "react"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
+import type { ThemePreference } from "./utils/theme"
 
 export interface PlinkoControlsProps {
   isRunning: boolean
@@ -12,9 +13,23 @@ export interface PlinkoControlsProps {
   showConfig: boolean
   isMuted?: boolean
   onMuteToggle?: () => void
+  isLive?: boolean
+  onLiveToggle?: () => void
+  themePreference?: ThemePreference
+  onThemeToggle?: () => void
+  showStats?: boolean
+  onStatsToggle?: () => void
+  /** Open the last round's replay; the button is hidden without one */
+  onReplay?: () => void
   className?: string
 }
 
+const themeToggleTitles: Record<ThemePreference, string> = {
+  system: "Theme: system (switch to light)",
+  light: "Theme: light (switch to dark)",
+  dark: "Theme: dark (follow system)",
+}
+
 /**
  * PlinkoControls - Game control bar with start/stop, config, and sound controls
  */
@@ -26,6 +41,13 @@ export function PlinkoControls({
   showConfig,
   isMuted = false,
   onMuteToggle,
+  isLive = false,
+  onLiveToggle,
+  themePreference = "system",
+  onThemeToggle,
+  showStats = false,
+  onStatsToggle,
+  onReplay,
   className,
 }: PlinkoControlsProps) {
   return (
@@ -96,6 +118,76 @@ export function PlinkoControls({
           )}
         </Button>
       )}
+
+      {/* Theme Toggle - cycles system, light and dark */}
+      {onThemeToggle != null && (
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={onThemeToggle}
+          className="w-10 h-10"
+          title={themeToggleTitles[themePreference]}
+        >
+          {themePreference === "system" ? (
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+            </svg>
+          ) : themePreference === "light" ? (
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 3v1m0 16v1m9-9h-1M4 12H3m15.364 6.364l-.707-.707M6.343 6.343l-.707-.707m12.728 0l-.707.707M6.343 17.657l-.707.707M16 12a4 4 0 11-8 0 4 4 0 018 0z" />
+            </svg>
+          ) : (
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20.354 15.354A9 9 0 018.646 3.646 9.003 9.003 0 0012 21a9.003 9.003 0 008.354-5.646z" />
+            </svg>
+          )}
+        </Button>
+      )}
+
+      {/* Replay of the last round */}
+      {onReplay != null && (
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={onReplay}
+          className="w-10 h-10"
+          title="Replay the last round"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+        </Button>
+      )}
+
+      {/* Performance Overlay Toggle */}
+      {onStatsToggle != null && (
+        <Button
+          variant={showStats ? "secondary" : "outline"}
+          size="icon"
+          onClick={onStatsToggle}
+          className="w-10 h-10"
+          title={showStats ? "Hide frame rate" : "Show frame rate and physics steps"}
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+          </svg>
+        </Button>
+      )}
+
+      {/* Live Session Toggle */}
+      {onLiveToggle != null && (
+        <Button
+          variant={isLive ? "secondary" : "outline"}
+          size="icon"
+          onClick={onLiveToggle}
+          className={cn("w-10 h-10", isLive && "text-destructive")}
+          title={isLive ? "Stop sharing live" : "Share live with spectators"}
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.636 18.364a9 9 0 010-12.728m12.728 0a9 9 0 010 12.728m-9.9-2.829a5 5 0 010-7.07m7.072 0a5 5 0 010 7.07M13 12a1 1 0 11-2 0 1 1 0 012 0z" />
+          </svg>
+        </Button>
+      )}
     </div>
   )
 }
@@ -1,78 +1,130 @@
 "use client"
 
 import * as React from "react"
-import { useRef, useCallback, useEffect, useState } from "react"
+import { useRef, useEffect, useMemo, useState } from "react"
 import Image from "next/image"
 import { cn } from "@/lib/utils"
-import { usePlinkoPhysics } from "./hooks/usePlinkoPhysics"
-import { usePlinkoRender } from "./hooks/usePlinkoRender"
+import { usePlinkoBoard } from "./hooks/usePlinkoBoard"
+import { useBoardEditor } from "./hooks/useBoardEditor"
+import { usePlayerDrops } from "./hooks/usePlayerDrops"
+import { bucketBounds } from "./simulation"
+import type { BoardSetup, BoardThread } from "./board"
+import type { BoardPlayback } from "./hooks/usePlinkoBoard"
 import { useGameSounds } from "./hooks/useGameSounds"
-import { createParticleEmitter, particlePresets, type ParticleEmitter } from "./utils/particles"
-import type { PlinkoConfig, PlayerProfile } from "./types"
+import type { PlayerDrop, PlinkoConfig, PlayerProfile, PlinkoRoundResult, RenderTheme } from "./types"
+import type { BoardEditorTool, BoardLayout } from "./utils/boardEditor"
 import { getAvatarUrl } from "../shared/PlayerSidebar"
+import { playerColor } from "./utils/players"
+import { lightTheme } from "./utils/theme"
 
 export interface PlinkoGameProps {
   config: PlinkoConfig
   bucketAssignments: string[]
   players: PlayerProfile[]
   isRunning: boolean
-  onGameEnd?: (winningBuckets: number[]) => void
+  seed: number
+  bucketWeights?: number[]
+  /** Simulation steps to skip on mount (spectators joining mid-round) */
+  initialStep?: number
+  /** `steps` is how many simulation steps the round took (for replays) */
+  onGameEnd?: (winningBuckets: number[], result: PlinkoRoundResult, steps: number) => void
   onBallSettle?: (bucketIndex: number) => void
   onTiebreaker?: (roundNumber: number) => void
   winningBuckets?: number[]
   className?: string
   soundEnabled?: boolean
+  /** Board colors (see useTheme); can change mid-round without resetting the board */
+  theme?: RenderTheme
+  /** Board editor tool; clicks on the board edit obstacles while set */
+  editorTool?: BoardEditorTool | null
+  selectedObstacleId?: string | null
+  onSelectObstacle?: (id: string | null) => void
+  onLayoutChange?: (layout: BoardLayout) => void
+  /** A player aimed and dropped a ball ("players" drop mode) */
+  onPlayerDrop?: (drop: PlayerDrop) => void
+  /** Drops made elsewhere to replay, e.g. the host's in a live session */
+  playerDrops?: PlayerDrop[]
+  /** Run physics and drawing in a worker (OffscreenCanvas) or on the page */
+  renderThread?: BoardThread
+  /** Overlay frame rate and physics steps on the board */
+  showStats?: boolean
+  /** Replays: speed/pause, jumping to a step, the current step and a winner banner on the board */
+  playback?: BoardPlayback | null
+  seekTo?: { step: number } | null
+  onProgress?: (step: number) => void
+  banner?: string | null
+  /** Whether players can aim and drop on the board (off for replays) */
+  interactive?: boolean
+  /** Set to the board's canvas */
+  canvasRef?: React.RefObject<HTMLCanvasElement | null>
 }
 
+const noPlayerDrops: PlayerDrop[] = []
+
+const noWinningBuckets: number[] = []
+
+const noBucketWeights: number[] = []
+
 /**
- * PlinkoGame - Canvas-based Plinko game board with custom rendering
+ * PlinkoGame - Plinko board drawn by a worker (or main-thread) frame loop, with player avatars
  */
 export function PlinkoGame({
   config,
   bucketAssignments,
   players,
   isRunning,
+  seed,
+  bucketWeights = noBucketWeights,
+  initialStep = 0,
   onGameEnd,
   onBallSettle: onBallSettleProp,
   onTiebreaker,
-  winningBuckets = [],
+  winningBuckets = noWinningBuckets,
   className,
   soundEnabled = true,
+  theme = lightTheme,
+  editorTool = null,
+  selectedObstacleId = null,
+  onSelectObstacle,
+  onLayoutChange,
+  onPlayerDrop,
+  playerDrops = noPlayerDrops,
+  renderThread = "worker",
+  showStats = false,
+  playback = null,
+  seekTo = null,
+  onProgress,
+  banner = null,
+  interactive = true,
+  canvasRef,
 }: PlinkoGameProps) {
-  const canvasRef = useRef<HTMLCanvasElement>(null)
-  const particleEmitterRef = useRef<ParticleEmitter>(createParticleEmitter())
+  const boardRef = useRef<HTMLDivElement>(null)
   const [boardKey, setBoardKey] = useState(0)
+  const [turnOwnerId, setTurnOwnerId] = useState<string | null>(null)
+  const initialStepRef = useRef(initialStep)
+  const playerDropsRef = useRef(playerDrops)
+  const queuedDropCountRef = useRef(0)
   
-  // Game state refs
-  const droppedRef = useRef(0)
-  const settledCountRef = useRef(0)
-  const bucketCountsRef = useRef<number[]>([])
-  const firstBallBucketRef = useRef<number | null>(null)
-  const gameEndedRef = useRef(false)
-  const zigRef = useRef({ x: config.width / 2, dir: 1 })
-  const liveCountsPrevRef = useRef<number[]>([])
-
   // Sound effects
   const { playCollision, playBucket, playWin, playTiebreaker } = useGameSounds({
     enabled: soundEnabled,
   })
 
-  // Store callbacks and props in refs to avoid stale closures
-  const onGameEndRef = useRef(onGameEnd)
-  const onTiebreakerRef = useRef(onTiebreaker)
-  const playWinRef = useRef(playWin)
-  const playTiebreakerRef = useRef(playTiebreaker)
-  const stopRunnerRef = useRef<(() => void) | null>(null)
+  // Store props in refs so board events and resets read the latest values
   const bucketAssignmentsRef = useRef(bucketAssignments)
   const playersRef = useRef(players)
+  const setupRef = useRef<Omit<BoardSetup, "playerDrops" | "initialStep">>({
+    config,
+    seed,
+    bucketWeights,
+    bucketOwners: bucketAssignments,
+    isDropping: isRunning,
+  })
   useEffect(() => {
-    onGameEndRef.current = onGameEnd
-    onTiebreakerRef.current = onTiebreaker
-    playWinRef.current = playWin
-    playTiebreakerRef.current = playTiebreaker
     bucketAssignmentsRef.current = bucketAssignments
     playersRef.current = players
-  }, [onGameEnd, onTiebreaker, playWin, playTiebreaker, bucketAssignments, players])
+    setupRef.current = { config, seed, bucketWeights, bucketOwners: bucketAssignments, isDropping: isRunning }
+  }, [bucketAssignments, players, config, seed, bucketWeights, isRunning])
   
   // Helper to get winner name from bucket index
   const getWinnerName = (bucketIndex: number): string | undefined => {
@@ -82,274 +134,99 @@ export function PlinkoGame({
     return player?.name
   }
 
-  // Track tiebreaker rounds
-  const tiebreakerRoundRef = useRef(0)
-  
-  // Check win condition
-  const checkWinCondition = useCallback(() => {
-    if (gameEndedRef.current) return
-    
-    const counts = bucketCountsRef.current
-    const totalSettled = settledCountRef.current
-    const totalDropped = droppedRef.current
-    const expectedBalls = config.ballCount
-    
-    // For "nth" condition, check during play (first bucket to reach N balls wins)
-    // No tiebreaker needed - first to reach N wins
-    if (config.winCondition === "nth") {
-      for (let i = 0; i < counts.length; i++) {
-        if (counts[i] >= config.winNth && (liveCountsPrevRef.current[i] || 0) < config.winNth) {
-          gameEndedRef.current = true
-          stopRunnerRef.current?.() // Freeze physics - balls stay in place
-          playWinRef.current(getWinnerName(i))
-          onGameEndRef.current?.([i])
-          return
-        }
-      }
-      liveCountsPrevRef.current = [...counts]
-      return
-    }
-    
-    // For other conditions, wait until all balls have been dropped AND settled
-    // Skip if ballCount is 0 (unlimited mode)
-    if (expectedBalls === 0) return
-    if (totalDropped < expectedBalls) return
-    if (totalSettled < expectedBalls) return
-    
-    let winnerBuckets: number[] = []
-    
-    switch (config.winCondition) {
-      case "first":
-        // "first" condition has no ties - single winner
-        if (firstBallBucketRef.current !== null) {
-          winnerBuckets = [firstBallBucketRef.current]
-        }
-        break
-      case "last-empty": {
-        const emptyBuckets = counts
-          .map((count, idx) => count === 0 ? idx : -1)
-          .filter(idx => idx >= 0)
-        if (emptyBuckets.length > 0) {
-          winnerBuckets = emptyBuckets
-        } else {
-          const minCount = Math.min(...counts.filter(c => c > 0))
-          winnerBuckets = counts
-            .map((count, idx) => count === minCount ? idx : -1)
-            .filter(idx => idx >= 0)
-        }
-        break
-      }
-      case "most":
-      default: {
-        const maxCount = Math.max(...counts)
-        if (maxCount > 0) {
-          winnerBuckets = counts
-            .map((count, idx) => count === maxCount ? idx : -1)
-            .filter(idx => idx >= 0)
-        }
-        break
-      }
-    }
-    
-    // Check for ties - if multiple winners, start tiebreaker round
-    if (winnerBuckets.length > 1) {
-      // Tiebreaker: reset drop counters but KEEP bucket counts (they accumulate)
-      // This allows another round of balls to be dropped
-      tiebreakerRoundRef.current += 1
-      droppedRef.current = 0
-      settledCountRef.current = 0
-      console.log(`Tiebreaker round ${tiebreakerRoundRef.current} - tied buckets:`, winnerBuckets)
-      // Play tiebreaker sound and notify parent
-      playTiebreakerRef.current?.()
-      onTiebreakerRef.current?.(tiebreakerRoundRef.current)
-      // Game continues - don't end, don't assign wins
-      return
-    }
-    
-    // Single winner - game ends, freeze physics but keep rendering
-    if (winnerBuckets.length === 1) {
-      gameEndedRef.current = true
-      stopRunnerRef.current?.() // Freeze physics - balls stay in place
-      playWinRef.current(getWinnerName(winnerBuckets[0]))
-      onGameEndRef.current?.(winnerBuckets)
-    }
-  }, [config.ballCount, config.winCondition, config.winNth])
+  // Round ended - the board has already frozen physics (balls stay in place)
+  const handleGameEnd = (winningBuckets: number[], result: PlinkoRoundResult, steps: number) => {
+    playWin(getWinnerName(winningBuckets[0]))
+    onGameEnd?.(winningBuckets, result, steps)
+  }
 
-  // Store checkWinCondition in ref for use in callbacks
-  const checkWinConditionRef = useRef(checkWinCondition)
-  useEffect(() => {
-    checkWinConditionRef.current = checkWinCondition
-  }, [checkWinCondition])
+  // Tie - the board keeps bucket counts and drops another round of balls
+  const handleTiebreaker = (roundNumber: number, tiedBuckets: number[]) => {
+    console.log(`Tiebreaker round ${roundNumber} - tied buckets:`, tiedBuckets)
+    // Play tiebreaker sound and notify parent
+    playTiebreaker()
+    onTiebreaker?.(roundNumber)
+  }
 
-  // Physics collision handler
-  const handleCollision = useCallback((velocity: number, position: { x: number; y: number }) => {
-    playCollision(velocity)
-    // Add small particle burst on collision for significant impacts
-    if (velocity > 3) {
-      particleEmitterRef.current.addBurst(position.x, position.y, 3, {
-        ...particlePresets.collision,
-        minSpeed: velocity * 0.3,
-        maxSpeed: velocity * 0.6,
-      })
-    }
-  }, [playCollision])
+  // Bucket edges - shared by the board and the avatar row
+  const bounds = useMemo(
+    () => bucketBounds(config.bucketCount, config.width, config.bucketDistribution, bucketWeights),
+    [config.bucketCount, config.width, config.bucketDistribution, bucketWeights]
+  )
+  const bucketWeightsKey = bucketWeights.join(",")
 
-  // Physics ball settle handler
-  const handleBallSettle = useCallback((bucketIndex: number) => {
-    // Increment counters
-    bucketCountsRef.current[bucketIndex] = (bucketCountsRef.current[bucketIndex] || 0) + 1
-    settledCountRef.current += 1
-    
-    // Track first ball for "first" win condition
-    if (firstBallBucketRef.current === null) {
-      firstBallBucketRef.current = bucketIndex
-    }
-    
-    // Play bucket sound
-    playBucket()
-    
-    // Add particle effect at bucket
-    const bounds = bucketBoundsRef.current
-    if (bounds && bounds.length > bucketIndex + 1) {
-      const bucketX = (bounds[bucketIndex] + bounds[bucketIndex + 1]) / 2
-      particleEmitterRef.current.addBurst(bucketX, config.height - 30, 8, particlePresets.bucket)
-    }
-    
-    // Notify parent
-    onBallSettleProp?.(bucketIndex)
-    
-    // Check win conditions
-    checkWinConditionRef.current()
-  }, [playBucket, onBallSettleProp, config.height])
+  // Physics and drawing run in one frame loop (in a worker where supported);
+  // only events come back here
+  const board = usePlinkoBoard({
+    containerRef: boardRef,
+    thread: renderThread,
+    config,
+    isDropping: isRunning,
+    bucketOwners: bucketAssignments,
+    view: { theme, winningBuckets, selectedObstacleId, showStats, banner },
+    playback,
+    seekTo,
+    canvasRef,
+    onBallSettle: bucketIndex => {
+      playBucket()
+      onBallSettleProp?.(bucketIndex)
+    },
+    onCollision: playCollision,
+    onTiebreaker: handleTiebreaker,
+    onGameEnd: handleGameEnd,
+    onTurnChange: setTurnOwnerId,
+    onPlayerDrop,
+    onProgress,
+  })
+  const { reset: resetBoard, queuePlayerDrops } = board
 
-  // Initialize physics
-  const {
-    engineRef,
-    ballsRef,
-    pinsRef,
-    bucketBoundsRef,
-    initializeBoard,
-    dropBall,
-    startRunner,
-    stopRunner,
-    cleanup,
-  } = usePlinkoPhysics({
+  // Aiming and turns when players drop their own balls
+  const isPlayerDropMode = config.dropMode === "players"
+  const canAim = interactive && isPlayerDropMode && isRunning
+  const playerAim = usePlayerDrops({
     config,
-    onBallSettle: handleBallSettle,
-    onCollision: handleCollision,
+    turnOwnerId: canAim && editorTool == null ? turnOwnerId : null,
+    onAim: board.setAim,
+    onDrop: board.aimPlayerDrop,
   })
-  
-  // Store physics functions in refs to avoid triggering re-initialization
-  const initializeBoardRef = useRef(initializeBoard)
-  const startRunnerRef = useRef(startRunner)
-  const cleanupRef = useRef(cleanup)
-  initializeBoardRef.current = initializeBoard
-  startRunnerRef.current = startRunner
-  cleanupRef.current = cleanup
-  
-  // Update stopRunner ref so checkWinCondition can access it
-  stopRunnerRef.current = stopRunner
 
-  // Custom renderer
-  const { startRender, stopRender } = usePlinkoRender({
-    canvasRef,
-    engineRef,
-    ballsRef,
-    pinsRef,
-    bucketBoundsRef,
-    bucketCountsRef,
+  const editor = useBoardEditor({
     config,
-    winningBuckets,
-    isDark: false,
+    tool: editorTool,
+    onSelectObstacle,
+    onLayoutChange,
+    onMoveObstacle: board.moveObstacle,
   })
-  
-  // Store render functions in refs to avoid triggering re-initialization
-  const startRenderRef = useRef(startRender)
-  const stopRenderRef = useRef(stopRender)
-  startRenderRef.current = startRender
-  stopRenderRef.current = stopRender
 
-  // Ball dropping interval
+  // The board takes clicks for the board editor, or for aiming in the players drop mode
+  const pointerHandlers = editorTool != null
+    ? editor
+    : canAim ? playerAim : null
+  const turnPlayer = canAim
+    ? players.find(p => p.id === turnOwnerId)
+    : undefined
+
   useEffect(() => {
-    if (!isRunning) return
-    
-    const interval = setInterval(() => {
-      // Skip dropping if game has ended
-      if (gameEndedRef.current) return
-      
-      // Skip dropping if we've reached the ball count for this round (0 = unlimited)
-      // Don't clear interval - tiebreaker may reset droppedRef to continue
-      if (config.ballCount > 0 && droppedRef.current >= config.ballCount) {
-        return
-      }
-      
-      let x = config.width / 2
-      if (config.dropLocation === "random") {
-        x = config.ballRadius + Math.random() * (config.width - config.ballRadius * 2)
-      } else if (config.dropLocation === "zigzag") {
-        x = zigRef.current.x
-        zigRef.current.x += (config.width / config.pinColumns) * zigRef.current.dir
-        if (zigRef.current.x < config.ballRadius || zigRef.current.x > config.width - config.ballRadius) {
-          zigRef.current.dir *= -1
-          zigRef.current.x = Math.max(config.ballRadius, Math.min(config.width - config.ballRadius, zigRef.current.x))
-        }
-      }
-      
-      dropBall(x)
-      droppedRef.current++
-    }, config.dropDelay)
-    
-    return () => clearInterval(interval)
-  }, [isRunning, config.ballCount, config.width, config.dropLocation, config.ballRadius, config.pinColumns, config.dropDelay, dropBall])
+    playerDropsRef.current = playerDrops
+  }, [playerDrops])
 
-  // Initialize board and start rendering - only when boardKey changes (intentional reset)
+  // Build a fresh seeded board - only when boardKey changes (intentional reset)
   useEffect(() => {
-    // Reset all game state FIRST
-    droppedRef.current = 0
-    settledCountRef.current = 0
-    bucketCountsRef.current = new Array(config.bucketCount).fill(0)
-    firstBallBucketRef.current = null
-    gameEndedRef.current = false
-    tiebreakerRoundRef.current = 0
-    liveCountsPrevRef.current = new Array(config.bucketCount).fill(0)
-    // Initialize zigzag at random position with random direction
-    const randomX = config.ballRadius + Math.random() * (config.width - config.ballRadius * 2)
-    const randomDir = Math.random() < 0.5 ? -1 : 1
-    zigRef.current = { x: randomX, dir: randomDir }
-    particleEmitterRef.current.clear()
-    
-    // THEN initialize the board and start (using refs to avoid dependency issues)
-    initializeBoardRef.current()
-    startRenderRef.current()
-    startRunnerRef.current()
-    
-    return () => {
-      stopRenderRef.current()
-      cleanupRef.current()
-    }
-  }, [boardKey, config.bucketCount, config.width])
+    // Drops made elsewhere are replayed before catching up, so they land on their step
+    resetBoard({
+      ...setupRef.current,
+      playerDrops: playerDropsRef.current,
+      initialStep: initialStepRef.current,
+    })
+    queuedDropCountRef.current = playerDropsRef.current.length
+    initialStepRef.current = 0
+  }, [boardKey, config.bucketCount, config.width, seed, bucketWeightsKey, resetBoard])
 
-  // Particle render loop (draws on top of main render)
+  // Queue drops that arrived since the board was built
   useEffect(() => {
-    let animFrame: number
-    
-    const updateParticles = () => {
-      particleEmitterRef.current.update()
-      
-      const canvas = canvasRef.current
-      if (canvas) {
-        const ctx = canvas.getContext("2d")
-        if (ctx) {
-          particleEmitterRef.current.draw(ctx)
-        }
-      }
-      
-      animFrame = requestAnimationFrame(updateParticles)
-    }
-    
-    animFrame = requestAnimationFrame(updateParticles)
-    return () => cancelAnimationFrame(animFrame)
-  }, [])
+    queuePlayerDrops(playerDrops.slice(queuedDropCountRef.current))
+    queuedDropCountRef.current = playerDrops.length
+  }, [playerDrops, queuePlayerDrops])
 
   // Reset board when config changes significantly
   useEffect(() => {
@@ -362,6 +239,8 @@ export function PlinkoGame({
     config.height,
     config.pinRadius,
     config.rimHeight,
+    config.pinLayout,
+    config.obstacles,
   ])
 
 
@@ -369,17 +248,27 @@ export function PlinkoGame({
     <div className={cn("flex flex-col gap-3", className)}>
       {/* Game Canvas */}
       <div className="relative">
-        <canvas
-          ref={canvasRef}
-          width={config.width}
-          height={config.height}
-          className="rounded-xl shadow-inner"
+        <div
+          ref={boardRef}
+          className={cn("rounded-xl shadow-inner", pointerHandlers != null && "touch-none")}
           style={{ 
             width: config.width, 
             height: config.height,
-            background: "linear-gradient(180deg, var(--game-surface) 0%, var(--muted) 100%)"
+            background: `linear-gradient(180deg, ${theme.background} 0%, ${theme.backgroundEnd} 100%)`,
+            cursor: editorTool != null ? editor.cursor : turnPlayer != null ? "crosshair" : undefined
           }}
+          onPointerDown={pointerHandlers?.onPointerDown}
+          onPointerMove={pointerHandlers?.onPointerMove}
+          onPointerUp={pointerHandlers?.onPointerUp}
+          onPointerCancel={pointerHandlers?.onPointerUp}
+          onPointerLeave={editorTool == null ? playerAim.onPointerLeave : undefined}
         />
+        {turnPlayer != null && (
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 flex items-center gap-2 px-3 py-1 rounded-full glass-panel text-xs font-medium pointer-events-none">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ background: playerColor(turnPlayer.id) }} />
+            {turnPlayer.name}&apos;s turn - aim and click to drop
+          </div>
+        )}
       </div>
 
       {/* Player avatars under buckets */}
@@ -390,14 +279,18 @@ export function PlinkoGame({
             if (!player) return null
             
             const isWinner = winningBuckets.includes(bucketIndex)
+            const bucketWidth = bounds.length > bucketIndex + 1
+              ? bounds[bucketIndex + 1] - bounds[bucketIndex]
+              : config.width / bucketAssignments.length
             
             return (
               <div
                 key={playerId}
                 className={cn(
-                  "flex flex-col items-center justify-center flex-1 py-2 rounded-lg transition-all duration-300",
+                  "flex flex-col items-center justify-center shrink-0 min-w-0 py-2 rounded-lg transition-all duration-300",
                   isWinner && "bg-game-success/20 glow-success"
                 )}
+                style={{ width: bucketWidth }}
               >
                 <div className="relative">
                   <Image
@@ -413,6 +306,13 @@ export function PlinkoGame({
                         : "ring-border/50"
                     )}
                   />
+                  {isPlayerDropMode && (
+                    <span
+                      className="absolute -bottom-0.5 -left-0.5 w-3.5 h-3.5 rounded-full ring-2 ring-background"
+                      style={{ background: playerColor(player.id) }}
+                      title="Ball color"
+                    />
+                  )}
                   {isWinner && (
                     <div className="absolute -top-1 -right-1 w-5 h-5 bg-game-success rounded-full flex items-center justify-center">
                       <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
@@ -2,17 +2,266 @@
 
 import * as React from "react"
 import Image from "next/image"
+import Link from "next/link"
 import { cn } from "@/lib/utils"
-import type { PlayerProfile } from "./types"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/Input"
+import { Select } from "@/components/ui/Select"
+import type { PlayerProfile, Season, TournamentState } from "./types"
+import type { PlayerAttendance } from "./utils/attendance"
+import { toLocalDate } from "./utils/dates"
+import { MAX_SEASON_NAME_LENGTH, closedSeasons, findOpenSeason, isSeasonDue, seasonWins } from "./utils/seasons"
 import { getAvatarUrl } from "../shared/PlayerSidebar"
 
 export interface PlinkoLeaderboardProps {
   players: PlayerProfile[]
   bucketAssignments: string[]
   roundWinnerBuckets?: number[]
+  roundSeed?: number
+  /** Standup speaking order, including those who have had their turn */
+  speakingQueue?: string[]
+  spokenIds?: string[]
+  onToggleSpoken?: (playerId: string) => void
+  /** Attendance and normalized wins by player id */
+  attendance?: Map<string, PlayerAttendance>
+  seasons?: Season[]
+  /** Wins over every season by player id, for the all-time view */
+  allTimeWins?: Map<string, number>
+  /** Resolve to false if the season couldn't be saved */
+  onStartSeason?: (name: string, startDate: string, endDate: string) => Promise<boolean>
+  onCloseSeason?: (seasonId: string) => Promise<boolean>
+  tournament?: TournamentState | null
   className?: string
 }
 
+// "current" = live wins, "all-time" = every season added up, otherwise a closed season's id
+type LeaderboardView = "current" | "all-time" | string
+
+const defaultSeasonDays = 90
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split("-").map(Number)
+  return toLocalDate(new Date(year, month - 1, day + days).getTime())
+}
+
+const formatDate = (date: string): string => {
+  const [year, month, day] = date.split("-").map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+}
+
+interface SeasonBarProps {
+  seasons: Season[]
+  view: LeaderboardView
+  onViewChange: (view: LeaderboardView) => void
+  onStartSeason?: PlinkoLeaderboardProps["onStartSeason"]
+  onCloseSeason?: PlinkoLeaderboardProps["onCloseSeason"]
+}
+
+/**
+ * Season picker plus starting and closing seasons
+ */
+function SeasonBar({ seasons, view, onViewChange, onStartSeason, onCloseSeason }: SeasonBarProps) {
+  const [today] = React.useState(() => toLocalDate(Date.now()))
+  const [draft, setDraft] = React.useState<{ name: string; startDate: string; endDate: string } | null>(null)
+  const [confirmingClose, setConfirmingClose] = React.useState(false)
+  const [busy, setBusy] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const openSeason = findOpenSeason(seasons)
+  const pastSeasons = closedSeasons(seasons)
+
+  const beginDraft = () => {
+    const start = toLocalDate(Date.now())
+    setDraft({ name: `Season ${seasons.length + 1}`, startDate: start, endDate: addDays(start, defaultSeasonDays) })
+    setError(null)
+  }
+
+  const handleStart = async () => {
+    if (draft == null || onStartSeason == null) return
+    const name = draft.name.trim()
+    if (name === "") {
+      setError("Give the season a name")
+      return
+    }
+    if (draft.endDate < draft.startDate) {
+      setError("The season has to end after it starts")
+      return
+    }
+    setBusy(true)
+    const saved = await onStartSeason(name, draft.startDate, draft.endDate)
+    setBusy(false)
+    if (saved) {
+      setDraft(null)
+      setError(null)
+    } else {
+      setError("Couldn't start the season")
+    }
+  }
+
+  const handleClose = async () => {
+    if (openSeason == null || onCloseSeason == null) return
+    setBusy(true)
+    const saved = await onCloseSeason(openSeason.id)
+    setBusy(false)
+    setConfirmingClose(false)
+    setError(saved ? null : "Couldn't close the season")
+    if (saved) onViewChange(openSeason.id)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Select
+          value={view}
+          onChange={e => {
+            onViewChange(e.target.value)
+            setConfirmingClose(false)
+          }}
+          className="h-8 flex-1 min-w-0 text-xs"
+          aria-label="Standings to show"
+        >
+          <option value="current">{openSeason?.name ?? "Current standings"}</option>
+          {pastSeasons.map(season => (
+            <option key={season.id} value={season.id}>{season.name}</option>
+          ))}
+          {pastSeasons.length > 0 && <option value="all-time">All time</option>}
+        </Select>
+        {view === "current" && openSeason == null && draft == null && onStartSeason != null && (
+          <Button variant="outline" size="sm" className="text-xs" onClick={beginDraft}>
+            Start a season
+          </Button>
+        )}
+        {view === "current" && openSeason != null && onCloseSeason != null && (
+          confirmingClose ? (
+            <>
+              <Button variant="destructive" size="sm" className="text-xs" onClick={handleClose} disabled={busy}>
+                Reset wins
+              </Button>
+              <Button variant="ghost" size="sm" className="text-xs" onClick={() => setConfirmingClose(false)} disabled={busy}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" size="sm" className="text-xs" onClick={() => setConfirmingClose(true)}>
+              Close season
+            </Button>
+          )
+        )}
+      </div>
+
+      {view === "current" && openSeason != null && (
+        <div className="text-[11px] text-muted-foreground">
+          {formatDate(openSeason.startDate)} – {formatDate(openSeason.endDate)}
+          {isSeasonDue(openSeason, today) && <span className="text-amber-600"> · ended, ready to close</span>}
+          {confirmingClose && <span> · final standings are saved and wins go back to 0</span>}
+        </div>
+      )}
+
+      {draft != null && (
+        <div className="space-y-2 p-2 rounded-lg bg-muted/40">
+          <Input
+            value={draft.name}
+            onChange={e => setDraft({ ...draft, name: e.target.value })}
+            maxLength={MAX_SEASON_NAME_LENGTH}
+            placeholder="Season name"
+            className="h-8 text-xs"
+            aria-label="Season name"
+          />
+          <div className="flex items-center gap-2 text-xs">
+            <Input
+              type="date"
+              value={draft.startDate}
+              onChange={e => setDraft({ ...draft, startDate: e.target.value })}
+              className="h-8 text-xs"
+              aria-label="Start date"
+            />
+            <span className="text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={draft.endDate}
+              onChange={e => setDraft({ ...draft, endDate: e.target.value })}
+              className="h-8 text-xs"
+              aria-label="End date"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="ghost" size="sm" className="text-xs" onClick={() => setDraft(null)} disabled={busy}>
+              Cancel
+            </Button>
+            <Button size="sm" className="text-xs" onClick={handleStart} disabled={busy}>
+              Start
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error != null && <p className="text-[11px] text-destructive">{error}</p>}
+    </div>
+  )
+}
+
+interface TournamentTimelineProps {
+  tournament: TournamentState
+  playersById: Map<string, PlayerProfile>
+}
+
+/**
+ * Bracket-style timeline: one node per elimination round, ending with the champion
+ */
+function TournamentTimeline({ tournament, playersById }: TournamentTimelineProps) {
+  const nameFor = (id: string): string => playersById.get(id)?.name ?? "Unknown"
+  const champion = tournament.championId != null ? playersById.get(tournament.championId) : undefined
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Tournament</h3>
+        <span className="text-xs text-muted-foreground">
+          {champion != null
+            ? `${tournament.entrantIds.length} players`
+            : `${tournament.survivorIds.length} of ${tournament.entrantIds.length} left`}
+        </span>
+      </div>
+      <ol className="relative ml-2 border-l border-border/60 space-y-2">
+        {tournament.eliminations.map(elimination => (
+          <li key={elimination.round} className="relative pl-4">
+            <span className="absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full bg-muted-foreground/40" />
+            <div className="text-[11px] text-muted-foreground">
+              Round {elimination.round} · {elimination.remaining + elimination.eliminatedIds.length} → {elimination.remaining}
+            </div>
+            <div className="text-sm line-through decoration-destructive/60 truncate">
+              {elimination.eliminatedIds.map(nameFor).join(", ")}
+            </div>
+          </li>
+        ))}
+        <li className="relative pl-4">
+          <span className={cn(
+            "absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full",
+            champion != null ? "bg-game-success" : "bg-primary animate-pulse"
+          )} />
+          {champion != null ? (
+            <div className="text-sm font-semibold text-game-success truncate">
+              Champion: {champion.name}
+            </div>
+          ) : (
+            <>
+              <div className="text-sm text-muted-foreground truncate">
+                {tournament.survivorIds.map(nameFor).join(", ")}
+              </div>
+              {tournament.replay != null && (
+                <div className="text-[11px] text-amber-600">
+                  {tournament.replay.reason === "nobody-out" ? "Nobody went out" : "Everyone went out"}
+                  {" "}- replaying the round (replay {tournament.replay.count})
+                </div>
+              )}
+            </>
+          )}
+        </li>
+      </ol>
+    </div>
+  )
+}
+
 /**
  * PlinkoLeaderboard - Clean, tabular leaderboard showing player standings
  */
@@ -20,14 +269,49 @@ export function PlinkoLeaderboard({
   players,
   bucketAssignments,
   roundWinnerBuckets = [],
+  roundSeed,
+  speakingQueue = [],
+  spokenIds = [],
+  onToggleSpoken,
+  attendance,
+  seasons = [],
+  allTimeWins,
+  onStartSeason,
+  onCloseSeason,
+  tournament,
   className,
 }: PlinkoLeaderboardProps) {
-  // Sort players by wins (descending)
-  const leaderboard = React.useMemo(() => {
-    return [...players]
+  const [sortBy, setSortBy] = React.useState<"wins" | "perRound">("wins")
+  const [selectedView, setView] = React.useState<LeaderboardView>("current")
+
+  // Fall back to the live standings if the picked season has gone away
+  const pastSeason = seasons.find(s => s.id === selectedView && s.closedAt != null)
+  const view = selectedView === "all-time" || pastSeason != null ? selectedView : "current"
+  const isCurrent = view === "current"
+
+  // Rows for the chosen view, most wins first. Live standings count from the
+  // open season's start and can also sort by wins per round attended; past
+  // seasons list who was there when it closed.
+  const leaderboard = React.useMemo((): Array<{ player: PlayerProfile; wins: number }> => {
+    if (pastSeason != null) {
+      return (pastSeason.standings ?? []).map(standing => ({
+        player: players.find(p => p.id === standing.playerId)
+          ?? { id: standing.playerId, name: standing.name, wins: 0, active: false },
+        wins: standing.wins,
+      }))
+    }
+    const openSeason = findOpenSeason(seasons)
+    const liveWins = (player: PlayerProfile): number =>
+      openSeason != null ? seasonWins(openSeason, player) : player.wins
+    const rows = players
       .filter(p => p.archived !== true)
-      .sort((a, b) => b.wins - a.wins)
-  }, [players])
+      .map(player => ({ player, wins: view === "all-time" ? allTimeWins?.get(player.id) ?? player.wins : liveWins(player) }))
+    const perRound = (player: PlayerProfile): number =>
+      attendance?.get(player.id)?.winsPerRound ?? -1
+    return rows.sort((a, b) => isCurrent && sortBy === "perRound"
+      ? perRound(b.player) - perRound(a.player) || b.wins - a.wins
+      : b.wins - a.wins)
+  }, [players, attendance, sortBy, pastSeason, view, isCurrent, allTimeWins, seasons])
 
   // Create bucket lookup
   const bucketByPlayer = React.useMemo(() => {
@@ -38,6 +322,14 @@ export function PlinkoLeaderboard({
     return map
   }, [bucketAssignments])
 
+  const playersById = React.useMemo(
+    () => new Map(players.map(p => [p.id, p])),
+    [players]
+  )
+
+  const nextSpeakerId = speakingQueue.find(id => !spokenIds.includes(id))
+  const nextSpeaker = nextSpeakerId != null ? playersById.get(nextSpeakerId) : undefined
+
   const topWins = leaderboard.length > 0 ? leaderboard[0].wins : 0
   const hasOverallWinner = topWins > 0
 
@@ -45,15 +337,37 @@ export function PlinkoLeaderboard({
     <div className={cn("space-y-4", className)}>
       <div className="flex items-center justify-between">
         <h2 className="text-sm font-semibold">Leaderboard</h2>
-        {hasOverallWinner && (
-          <span className="text-xs text-muted-foreground">
-            Top: {topWins} wins
-          </span>
-        )}
+        <div className="flex items-center gap-2">
+          {hasOverallWinner && (
+            <span className="text-xs text-muted-foreground">
+              Top: {topWins} wins
+            </span>
+          )}
+          {isCurrent && attendance != null && attendance.size > 0 && (
+            <button
+              onClick={() => setSortBy(sortBy === "wins" ? "perRound" : "wins")}
+              className="px-2 py-0.5 text-xs rounded-md bg-muted hover:bg-muted/80 transition-colors"
+              title="Sort by total wins or by wins per round attended"
+            >
+              {sortBy === "wins" ? "By wins" : "Per round"}
+            </button>
+          )}
+        </div>
       </div>
 
+      {/* Seasons */}
+      {(seasons.length > 0 || onStartSeason != null) && (
+        <SeasonBar
+          seasons={seasons}
+          view={view}
+          onViewChange={setView}
+          onStartSeason={onStartSeason}
+          onCloseSeason={onCloseSeason}
+        />
+      )}
+
       {/* Round Winner Announcement */}
-      {roundWinnerBuckets.length > 0 && (
+      {isCurrent && roundWinnerBuckets.length > 0 && (
         <div className="flex items-center gap-2 px-3 py-2 bg-game-success/10 border border-game-success/30 rounded-lg">
           <svg className="w-4 h-4 text-game-success shrink-0" fill="currentColor" viewBox="0 0 20 20">
             <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
@@ -65,15 +379,75 @@ export function PlinkoLeaderboard({
               return player?.name || `Bucket ${b + 1}`
             }).join(", ")}
           </span>
+          {roundSeed != null && roundSeed > 0 && (
+            <span
+              className="ml-auto shrink-0 font-mono text-[10px] text-muted-foreground tabular-nums"
+              title="Replay this round by entering the seed in settings"
+            >
+              Seed {roundSeed}
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* Speaking Queue */}
+      {isCurrent && speakingQueue.length > 0 && (
+        <div className="space-y-2">
+          <div
+            className="px-3 py-2 bg-primary/10 border border-primary/30 rounded-lg text-sm font-medium text-primary"
+            aria-live="polite"
+          >
+            {nextSpeaker != null ? `Up next: ${nextSpeaker.name}` : "Everyone has spoken"}
+          </div>
+          <ol className="space-y-1">
+            {speakingQueue.map((playerId, index) => {
+              const player = playersById.get(playerId)
+              const hasSpoken = spokenIds.includes(playerId)
+              const isNext = playerId === nextSpeakerId
+              return (
+                <li
+                  key={playerId}
+                  className={cn(
+                    "flex items-center gap-3 px-3 py-1.5 rounded-lg transition-all",
+                    isNext ? "bg-primary/5 ring-1 ring-primary/20" : "bg-card/50"
+                  )}
+                >
+                  <span className="w-6 text-xs font-bold tabular-nums text-muted-foreground">
+                    {index + 1}.
+                  </span>
+                  <span className={cn(
+                    "flex-1 min-w-0 text-sm truncate",
+                    hasSpoken && "line-through text-muted-foreground"
+                  )}>
+                    {player?.name ?? "Unknown"}
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={hasSpoken}
+                    onChange={() => onToggleSpoken?.(playerId)}
+                    disabled={onToggleSpoken == null}
+                    aria-label={`${player?.name ?? "Player"} has spoken`}
+                    className="w-4 h-4 rounded border-border"
+                  />
+                </li>
+              )
+            })}
+          </ol>
         </div>
       )}
 
+      {/* Tournament Bracket */}
+      {tournament != null && (
+        <TournamentTimeline tournament={tournament} playersById={playersById} />
+      )}
+
       {/* Leaderboard List */}
       <div className="space-y-1.5">
-        {leaderboard.map((player, index) => {
+        {leaderboard.map(({ player, wins }, index) => {
           const bucket = bucketByPlayer.get(player.id)
-          const isRoundWinner = bucket !== undefined && roundWinnerBuckets.includes(bucket)
-          const isTopWinner = hasOverallWinner && player.wins === topWins
+          const isRoundWinner = isCurrent && bucket !== undefined && roundWinnerBuckets.includes(bucket)
+          const isTopWinner = hasOverallWinner && wins === topWins
+          const stats = isCurrent ? attendance?.get(player.id) : undefined
           
           return (
             <div
@@ -110,18 +484,45 @@ export function PlinkoLeaderboard({
               {/* Name and badges */}
               <div className="flex-1 min-w-0">
                 <div className="flex items-center gap-2">
-                  <span className={cn(
-                    "text-sm font-medium truncate",
-                    isRoundWinner ? "text-game-success" : ""
-                  )}>
+                  <Link
+                    href={`/plinko/players/${encodeURIComponent(player.id)}`}
+                    className={cn(
+                      "text-sm font-medium truncate hover:underline",
+                      isRoundWinner ? "text-game-success" : ""
+                    )}
+                    title="Player stats"
+                  >
                     {player.name}
-                  </span>
+                  </Link>
                   {isRoundWinner && (
                     <span className="shrink-0 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide bg-game-success/20 text-game-success rounded">
                       Round
                     </span>
                   )}
+                  {(player.tournamentWins ?? 0) > 0 && (
+                    <span
+                      className="shrink-0 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide bg-amber-500/15 text-amber-600 rounded tabular-nums"
+                      title="Tournament wins"
+                    >
+                      {player.tournamentWins}× Champ
+                    </span>
+                  )}
                 </div>
+                {stats != null && stats.daysOnRoster > 0 && (
+                  <div className="text-[11px] text-muted-foreground tabular-nums truncate">
+                    <span title={`Present ${stats.daysPresent} of ${stats.daysOnRoster} days`}>
+                      {Math.round(stats.rate * 100)}% here
+                    </span>
+                    {stats.streak > 1 && (
+                      <span title="Days in a row"> · {stats.streak}-day streak</span>
+                    )}
+                    {stats.winsPerRound != null && (
+                      <span title={`${stats.wins} wins in ${stats.roundsAttended} rounds attended`}>
+                        {" "}· {stats.winsPerRound.toFixed(2)}/round
+                      </span>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Wins count */}
@@ -130,9 +531,9 @@ export function PlinkoLeaderboard({
                   "text-lg font-bold tabular-nums",
                   isTopWinner && hasOverallWinner ? "text-primary" : "text-foreground"
                 )}>
-                  {player.wins}
+                  {wins}
                 </span>
-                {player.wins > 0 && (
+                {wins > 0 && (
                   <svg className="w-4 h-4 text-amber-500" fill="currentColor" viewBox="0 0 20 20">
                     <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
                   </svg>
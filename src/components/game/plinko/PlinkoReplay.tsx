@@ -0,0 +1,240 @@
+"use client"
+
+import * as React from "react"
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { RangeSlider } from "@/components/ui/RangeSlider"
+import { Select } from "@/components/ui/Select"
+import { PlinkoGame } from "./PlinkoGame"
+import { FIXED_TIMESTEP_MS } from "./simulation"
+import type { RenderTheme, RoundReplay } from "./types"
+import { lightTheme } from "./utils/theme"
+
+export interface PlinkoReplayProps {
+  replay: RoundReplay
+  onClose: () => void
+  theme?: RenderTheme
+  soundEnabled?: boolean
+}
+
+const playbackSpeeds = [0.25, 0.5, 1, 2, 4]
+
+// How long the winner banner stays in an exported video after the last ball lands
+const EXPORT_TAIL_MS = 2500
+
+// Preferred WebM codecs, best first
+const videoMimeTypes = ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"]
+
+const noBuckets: number[] = []
+
+const formatSeconds = (steps: number): string => `${(steps * FIXED_TIMESTEP_MS / 1000).toFixed(1)}s`
+
+const bannerText = (replay: RoundReplay): string => {
+  const names = replay.winningBuckets
+    .map(bucket => replay.players.find(p => p.id === replay.bucketAssignments[bucket])?.name)
+    .filter((name): name is string => name != null)
+  if (names.length === 0) return "Round over"
+  if (replay.config.gameMode === "tournament") return `${names.join(" & ")} ${names.length === 1 ? "is" : "are"} out!`
+  return `${names.join(" & ")} ${names.length === 1 ? "wins" : "win"}!`
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * PlinkoReplay - Plays a finished round back from its seed and drop timeline,
+ * with speed, scrubbing and WebM export of the board canvas. Mount it to open it.
+ */
+export function PlinkoReplay({
+  replay,
+  onClose,
+  theme = lightTheme,
+  soundEnabled = false,
+}: PlinkoReplayProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const stopTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [speed, setSpeed] = useState(1)
+  const [paused, setPaused] = useState(false)
+  const [step, setStep] = useState(0)
+  const [seekTo, setSeekTo] = useState<{ step: number } | null>(null)
+  const [finished, setFinished] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  // Closing mid-export drops the recording
+  const cancelExport = () => {
+    if (stopTimerRef.current != null) clearTimeout(stopTimerRef.current)
+    stopTimerRef.current = null
+    const recorder = recorderRef.current
+    recorderRef.current = null
+    if (recorder != null) {
+      recorder.onstop = null
+      if (recorder.state !== "inactive") recorder.stop()
+    }
+    setIsExporting(false)
+  }
+  const cancelExportRef = useRef(cancelExport)
+  useEffect(() => {
+    cancelExportRef.current = cancelExport
+  })
+  useEffect(() => () => cancelExportRef.current(), [])
+
+  const seek = (target: number) => {
+    setStep(target)
+    setSeekTo({ step: target })
+    setFinished(false)
+  }
+
+  const handleGameEnd = () => {
+    setFinished(true)
+    const recorder = recorderRef.current
+    if (recorder == null) return
+    stopTimerRef.current = setTimeout(() => {
+      stopTimerRef.current = null
+      recorder.stop()
+    }, EXPORT_TAIL_MS)
+  }
+
+  // Record the canvas while the round plays from the start at the chosen speed
+  const handleExport = () => {
+    const canvas = canvasRef.current
+    const mimeType = typeof MediaRecorder === "undefined"
+      ? undefined
+      : videoMimeTypes.find(type => MediaRecorder.isTypeSupported(type))
+    if (canvas == null || mimeType == null || !("captureStream" in canvas)) {
+      setExportError("This browser can't record the board")
+      return
+    }
+
+    const chunks: Blob[] = []
+    const recorder = new MediaRecorder(canvas.captureStream(60), { mimeType })
+    recorder.ondataavailable = event => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+    recorder.onstop = () => {
+      recorderRef.current = null
+      setIsExporting(false)
+      const stamp = new Date(replay.timestamp).toISOString().slice(0, 19).replace(/[:T]/g, "-")
+      downloadBlob(new Blob(chunks, { type: "video/webm" }), `plinko-round-${stamp}.webm`)
+    }
+    recorderRef.current = recorder
+    recorder.start()
+
+    setExportError(null)
+    setIsExporting(true)
+    setPaused(false)
+    seek(0)
+  }
+
+  const handleClose = () => {
+    cancelExport()
+    onClose()
+  }
+
+  const lastStep = Math.max(0, replay.steps - 1)
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={handleClose}
+      />
+
+      {/* Modal */}
+      <div className="relative max-w-full max-h-[95vh] glass-panel-elevated rounded-2xl overflow-auto flex flex-col animate-in fade-in zoom-in-95 duration-200">
+        {/* Header */}
+        <div className="flex items-center justify-between gap-4 p-4 border-b border-border/50">
+          <div>
+            <h2 className="text-lg font-semibold">Replay</h2>
+            <p className="text-sm text-muted-foreground">
+              {new Date(replay.timestamp).toLocaleString()} • {bannerText(replay)}
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 rounded-lg hover:bg-muted transition-colors"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-4">
+          {/* Replays draw on the page so the canvas can be recorded */}
+          <PlinkoGame
+            config={replay.config}
+            bucketAssignments={replay.bucketAssignments}
+            players={replay.players}
+            isRunning
+            seed={replay.seed}
+            bucketWeights={replay.bucketWeights}
+            playerDrops={replay.playerDrops}
+            winningBuckets={finished ? replay.winningBuckets : noBuckets}
+            soundEnabled={soundEnabled}
+            theme={theme}
+            renderThread="main"
+            playback={{ speed, paused }}
+            seekTo={seekTo}
+            onProgress={setStep}
+            onGameEnd={handleGameEnd}
+            banner={finished ? bannerText(replay) : null}
+            interactive={false}
+            canvasRef={canvasRef}
+          />
+        </div>
+
+        {/* Playback controls */}
+        <div className="flex flex-wrap items-center gap-3 p-4 border-t border-border/30 bg-muted/30">
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-20"
+            onClick={() => finished ? seek(0) : setPaused(!paused)}
+            disabled={isExporting}
+          >
+            {finished ? "Restart" : paused ? "Play" : "Pause"}
+          </Button>
+          <RangeSlider
+            className="flex-1 min-w-40"
+            value={Math.min(step, lastStep)}
+            onValueChange={seek}
+            min={0}
+            max={lastStep}
+            disabled={isExporting}
+            aria-label="Replay position"
+          />
+          <span className="w-24 text-xs tabular-nums text-muted-foreground text-right">
+            {formatSeconds(step)} / {formatSeconds(replay.steps)}
+          </span>
+          <Select
+            className="h-8 w-20"
+            value={speed}
+            onChange={e => setSpeed(Number(e.target.value))}
+            disabled={isExporting}
+            aria-label="Playback speed"
+          >
+            {playbackSpeeds.map(value => (
+              <option key={value} value={value}>{value}×</option>
+            ))}
+          </Select>
+          <Button size="sm" onClick={handleExport} disabled={isExporting} title="Record the round at this speed">
+            {isExporting ? "Recording…" : "Export WebM"}
+          </Button>
+        </div>
+        {exportError != null && (
+          <p className="px-4 pb-3 text-xs text-destructive">{exportError}</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,196 @@
+"use client"
+
+import * as React from "react"
+import Image from "next/image"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import type { PlayerProfile, PlinkoConfig, RoundRecord, StandupSpeaker } from "./types"
+import { formatClock } from "./utils/standup"
+import { getAvatarUrl } from "../shared/PlayerSidebar"
+
+export interface PlinkoRoundHistoryProps {
+  rounds: RoundRecord[]
+  total: number
+  players: PlayerProfile[]
+  isLoading?: boolean
+  onLoadMore?: () => void
+  className?: string
+}
+
+export const winConditionLabels: Record<PlinkoConfig["winCondition"], string> = {
+  most: "Most balls",
+  nth: "Nth ball",
+  first: "First ball",
+  "last-empty": "Last empty",
+  ranking: "Speaking order",
+}
+
+const speakerStatusLabels: Record<StandupSpeaker["status"], string> = {
+  spoke: "",
+  skipped: "skipped",
+  absent: "absent",
+}
+
+const formatRoundTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  })
+
+/**
+ * PlinkoRoundHistory - Browsable log of completed rounds, newest first
+ */
+export function PlinkoRoundHistory({
+  rounds,
+  total,
+  players,
+  isLoading = false,
+  onLoadMore,
+  className,
+}: PlinkoRoundHistoryProps) {
+  const [expandedId, setExpandedId] = React.useState<string | null>(null)
+
+  const playersById = React.useMemo(
+    () => new Map(players.map(p => [p.id, p])),
+    [players]
+  )
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">Round History</h2>
+        <span className="text-xs text-muted-foreground">
+          {total} {total === 1 ? "round" : "rounds"}
+        </span>
+      </div>
+
+      <div className="space-y-1.5">
+        {rounds.map(round => {
+          const namesById = new Map(round.participants.map(p => [p.id, p.name]))
+          const nameFor = (id: string): string =>
+            namesById.get(id) ?? playersById.get(id)?.name ?? "Unknown"
+          const isExpanded = expandedId === round.id
+          const winner = round.winnerIds.length > 0 ? playersById.get(round.winnerIds[0]) : undefined
+
+          return (
+            <div
+              key={round.id}
+              className="rounded-lg bg-card/50 hover:bg-card transition-colors"
+            >
+              <button
+                onClick={() => setExpandedId(isExpanded ? null : round.id)}
+                className="w-full flex items-center gap-3 px-3 py-2 text-left"
+              >
+                {winner != null ? (
+                  <Image
+                    src={getAvatarUrl(winner)}
+                    alt={winner.name}
+                    width={28}
+                    height={28}
+                    unoptimized
+                    className="w-7 h-7 rounded-full object-cover ring-2 ring-game-success/50 shrink-0"
+                  />
+                ) : (
+                  <div className="w-7 h-7 rounded-full bg-muted shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">
+                    {round.winnerIds.length > 0
+                      ? round.winnerIds.map(nameFor).join(", ")
+                      : "No winner"}
+                  </div>
+                  <div className="text-[11px] text-muted-foreground truncate">
+                    {formatRoundTime(round.timestamp)} • {winConditionLabels[round.winCondition]}
+                    {round.winCondition === "nth" && round.winNth != null && ` (${round.winNth})`}
+                  </div>
+                </div>
+                {round.standup != null && (
+                  <span
+                    className="shrink-0 text-[11px] tabular-nums text-muted-foreground"
+                    title="Standup length"
+                  >
+                    {formatClock(round.standup.totalMs)}
+                  </span>
+                )}
+                {round.tiebreakerRounds > 0 && (
+                  <span className="shrink-0 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide bg-amber-500/15 text-amber-600 rounded">
+                    {round.tiebreakerRounds} TB
+                  </span>
+                )}
+              </button>
+
+              {isExpanded && (
+                <div className="px-3 pb-3 space-y-2">
+                  <div className="space-y-1">
+                    {round.bucketAssignments.map((playerId, bucketIndex) => {
+                      const isWinner = round.winnerIds.includes(playerId)
+                      return (
+                        <div
+                          key={`${playerId}-${bucketIndex}`}
+                          className={cn(
+                            "flex items-center gap-2 text-xs",
+                            isWinner ? "text-game-success font-medium" : "text-muted-foreground"
+                          )}
+                        >
+                          <span className="w-14 shrink-0 tabular-nums">Bucket {bucketIndex + 1}</span>
+                          <span className="flex-1 truncate">{nameFor(playerId)}</span>
+                          <span className="tabular-nums">{round.bucketCounts[bucketIndex] ?? 0}</span>
+                        </div>
+                      )
+                    })}
+                  </div>
+                  {round.speakingOrder != null && round.speakingOrder.length > 0 && (
+                    <ol className="space-y-0.5 text-xs text-muted-foreground list-decimal list-inside">
+                      {round.speakingOrder.map(playerId => (
+                        <li key={playerId} className="truncate">{nameFor(playerId)}</li>
+                      ))}
+                    </ol>
+                  )}
+                  {round.standup != null && (
+                    <div className="space-y-0.5">
+                      <div className="text-[11px] font-medium text-muted-foreground">
+                        Standup · {formatClock(round.standup.totalMs)}
+                      </div>
+                      {round.standup.speakers.map(turn => (
+                        <div key={turn.playerId} className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <span className="flex-1 truncate">{nameFor(turn.playerId)}</span>
+                          <span className="text-[10px]">{speakerStatusLabels[turn.status]}</span>
+                          <span className="w-10 text-right tabular-nums">
+                            {turn.status === "absent" ? "—" : formatClock(turn.durationMs)}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="text-[10px] font-mono text-muted-foreground">
+                    Seed {round.seed}
+                  </div>
+                </div>
+              )}
+            </div>
+          )
+        })}
+
+        {rounds.length === 0 && !isLoading && (
+          <div className="text-center py-8 text-muted-foreground text-sm">
+            No rounds played yet
+          </div>
+        )}
+      </div>
+
+      {onLoadMore != null && rounds.length < total && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={onLoadMore}
+          disabled={isLoading}
+        >
+          {isLoading ? "Loading..." : "Load more"}
+        </Button>
+      )}
+    </div>
+  )
+}
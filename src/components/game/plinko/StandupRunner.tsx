@@ -0,0 +1,280 @@
+"use client"
+
+import * as React from "react"
+import { useEffect, useRef, useState } from "react"
+import Image from "next/image"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import type { PlayerProfile, StandupSpeaker } from "./types"
+import { useGameSounds } from "./hooks/useGameSounds"
+import {
+  advanceStandup,
+  currentSpeaker,
+  currentSpeakerMs,
+  finishStandup,
+  formatClock,
+  startStandup,
+  type StandupAction,
+  type StandupState,
+} from "./utils/standup"
+import { getAvatarUrl } from "../shared/PlayerSidebar"
+
+export interface StandupRunnerProps {
+  standup: StandupState
+  players: PlayerProfile[]
+  /** Time each speaker gets */
+  speakerSeconds: number
+  /** The warning chime plays this long before time's up (0 for none) */
+  warningSeconds: number
+  soundEnabled?: boolean
+  onChange: (standup: StandupState) => void
+  onClose: () => void
+  className?: string
+}
+
+const TICK_MS = 250
+
+const statusLabels: Record<StandupSpeaker["status"], string> = {
+  spoke: "Spoke",
+  skipped: "Skipped",
+  absent: "Absent",
+}
+
+/**
+ * StandupRunner - Walks the team through the standup after a round: one
+ * speaker at a time with a countdown, a warning chime and a time's-up buzzer
+ */
+export function StandupRunner({
+  standup,
+  players,
+  speakerSeconds,
+  warningSeconds,
+  soundEnabled = true,
+  onChange,
+  onClose,
+  className,
+}: StandupRunnerProps) {
+  const [now, setNow] = useState(0)
+  const standupRef = useRef(standup)
+  // Alerts already played per speaker, so snoozing doesn't replay them
+  const alertsRef = useRef(new Map<string, "warning" | "timeUp">())
+  const { playWarning, playTimeUp } = useGameSounds()
+
+  useEffect(() => {
+    standupRef.current = standup
+  })
+
+  const speakerMs = speakerSeconds * 1000
+  const warningMs = warningSeconds * 1000
+  const isRunning = standup.turnStartedAt != null
+
+  useEffect(() => {
+    if (!isRunning) return
+    const tick = () => {
+      const time = Date.now()
+      setNow(time)
+      const state = standupRef.current
+      const speaker = currentSpeaker(state)
+      if (speaker == null) return
+      const remainingMs = speakerMs - currentSpeakerMs(state, time)
+      const played = alertsRef.current.get(speaker)
+      if (remainingMs <= 0 && played !== "timeUp") {
+        alertsRef.current.set(speaker, "timeUp")
+        if (soundEnabled) playTimeUp()
+      } else if (remainingMs > 0 && remainingMs <= warningMs && played == null) {
+        alertsRef.current.set(speaker, "warning")
+        if (soundEnabled) playWarning()
+      }
+    }
+    const interval = setInterval(tick, TICK_MS)
+    return () => clearInterval(interval)
+  }, [isRunning, speakerMs, warningMs, soundEnabled, playWarning, playTimeUp])
+
+  const playersById = React.useMemo(
+    () => new Map(players.map(p => [p.id, p])),
+    [players]
+  )
+  const nameFor = (id: string): string => playersById.get(id)?.name ?? "Unknown"
+
+  const handleStart = () => {
+    const time = Date.now()
+    alertsRef.current.clear()
+    setNow(time)
+    onChange(startStandup(standup, time))
+  }
+
+  const handleAction = (action: StandupAction) => {
+    const time = Date.now()
+    setNow(time)
+    onChange(advanceStandup(standup, action, time))
+  }
+
+  const handleFinish = () => {
+    const time = Date.now()
+    setNow(time)
+    onChange(finishStandup(standup, time))
+  }
+
+  const speakerId = currentSpeaker(standup)
+  const speaker = speakerId != null ? playersById.get(speakerId) : undefined
+  const usedMs = Math.max(0, currentSpeakerMs(standup, now))
+  const remainingMs = speakerMs - usedMs
+  const isOvertime = remainingMs <= 0
+  const isWarning = !isOvertime && remainingMs <= warningMs
+  const totalMs = standup.startedAt == null
+    ? 0
+    : Math.max(0, (standup.endedAt ?? now) - standup.startedAt)
+  const upNext = isRunning ? standup.queue.slice(1) : standup.queue
+  const hasEnded = standup.endedAt != null
+
+  return (
+    <div className={cn("p-4 rounded-xl glass-panel space-y-4", className)}>
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-sm font-semibold">Standup</h2>
+        <div className="flex items-center gap-3">
+          {standup.startedAt != null && (
+            <span className="text-xs text-muted-foreground tabular-nums">
+              {hasEnded ? "Total" : "Meeting"} {formatClock(totalMs)}
+            </span>
+          )}
+          <button
+            onClick={onClose}
+            className="p-1 rounded-md hover:bg-muted transition-colors"
+            aria-label="Close standup"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Current speaker */}
+      {speakerId != null && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-3">
+            {speaker != null && (
+              <Image
+                src={getAvatarUrl(speaker)}
+                alt={speaker.name}
+                width={48}
+                height={48}
+                unoptimized
+                className="w-12 h-12 rounded-full object-cover ring-2 ring-primary/50"
+              />
+            )}
+            <div className="flex-1 min-w-0">
+              <div className="text-xs text-muted-foreground">Speaking now</div>
+              <div className="text-lg font-semibold truncate">{nameFor(speakerId)}</div>
+            </div>
+            <div
+              className={cn(
+                "text-3xl font-bold tabular-nums",
+                isOvertime ? "text-destructive animate-pulse" : isWarning ? "text-game-accent" : "text-foreground"
+              )}
+              aria-live="polite"
+            >
+              {isOvertime ? `+${formatClock(remainingMs)}` : formatClock(remainingMs)}
+            </div>
+          </div>
+          <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+            <div
+              className={cn(
+                "h-full transition-[width] duration-200",
+                isOvertime ? "bg-destructive" : isWarning ? "bg-game-accent" : "bg-primary"
+              )}
+              style={{ width: `${Math.min(100, usedMs / speakerMs * 100)}%` }}
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" onClick={() => handleAction("spoke")}>
+              {upNext.length > 0 ? "Next speaker" : "Done"}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleAction("skip")}>
+              Skip
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleAction("snooze")}
+              disabled={upNext.length === 0}
+              title="Move to the end of the queue, keeping the time used so far"
+            >
+              Snooze to end
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => handleAction("absent")}>
+              Absent
+            </Button>
+            <Button size="sm" variant="ghost" className="ml-auto" onClick={handleFinish}>
+              End standup
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Not started yet */}
+      {standup.startedAt == null && (
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm text-muted-foreground">
+            {standup.queue.length} speakers · {formatClock(speakerMs)} each
+          </span>
+          <Button size="sm" onClick={handleStart} disabled={standup.queue.length === 0}>
+            Start standup
+          </Button>
+        </div>
+      )}
+
+      {/* Queue */}
+      {upNext.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            {isRunning ? "Up next" : "Speaking order"}
+          </h3>
+          <ol className="space-y-1">
+            {upNext.map((playerId, index) => (
+              <li key={playerId} className="flex items-center gap-3 px-3 py-1.5 rounded-lg bg-card/50">
+                <span className="w-6 text-xs font-bold tabular-nums text-muted-foreground">
+                  {index + 1}.
+                </span>
+                <span className="flex-1 min-w-0 text-sm truncate">{nameFor(playerId)}</span>
+                {standup.carriedMs[playerId] != null && (
+                  <span className="text-xs text-muted-foreground tabular-nums" title="Snoozed - time used so far">
+                    {formatClock(standup.carriedMs[playerId])}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {/* Finished turns */}
+      {standup.speakers.length > 0 && (
+        <div className="space-y-1">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+            {hasEnded ? "Speakers" : "Done"}
+          </h3>
+          <ul className="space-y-1">
+            {standup.speakers.map(turn => (
+              <li key={turn.playerId} className="flex items-center gap-3 px-3 py-1 text-sm">
+                <span className={cn(
+                  "flex-1 min-w-0 truncate",
+                  turn.status !== "spoke" && "text-muted-foreground"
+                )}>
+                  {nameFor(turn.playerId)}
+                </span>
+                <span className="text-xs text-muted-foreground">{statusLabels[turn.status]}</span>
+                <span className={cn(
+                  "w-12 text-right text-xs tabular-nums",
+                  turn.durationMs > speakerMs ? "text-destructive" : "text-muted-foreground"
+                )}>
+                  {turn.status === "absent" ? "—" : formatClock(turn.durationMs)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
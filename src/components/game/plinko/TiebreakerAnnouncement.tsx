@@ -3,11 +3,15 @@
 import * as React from "react"
 import { useEffect, useState, useCallback } from "react"
 import { cn } from "@/lib/utils"
+import type { RenderTheme } from "./types"
+import { isDarkColor, lightTheme, withAlpha } from "./utils/theme"
 
 export interface TiebreakerAnnouncementProps {
   isVisible: boolean
   roundNumber?: number
   onComplete?: () => void
+  /** Board colors - the entrance flash and round label are tuned to the board */
+  theme?: RenderTheme
   className?: string
 }
 
@@ -18,10 +22,12 @@ export function TiebreakerAnnouncement({
   isVisible,
   roundNumber = 1,
   onComplete,
+  theme = lightTheme,
   className,
 }: TiebreakerAnnouncementProps) {
   const [phase, setPhase] = useState<"enter" | "hold" | "exit" | "done">("done")
   const [glitchText, setGlitchText] = useState("TIEBREAKER")
+  const isDark = isDarkColor(theme.background)
 
   // Glitch effect for the text
   const glitchChars = "!@#$%^&*()_+-=[]{}|;':\",./<>?~`"
@@ -102,8 +108,9 @@ export function TiebreakerAnnouncement({
       <div 
         className={cn(
           "absolute inset-0 transition-opacity duration-100",
-          phase === "enter" ? "bg-white/30 opacity-100" : "opacity-0"
+          phase === "enter" ? "opacity-100" : "opacity-0"
         )}
+        style={{ background: withAlpha(isDark ? "#ffffff" : theme.pinGlow, 0.3) }}
       />
 
       {/* Main content container */}
@@ -197,14 +204,17 @@ export function TiebreakerAnnouncement({
         <div 
           className={cn(
             "relative mt-2 flex items-center gap-3",
-            "text-white/90 text-sm md:text-base font-bold uppercase tracking-[0.3em]",
+            "text-sm md:text-base font-bold uppercase tracking-[0.3em]",
             phase === "enter" && "opacity-0",
             phase === "hold" && "animate-[fade-up_0.3s_ease-out_0.2s_forwards] opacity-0",
             phase === "exit" && "opacity-100",
           )}
         >
           <div className="h-px w-8 bg-gradient-to-r from-transparent to-amber-400" />
-          <span className="text-amber-300 drop-shadow-[0_0_8px_rgba(251,191,36,0.8)]">
+          <span className={cn(
+            "drop-shadow-[0_0_8px_rgba(251,191,36,0.8)]",
+            isDark ? "text-amber-300" : "text-amber-600"
+          )}>
             ROUND {roundNumber + 1}
           </span>
           <div className="h-px w-8 bg-gradient-to-l from-transparent to-amber-400" />
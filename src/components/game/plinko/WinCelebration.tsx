@@ -5,16 +5,25 @@ import { useRef, useEffect, useCallback } from "react"
 import Image from "next/image"
 import Matter, { Engine, Runner, Bodies, Composite, Events } from "matter-js"
 import { cn } from "@/lib/utils"
-import type { PlayerProfile } from "./types"
+import type { PlayerProfile, RenderTheme } from "./types"
 import { getAvatarUrl } from "../shared/PlayerSidebar"
+import { isDarkColor, lightTheme, withAlpha } from "./utils/theme"
 
 export interface WinCelebrationProps {
   isVisible: boolean
   winner: PlayerProfile | null
   onClose: () => void
+  /** Board colors - the backdrop and falling balls match the board */
+  theme?: RenderTheme
   className?: string
 }
 
+// Ball colors for a celebration on this board
+const celebrationColors = (theme: RenderTheme): string[] => [
+  theme.ballGradientStart, theme.ballGradientEnd, theme.pinColor, theme.bumperColor,
+  theme.spinnerColor, theme.gateColor, theme.bucketHighlight, "#eab308"
+]
+
 /**
  * WinCelebration - Physics-based celebration overlay with ball drop
  */
@@ -22,6 +31,7 @@ export function WinCelebration({
   isVisible,
   winner,
   onClose,
+  theme = lightTheme,
   className,
 }: WinCelebrationProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -32,6 +42,12 @@ export function WinCelebration({
   const runnerRef = useRef<Matter.Runner | null>(null)
   const ballsRef = useRef<Matter.Body[]>([])
   const animationRef = useRef<number | null>(null)
+  const colorsRef = useRef(celebrationColors(theme))
+  const isDark = isDarkColor(theme.background)
+
+  useEffect(() => {
+    colorsRef.current = celebrationColors(theme)
+  }, [theme])
 
   const cleanup = useCallback(() => {
     if (animationRef.current) {
@@ -123,11 +139,8 @@ export function WinCelebration({
 
       Runner.run(runner, engine)
 
-      // Ball colors
-      const colors = [
-        "#ef4444", "#f97316", "#eab308", "#22c55e", 
-        "#3b82f6", "#8b5cf6", "#ec4899", "#06b6d4"
-      ]
+      // Ball colors from the board theme
+      const colors = colorsRef.current
 
       // Drop balls continuously
       let dropCount = 0
@@ -220,10 +233,11 @@ export function WinCelebration({
     <div
       className={cn(
         "fixed inset-0 z-50 flex items-center justify-center",
-        "bg-black/60 backdrop-blur-md",
+        "backdrop-blur-md",
         "animate-in fade-in duration-300",
         className
       )}
+      style={{ background: withAlpha(theme.background, 0.7) }}
       onClick={onClose}
     >
       {/* Physics canvas (behind) */}
@@ -266,16 +280,19 @@ export function WinCelebration({
           <p className="text-amber-400 text-lg font-medium uppercase tracking-wider mb-2">
             🎉 Winner! 🎉
           </p>
-          <h2 className="text-white text-4xl md:text-5xl font-bold tracking-tight text-glow-accent">
+          <h2 className={cn(
+            "text-4xl md:text-5xl font-bold tracking-tight text-glow-accent",
+            isDark ? "text-white" : "text-slate-900"
+          )}>
             {winner.name}
           </h2>
-          <p className="text-white/70 text-lg mt-2">
+          <p className={cn("text-lg mt-2", isDark ? "text-white/70" : "text-slate-600")}>
             {winner.wins} {winner.wins === 1 ? "win" : "wins"} total
           </p>
         </div>
 
         {/* Dismiss hint */}
-        <p className="mt-4 text-white/60 text-sm">
+        <p className={cn("mt-4 text-sm", isDark ? "text-white/60" : "text-slate-500")}>
           Click anywhere to continue
         </p>
       </div>
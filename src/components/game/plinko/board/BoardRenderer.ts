@@ -0,0 +1,503 @@
+import type Matter from "matter-js"
+import type { BucketModifierType, PlinkoConfig, RenderTheme } from "../types"
+import type { PlacedObstacle, PlinkoSimulation } from "../simulation/PlinkoSimulation"
+import { OBSTACLE_BAR_THICKNESS } from "../simulation/obstacles"
+import { playerColor } from "../utils/players"
+import { isDarkColor, withAlpha } from "../utils/theme"
+
+/**
+ * A 2D context on the page's canvas or, in the board worker, an OffscreenCanvas
+ */
+export type BoardContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+export interface PlayerAim {
+  x: number
+  ownerId: string
+}
+
+/**
+ * Everything the board draws that isn't physics state
+ */
+export interface BoardView {
+  theme: RenderTheme
+  winningBuckets: number[]
+  /** Obstacle outlined as selected in the board editor */
+  selectedObstacleId: string | null
+  /** Where the current player is aiming ("players" drop mode) */
+  aim: PlayerAim | null
+  /** Draw the frame rate / physics step overlay */
+  showStats: boolean
+  /** Winner text drawn across the board (replays - so exported videos include it) */
+  banner: string | null
+}
+
+/**
+ * Where the board loop runs: a Web Worker drawing to an OffscreenCanvas, or the page itself
+ */
+export type BoardThread = "worker" | "main"
+
+/**
+ * Frame loop measurements, averaged over a short window
+ */
+export interface BoardStats {
+  fps: number
+  stepsPerSecond: number
+  /** Time spent stepping physics and drawing, per frame */
+  frameMs: number
+  balls: number
+  thread: BoardThread
+}
+
+// Tint, label and narrow-bucket symbol for each bucket modifier
+const bucketModifierStyles: Record<BucketModifierType, { fill: string; color: string; label: string; symbol: string }> = {
+  double: { fill: "rgba(59, 130, 246, 0.15)", color: "#2563eb", label: "×2", symbol: "×2" },
+  steal: { fill: "rgba(168, 85, 247, 0.15)", color: "#9333ea", label: "STEAL", symbol: "⇄" },
+  reset: { fill: "rgba(239, 68, 68, 0.15)", color: "#dc2626", label: "RESET", symbol: "↺" },
+  jackpot: { fill: "rgba(234, 179, 8, 0.2)", color: "#ca8a04", label: "JACKPOT", symbol: "★" },
+}
+
+interface HitPin {
+  x: number
+  y: number
+  time: number
+  intensity: number
+}
+
+// Rounded bar along the body's angle, shared by spinners, deflectors and gates
+const traceBar = (ctx: BoardContext, { obstacle, body }: PlacedObstacle) => {
+  const half = obstacle.size / 2
+  const thickness = OBSTACLE_BAR_THICKNESS
+  ctx.save()
+  ctx.translate(body.position.x, body.position.y)
+  ctx.rotate(body.angle)
+  ctx.beginPath()
+  ctx.roundRect(-half, -thickness / 2, obstacle.size, thickness, thickness / 2)
+  ctx.restore()
+}
+
+const drawBumper = (ctx: BoardContext, { obstacle, body }: PlacedObstacle, theme: RenderTheme, flash: number) => {
+  const { x, y } = body.position
+  const r = obstacle.size
+  if (flash > 0) {
+    const glow = ctx.createRadialGradient(x, y, r, x, y, r * 1.8)
+    glow.addColorStop(0, theme.bumperColor)
+    glow.addColorStop(1, "rgba(0, 0, 0, 0)")
+    ctx.globalAlpha = flash
+    ctx.fillStyle = glow
+    ctx.beginPath()
+    ctx.arc(x, y, r * 1.8, 0, Math.PI * 2)
+    ctx.fill()
+    ctx.globalAlpha = 1
+  }
+  ctx.fillStyle = theme.bumperColor
+  ctx.beginPath()
+  ctx.arc(x, y, r, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.strokeStyle = theme.bumperRing
+  ctx.lineWidth = Math.max(2, r * 0.2)
+  ctx.beginPath()
+  ctx.arc(x, y, r * 0.65, 0, Math.PI * 2)
+  ctx.stroke()
+}
+
+const drawSpinner = (ctx: BoardContext, placed: PlacedObstacle, theme: RenderTheme) => {
+  ctx.fillStyle = theme.spinnerColor
+  traceBar(ctx, placed)
+  ctx.fill()
+  // Hub
+  const { x, y } = placed.body.position
+  ctx.fillStyle = "rgba(255, 255, 255, 0.8)"
+  ctx.beginPath()
+  ctx.arc(x, y, OBSTACLE_BAR_THICKNESS * 0.6, 0, Math.PI * 2)
+  ctx.fill()
+}
+
+const drawDeflector = (ctx: BoardContext, placed: PlacedObstacle, theme: RenderTheme) => {
+  ctx.fillStyle = theme.deflectorColor
+  traceBar(ctx, placed)
+  ctx.fill()
+}
+
+// Dashed bar with chevrons pointing the way balls may pass
+const drawGate = (ctx: BoardContext, placed: PlacedObstacle, theme: RenderTheme) => {
+  const { obstacle, body } = placed
+  ctx.strokeStyle = theme.gateColor
+  ctx.lineWidth = 2
+  ctx.setLineDash([4, 3])
+  traceBar(ctx, placed)
+  ctx.stroke()
+  ctx.setLineDash([])
+
+  ctx.save()
+  ctx.translate(body.position.x, body.position.y)
+  ctx.rotate(body.angle)
+  ctx.fillStyle = theme.gateColor
+  const offsets = obstacle.size > 40 ? [-obstacle.size / 4, obstacle.size / 4] : [0]
+  offsets.forEach(offset => {
+    ctx.beginPath()
+    ctx.moveTo(offset - 4, OBSTACLE_BAR_THICKNESS / 2 + 1)
+    ctx.lineTo(offset + 4, OBSTACLE_BAR_THICKNESS / 2 + 1)
+    ctx.lineTo(offset, OBSTACLE_BAR_THICKNESS / 2 + 6)
+    ctx.closePath()
+    ctx.fill()
+  })
+  ctx.restore()
+}
+
+// Dashed outline around the obstacle picked in the editor
+const drawSelection = (ctx: BoardContext, body: Matter.Body, radius: number) => {
+  ctx.strokeStyle = "#f59e0b"
+  ctx.lineWidth = 2
+  ctx.setLineDash([4, 4])
+  ctx.beginPath()
+  ctx.arc(body.position.x, body.position.y, radius + 5, 0, Math.PI * 2)
+  ctx.stroke()
+  ctx.setLineDash([])
+}
+
+/**
+ * Canvas renderer for Plinko with "Modern Glass & Light" aesthetic. Draws one
+ * frame of a simulation; keeps the short-lived effects (pin glows, ball
+ * trails) between frames.
+ */
+export class BoardRenderer {
+  private hitPins: HitPin[] = []
+  private trails = new Map<number, Array<{ x: number; y: number; alpha: number }>>()
+
+  registerPinHit(x: number, y: number, intensity: number, now: number): void {
+    this.hitPins.push({ x, y, time: now, intensity: Math.min(intensity / 10, 1) })
+  }
+
+  clear(): void {
+    this.hitPins = []
+    this.trails.clear()
+  }
+
+  draw(ctx: BoardContext, simulation: PlinkoSimulation, config: PlinkoConfig, view: BoardView, now: number): void {
+    const { width, height } = config
+    const theme = view.theme
+
+    // Clear and draw background
+    ctx.clearRect(0, 0, width, height)
+    
+    // Background gradient
+    const bgGradient = ctx.createLinearGradient(0, 0, 0, height)
+    bgGradient.addColorStop(0, theme.background)
+    bgGradient.addColorStop(1, theme.backgroundEnd)
+    ctx.fillStyle = bgGradient
+    ctx.fillRect(0, 0, width, height)
+
+    // Side walls
+    ctx.fillStyle = theme.wallColor
+    ctx.fillRect(0, 0, 2, height)
+    ctx.fillRect(width - 2, 0, 2, height)
+
+    // Draw bucket zones
+    const bounds = simulation.bucketBounds
+    const counts = simulation.bucketCounts
+    if (bounds.length > 0) {
+      for (let i = 0; i < bounds.length - 1; i++) {
+        const isWinning = view.winningBuckets.includes(i)
+        const x1 = bounds[i]
+        const x2 = bounds[i + 1]
+        const bucketY = height - config.rimHeight
+        
+        const modifier = config.bucketModifiers.find(m => m.bucket === i)
+        const modifierStyle = modifier != null ? bucketModifierStyles[modifier.type] : null
+
+        // Bucket background
+        ctx.fillStyle = isWinning ? withAlpha(theme.bucketHighlight, 0.3) : modifierStyle?.fill ?? "transparent"
+        ctx.fillRect(x1, bucketY, x2 - x1, config.rimHeight)
+
+        // Modifier label along the bottom, or just its symbol if it won't fit
+        if (modifierStyle != null) {
+          ctx.font = "bold 10px system-ui, sans-serif"
+          ctx.textAlign = "center"
+          ctx.textBaseline = "bottom"
+          ctx.fillStyle = modifierStyle.color
+          const fits = ctx.measureText(modifierStyle.label).width <= x2 - x1 - 6
+          ctx.fillText(fits ? modifierStyle.label : modifierStyle.symbol, (x1 + x2) / 2, height - 6)
+        }
+        
+        // Bucket divider
+        if (i > 0) {
+          ctx.fillStyle = theme.bucketDivider
+          ctx.fillRect(x1 - config.rimWidth / 2, bucketY, config.rimWidth, config.rimHeight)
+        }
+        
+        // Draw ball count inside bucket (aligned to top)
+        const count = counts[i] || 0
+        if (count > 0) {
+          const bucketCenterX = (x1 + x2) / 2
+          const circleRadius = Math.min(18, (x2 - x1) / 3)
+          // Position at top of bucket with padding
+          const countY = bucketY + circleRadius + 4
+          
+          // Count background circle
+          ctx.fillStyle = isWinning ? withAlpha(theme.bucketHighlight, 0.9) : "rgba(0, 0, 0, 0.5)"
+          ctx.beginPath()
+          ctx.arc(bucketCenterX, countY, circleRadius, 0, Math.PI * 2)
+          ctx.fill()
+          
+          // Count text
+          ctx.fillStyle = "#ffffff"
+          ctx.font = `bold ${Math.min(14, circleRadius)}px system-ui, sans-serif`
+          ctx.textAlign = "center"
+          ctx.textBaseline = "middle"
+          ctx.fillText(count.toString(), bucketCenterX, countY)
+        }
+      }
+    }
+
+    // Clean up old hit pins
+    this.hitPins = this.hitPins.filter(hit => now - hit.time < 300)
+
+    // Draw pins with glow effect
+    const pins = simulation.pins
+    pins.forEach(pin => {
+      const { x, y } = pin.position
+      const hitPin = this.hitPins.find(
+        hit => Math.abs(hit.x - x) < config.pinRadius * 2 && Math.abs(hit.y - y) < config.pinRadius * 2
+      )
+      
+      // Pin glow (when hit)
+      if (hitPin != null) {
+        const age = (now - hitPin.time) / 300
+        const glowAlpha = (1 - age) * hitPin.intensity * 0.8
+        const glowRadius = config.pinRadius * (2 + age * 2)
+        
+        const glow = ctx.createRadialGradient(x, y, 0, x, y, glowRadius)
+        glow.addColorStop(0, withAlpha(theme.pinGlow, glowAlpha))
+        glow.addColorStop(1, withAlpha(theme.pinGlow, 0))
+        ctx.fillStyle = glow
+        ctx.beginPath()
+        ctx.arc(x, y, glowRadius, 0, Math.PI * 2)
+        ctx.fill()
+      }
+
+      // Pin body
+      ctx.fillStyle = theme.pinColor
+      ctx.beginPath()
+      
+      if (config.pinShape === "ball") {
+        ctx.arc(x, y, config.pinRadius, 0, Math.PI * 2)
+      } else if (config.pinShape === "square") {
+        const size = config.pinRadius * 2
+        ctx.save()
+        ctx.translate(x, y)
+        ctx.rotate(config.pinAngle * Math.PI / 180)
+        ctx.rect(-size / 2, -size / 2, size, size)
+        ctx.restore()
+      } else if (config.pinShape === "triangle") {
+        ctx.save()
+        ctx.translate(x, y)
+        ctx.rotate(config.pinAngle * Math.PI / 180)
+        const r = config.pinRadius
+        ctx.moveTo(0, -r)
+        ctx.lineTo(r * Math.cos(Math.PI / 6), r * Math.sin(Math.PI / 6))
+        ctx.lineTo(-r * Math.cos(Math.PI / 6), r * Math.sin(Math.PI / 6))
+        ctx.closePath()
+        ctx.restore()
+      }
+      
+      ctx.fill()
+
+      // Pin highlight (glass effect)
+      ctx.fillStyle = "rgba(255, 255, 255, 0.3)"
+      ctx.beginPath()
+      ctx.arc(x - config.pinRadius * 0.3, y - config.pinRadius * 0.3, config.pinRadius * 0.4, 0, Math.PI * 2)
+      ctx.fill()
+    })
+
+    // Draw bumpers, spinners, deflectors and gates
+    simulation.obstacles.forEach(placed => {
+      const { obstacle, body } = placed
+      if (obstacle.type === "bumper") {
+        const reach = obstacle.size + config.ballRadius * 2
+        const hit = this.hitPins.find(
+          h => Math.abs(h.x - body.position.x) < reach && Math.abs(h.y - body.position.y) < reach
+        )
+        drawBumper(ctx, placed, theme, hit != null ? (1 - (now - hit.time) / 300) * hit.intensity : 0)
+      } else if (obstacle.type === "spinner") {
+        drawSpinner(ctx, placed, theme)
+      } else if (obstacle.type === "deflector") {
+        drawDeflector(ctx, placed, theme)
+      } else if (obstacle.type === "gate") {
+        drawGate(ctx, placed, theme)
+      }
+    })
+
+    // Grid pins aren't placed obstacles, so fall back to their `pin-row-col` label
+    const selectedId = view.selectedObstacleId
+    if (selectedId != null) {
+      const selected = simulation.obstacles.find(placed => placed.obstacle.id === selectedId)
+      if (selected != null && selected.obstacle.type !== "pin") {
+        const { obstacle } = selected
+        drawSelection(ctx, selected.body, obstacle.type === "bumper" ? obstacle.size : obstacle.size / 2)
+      } else {
+        const pin = simulation.pins.find(body => body.label === `pin-${selectedId}`)
+        if (pin != null) drawSelection(ctx, pin, config.pinRadius)
+      }
+    }
+
+    // Aim preview: a ghost ball in the player's color and a guide down to the pins
+    const aim = view.aim
+    if (aim != null) {
+      const color = playerColor(aim.ownerId)
+      ctx.strokeStyle = color
+      ctx.lineWidth = 2
+      ctx.setLineDash([6, 4])
+      ctx.beginPath()
+      ctx.moveTo(aim.x, config.ballRadius * 2)
+      ctx.lineTo(aim.x, config.ceilingGap)
+      ctx.stroke()
+      ctx.setLineDash([])
+      ctx.globalAlpha = 0.6
+      ctx.fillStyle = color
+      ctx.beginPath()
+      ctx.arc(aim.x, config.ballRadius, config.ballRadius, 0, Math.PI * 2)
+      ctx.fill()
+      ctx.globalAlpha = 1
+    }
+
+    // Draw balls with trails
+    const balls = simulation.balls
+    balls.forEach(ball => {
+      const { x, y } = ball.position
+      const ballId = ball.id
+      // Player-dropped balls wear their owner's color
+      const ownerId = simulation.ballOwners.get(ballId)
+      const ownerColor = ownerId != null ? playerColor(ownerId) : null
+
+      // Update trail
+      let trail = this.trails.get(ballId) ?? []
+      trail.unshift({ x, y, alpha: 1 })
+      trail = trail.slice(0, 8).map((point, i) => ({ ...point, alpha: 1 - i * 0.12 }))
+      this.trails.set(ballId, trail)
+
+      // Draw trail
+      trail.forEach((point, i) => {
+        if (i === 0) return
+        const alpha = point.alpha * 0.5
+        if (ownerColor != null) {
+          ctx.fillStyle = ownerColor
+          ctx.globalAlpha = alpha * 0.6
+        } else {
+          ctx.fillStyle = withAlpha(theme.ballTrail, alpha)
+        }
+        ctx.beginPath()
+        ctx.arc(point.x, point.y, config.ballRadius * (1 - i * 0.08), 0, Math.PI * 2)
+        ctx.fill()
+        ctx.globalAlpha = 1
+      })
+
+      // Ball shadow
+      ctx.fillStyle = "rgba(0, 0, 0, 0.15)"
+      ctx.beginPath()
+      ctx.ellipse(x + 2, y + 4, config.ballRadius * 0.9, config.ballRadius * 0.5, 0, 0, Math.PI * 2)
+      ctx.fill()
+
+      // Ball body with gradient
+      const ballGradient = ctx.createRadialGradient(
+        x - config.ballRadius * 0.3,
+        y - config.ballRadius * 0.3,
+        0,
+        x,
+        y,
+        config.ballRadius
+      )
+      ballGradient.addColorStop(0, ownerColor ?? theme.ballGradientStart)
+      ballGradient.addColorStop(1, ownerColor ?? theme.ballGradientEnd)
+      
+      ctx.fillStyle = ballGradient
+      ctx.beginPath()
+      
+      if (config.ballShape === "ball") {
+        ctx.arc(x, y, config.ballRadius, 0, Math.PI * 2)
+      } else if (config.ballShape === "square") {
+        const size = config.ballRadius * 2
+        ctx.save()
+        ctx.translate(x, y)
+        ctx.rotate(ball.angle)
+        ctx.rect(-size / 2, -size / 2, size, size)
+        ctx.restore()
+      } else if (config.ballShape === "triangle") {
+        ctx.save()
+        ctx.translate(x, y)
+        ctx.rotate(ball.angle)
+        const r = config.ballRadius
+        ctx.moveTo(0, -r)
+        ctx.lineTo(r * Math.cos(Math.PI / 6), r * Math.sin(Math.PI / 6))
+        ctx.lineTo(-r * Math.cos(Math.PI / 6), r * Math.sin(Math.PI / 6))
+        ctx.closePath()
+        ctx.restore()
+      }
+      
+      ctx.fill()
+
+      // Ball highlight (glass effect)
+      ctx.fillStyle = "rgba(255, 255, 255, 0.4)"
+      ctx.beginPath()
+      ctx.arc(
+        x - config.ballRadius * 0.3,
+        y - config.ballRadius * 0.3,
+        config.ballRadius * 0.35,
+        0,
+        Math.PI * 2
+      )
+      ctx.fill()
+    })
+
+    // Clean up trails for removed balls
+    const ballIds = new Set(balls.map(b => b.id))
+    this.trails.forEach((_, id) => {
+      if (!ballIds.has(id)) {
+        this.trails.delete(id)
+      }
+    })
+  }
+}
+
+/**
+ * FPS / physics step overlay in the board's top-left corner
+ */
+export function drawStats(ctx: BoardContext, stats: BoardStats): void {
+  const lines = [
+    `${stats.fps.toFixed(0)} fps · ${stats.frameMs.toFixed(1)} ms/frame`,
+    `${stats.stepsPerSecond.toFixed(0)} steps/s · ${stats.balls} balls`,
+    stats.thread === "worker" ? "worker (OffscreenCanvas)" : "main thread",
+  ]
+  ctx.save()
+  ctx.font = "11px ui-monospace, monospace"
+  ctx.textAlign = "left"
+  ctx.textBaseline = "top"
+  const width = Math.max(...lines.map(line => ctx.measureText(line).width)) + 12
+  ctx.fillStyle = "rgba(15, 23, 42, 0.75)"
+  ctx.beginPath()
+  ctx.roundRect(8, 8, width, lines.length * 14 + 8, 6)
+  ctx.fill()
+  ctx.fillStyle = "#e2e8f0"
+  lines.forEach((line, i) => ctx.fillText(line, 14, 12 + i * 14))
+  ctx.restore()
+}
+
+/**
+ * Winner banner across the middle of the board, in the board's colors
+ */
+export function drawBanner(ctx: BoardContext, config: PlinkoConfig, theme: RenderTheme, text: string): void {
+  const { width, height } = config
+  const bannerHeight = 64
+  const top = height * 0.4 - bannerHeight / 2
+  ctx.save()
+  ctx.fillStyle = withAlpha(theme.background, 0.85)
+  ctx.fillRect(0, top, width, bannerHeight)
+  ctx.fillStyle = theme.bucketHighlight
+  ctx.fillRect(0, top, width, 3)
+  ctx.fillRect(0, top + bannerHeight - 3, width, 3)
+  ctx.font = "bold 28px system-ui, sans-serif"
+  ctx.textAlign = "center"
+  ctx.textBaseline = "middle"
+  ctx.fillStyle = isDarkColor(theme.background) ? "#f8fafc" : "#0f172a"
+  ctx.fillText(text, width / 2, top + bannerHeight / 2, width - 32)
+  ctx.restore()
+}
@@ -0,0 +1,339 @@
+import type { BoardObstacle, BucketModifierType, PlayerDrop, PlinkoConfig, PlinkoRoundResult } from "../types"
+import { PlinkoSimulation, FIXED_TIMESTEP_MS } from "../simulation/PlinkoSimulation"
+import { createParticleEmitter, themedParticlePresets } from "../utils/particles"
+import { lightTheme } from "../utils/theme"
+import {
+  BoardRenderer,
+  drawBanner,
+  drawStats,
+  type BoardContext,
+  type BoardStats,
+  type BoardThread,
+  type BoardView,
+} from "./BoardRenderer"
+
+// Upper bound on catch-up steps per frame (e.g. after the tab was backgrounded)
+const MAX_STEPS_PER_FRAME = 5
+
+// Frame statistics are averaged over windows of this length
+const STATS_WINDOW_MS = 500
+
+// Playback position is reported at most this often
+const PROGRESS_INTERVAL_MS = 100
+
+/**
+ * A canvas on the page, or one handed to the board worker with transferControlToOffscreen
+ */
+export type BoardCanvas = HTMLCanvasElement | OffscreenCanvas
+
+/**
+ * requestAnimationFrame, or a timer standing in for it where frames aren't available
+ */
+export interface FrameScheduler {
+  request: (callback: (time: number) => void) => number
+  cancel: (id: number) => void
+}
+
+/**
+ * Everything needed to build a board; each setup starts a fresh seeded simulation
+ */
+export interface BoardSetup {
+  config: PlinkoConfig
+  seed: number
+  /** Relative bucket widths (empty = use the distribution as-is) */
+  bucketWeights: number[]
+  /** Player id per bucket, for ball ownership in the "players" drop mode */
+  bucketOwners: string[]
+  /** Whether balls should be dropped on the configured schedule */
+  isDropping: boolean
+  /** Drops made elsewhere, replayed on their steps */
+  playerDrops: PlayerDrop[]
+  /** Simulation steps to skip silently (spectators joining mid-round) */
+  initialStep: number
+}
+
+/**
+ * Commands from the page to the board loop
+ */
+export type BoardCommand =
+  | { type: "reset"; setup: BoardSetup }
+  | { type: "update"; config: PlinkoConfig; isDropping: boolean; bucketOwners: string[] }
+  | { type: "view"; view: Partial<BoardView> }
+  | { type: "queueDrops"; drops: PlayerDrop[] }
+  | { type: "aimDrop"; x: number }
+  | { type: "moveObstacle"; obstacle: BoardObstacle; x: number; y: number }
+  /** Replay controls: speed multiplier, pause, and jumping to a step */
+  | { type: "playback"; speed: number; paused: boolean }
+  | { type: "seek"; step: number }
+
+/**
+ * What the board loop reports back; everything else stays inside the loop
+ */
+export type BoardEvent =
+  | { type: "ballSettle"; bucketIndex: number; modifier?: BucketModifierType }
+  | { type: "collision"; velocity: number }
+  | { type: "tiebreaker"; roundNumber: number; tiedBuckets: number[] }
+  | { type: "gameEnd"; winningBuckets: number[]; result: PlinkoRoundResult; step: number }
+  | { type: "turn"; ownerId: string | null }
+  | { type: "playerDrop"; drop: PlayerDrop }
+  /** Current step, reported once playback controls are in use */
+  | { type: "progress"; step: number }
+
+/**
+ * One frame loop for a board: steps the simulation on a fixed timestep, then
+ * draws the board, particles and stats overlay. Runs the same way on the page
+ * and inside the board worker; only `emit` and the frame scheduler differ.
+ */
+export class BoardRunner {
+  private readonly ctx: BoardContext | null
+  private readonly canvas: BoardCanvas
+  private readonly thread: BoardThread
+  private readonly emit: (event: BoardEvent) => void
+  private readonly scheduler: FrameScheduler
+  private readonly renderer = new BoardRenderer()
+  private readonly particles = createParticleEmitter()
+  private particlePresets = themedParticlePresets(lightTheme)
+  private simulation: PlinkoSimulation | null = null
+  private setup: BoardSetup | null = null
+  private config: PlinkoConfig | null = null
+  private view: BoardView = {
+    theme: lightTheme,
+    winningBuckets: [],
+    selectedObstacleId: null,
+    aim: null,
+    showStats: false,
+    banner: null,
+  }
+  private frameId: number | null = null
+  private lastTime: number | null = null
+  private accumulator = 0
+  private speed = 1
+  private paused = false
+  // null until playback controls are used; then the last reported step and when
+  private progress: { step: number; time: number } | null = null
+  private now = 0
+  // Hardest hit since the last frame - at most one collision sound per frame
+  private pendingCollision = 0
+  // undefined until the first turn of a board has been reported
+  private turnOwnerId: string | null | undefined = undefined
+  private statsWindow = { start: 0, frames: 0, steps: 0, busyMs: 0 }
+  private stats: BoardStats | null = null
+
+  constructor(canvas: BoardCanvas, thread: BoardThread, emit: (event: BoardEvent) => void, scheduler: FrameScheduler) {
+    this.canvas = canvas
+    this.thread = thread
+    this.emit = emit
+    this.scheduler = scheduler
+    this.ctx = canvas.getContext("2d")
+    this.frameId = scheduler.request(this.frame)
+  }
+
+  handle(command: BoardCommand): void {
+    switch (command.type) {
+      case "reset":
+        this.reset(command.setup)
+        break
+      case "update":
+        this.config = command.config
+        if (this.simulation != null) {
+          this.simulation.setConfig(command.config)
+          this.simulation.isDropping = command.isDropping
+          this.simulation.bucketOwners = command.bucketOwners
+        }
+        break
+      case "view":
+        if (command.view.theme != null && command.view.theme !== this.view.theme) {
+          this.particlePresets = themedParticlePresets(command.view.theme)
+        }
+        if (command.view.banner != null && this.view.banner == null && this.config != null) {
+          this.celebrate(this.config)
+        }
+        this.view = { ...this.view, ...command.view }
+        break
+      case "queueDrops":
+        command.drops.forEach(drop => this.simulation?.queuePlayerDrop(drop))
+        break
+      case "aimDrop": {
+        const drop = this.simulation?.aimPlayerDrop(command.x) ?? null
+        if (drop != null) {
+          // The next player aims from scratch
+          this.view = { ...this.view, aim: null }
+          this.emit({ type: "playerDrop", drop })
+        }
+        break
+      }
+      case "moveObstacle":
+        this.simulation?.moveObstacle(command.obstacle, command.x, command.y)
+        break
+      case "playback":
+        this.speed = command.speed
+        this.paused = command.paused
+        this.progress ??= { step: -1, time: 0 }
+        break
+      case "seek":
+        this.seek(command.step)
+        break
+    }
+  }
+
+  destroy(): void {
+    if (this.frameId !== null) this.scheduler.cancel(this.frameId)
+    this.frameId = null
+    this.simulation?.destroy()
+    this.simulation = null
+  }
+
+  private reset(setup: BoardSetup): void {
+    const { config } = setup
+    this.setup = setup
+    this.simulation?.destroy()
+    this.renderer.clear()
+    this.particles.clear()
+    this.config = config
+    this.lastTime = null
+    this.accumulator = 0
+    this.pendingCollision = 0
+    this.turnOwnerId = undefined
+    if (this.canvas.width !== config.width) this.canvas.width = config.width
+    if (this.canvas.height !== config.height) this.canvas.height = config.height
+
+    const simulation = new PlinkoSimulation(config, setup.seed, {}, setup.bucketWeights)
+    simulation.isDropping = setup.isDropping
+    simulation.bucketOwners = setup.bucketOwners
+    // Replay drops made elsewhere before catching up, so they land on their step
+    setup.playerDrops.forEach(drop => simulation.queuePlayerDrop(drop))
+    if (setup.initialStep > 0) simulation.fastForward(setup.initialStep)
+    simulation.setEvents({
+      onBallSettle: (bucketIndex, modifier) => this.handleBallSettle(bucketIndex, modifier),
+      onCollision: (velocity, position, obstaclePosition) => {
+        this.renderer.registerPinHit(obstaclePosition.x, obstaclePosition.y, velocity, this.now)
+        // Small particle burst for significant impacts
+        if (velocity > 3) {
+          this.particles.addBurst(position.x, position.y, 3, {
+            ...this.particlePresets.collision,
+            minSpeed: velocity * 0.3,
+            maxSpeed: velocity * 0.6,
+          })
+        }
+        this.pendingCollision = Math.max(this.pendingCollision, velocity)
+      },
+      onTiebreaker: (roundNumber, tiedBuckets) => this.emit({ type: "tiebreaker", roundNumber, tiedBuckets }),
+      onGameEnd: (winningBuckets, result) => {
+        this.emit({ type: "gameEnd", winningBuckets, result, step: simulation.stepCount })
+      },
+    })
+    this.simulation = simulation
+  }
+
+  // Jumping back rebuilds the board and catches up silently; jumping ahead just catches up
+  private seek(step: number): void {
+    if (this.setup == null) return
+    if (this.simulation == null || step < this.simulation.stepCount) {
+      this.reset({ ...this.setup, initialStep: step })
+    } else {
+      this.simulation.fastForward(step - this.simulation.stepCount)
+    }
+    this.reportProgress(this.now, true)
+  }
+
+  private reportProgress(time: number, force: boolean): void {
+    const step = this.simulation?.stepCount ?? 0
+    const progress = this.progress
+    if (progress == null || step === progress.step) return
+    if (!force && time - progress.time < PROGRESS_INTERVAL_MS) return
+    this.progress = { step, time }
+    this.emit({ type: "progress", step })
+  }
+
+  // Confetti from the top of the board when a winner banner appears
+  private celebrate(config: PlinkoConfig): void {
+    for (let i = 1; i <= 4; i++) {
+      this.particles.addBurst(config.width * i / 5, 0, 25, this.particlePresets.confetti)
+    }
+  }
+
+  private handleBallSettle(bucketIndex: number, modifier?: BucketModifierType): void {
+    const bounds = this.simulation?.bucketBounds ?? []
+    if (this.config != null && bounds.length > bucketIndex + 1) {
+      // Particle effect at the bucket - bigger, or in warning colors, for special buckets
+      const bucketX = (bounds[bucketIndex] + bounds[bucketIndex + 1]) / 2
+      const bucketY = this.config.height - 30
+      if (modifier === "jackpot") {
+        this.particles.addBurst(bucketX, bucketY, 30, this.particlePresets.win)
+      } else if (modifier === "reset" || modifier === "steal") {
+        this.particles.addBurst(bucketX, bucketY, 12, this.particlePresets.penalty)
+      } else {
+        this.particles.addBurst(bucketX, bucketY, modifier === "double" ? 16 : 8, this.particlePresets.bucket)
+      }
+    }
+    this.emit({ type: "ballSettle", bucketIndex, modifier })
+  }
+
+  // Fixed-timestep loop: wall-clock time only decides how many steps to run,
+  // never how far each step advances the simulation
+  private frame = (time: number): void => {
+    const started = performance.now()
+    this.now = time
+    const simulation = this.simulation
+    let steps = 0
+
+    if (simulation != null && !simulation.ended) {
+      if (this.lastTime !== null && !this.paused) {
+        this.accumulator = Math.min(
+          this.accumulator + (time - this.lastTime) * this.speed,
+          FIXED_TIMESTEP_MS * MAX_STEPS_PER_FRAME * Math.max(1, this.speed)
+        )
+      }
+      this.lastTime = time
+      // Game over freezes physics - balls stay in place
+      while (this.accumulator >= FIXED_TIMESTEP_MS && !simulation.ended) {
+        simulation.step()
+        this.accumulator -= FIXED_TIMESTEP_MS
+        steps++
+      }
+    }
+
+    if (this.pendingCollision > 0) {
+      this.emit({ type: "collision", velocity: this.pendingCollision })
+      this.pendingCollision = 0
+    }
+    if (simulation != null) {
+      const ownerId = simulation.nextTurnOwner()
+      if (ownerId !== this.turnOwnerId) {
+        this.turnOwnerId = ownerId
+        this.emit({ type: "turn", ownerId })
+      }
+    }
+
+    this.particles.update()
+    if (this.ctx != null && simulation != null && this.config != null) {
+      this.renderer.draw(this.ctx, simulation, this.config, this.view, time)
+      if (this.view.banner != null) drawBanner(this.ctx, this.config, this.view.theme, this.view.banner)
+      this.particles.draw(this.ctx)
+      if (this.view.showStats && this.stats != null) drawStats(this.ctx, this.stats)
+    }
+
+    this.reportProgress(time, simulation?.ended ?? false)
+
+    this.measure(time, steps, performance.now() - started)
+    this.frameId = this.scheduler.request(this.frame)
+  }
+
+  private measure(time: number, steps: number, busyMs: number): void {
+    const sample = this.statsWindow
+    if (sample.frames === 0) sample.start = time
+    sample.frames++
+    sample.steps += steps
+    sample.busyMs += busyMs
+    const elapsed = time - sample.start
+    if (elapsed < STATS_WINDOW_MS) return
+    this.stats = {
+      fps: (sample.frames - 1) * 1000 / elapsed,
+      stepsPerSecond: sample.steps * 1000 / elapsed,
+      frameMs: sample.busyMs / sample.frames,
+      balls: this.simulation?.balls.length ?? 0,
+      thread: this.thread,
+    }
+    this.statsWindow = { start: time, frames: 1, steps: 0, busyMs: 0 }
+  }
+}
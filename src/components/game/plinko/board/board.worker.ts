@@ -0,0 +1,45 @@
+import { BoardRunner, type BoardCommand, type BoardEvent, type FrameScheduler } from "./BoardRunner"
+
+export type BoardWorkerRequest =
+  | { type: "init"; canvas: OffscreenCanvas }
+  | BoardCommand
+
+export type BoardWorkerMessage =
+  | BoardEvent
+  | { type: "error"; message: string }
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<BoardWorkerRequest>) => void) | null
+  postMessage: (message: BoardWorkerMessage) => void
+  requestAnimationFrame?: (callback: (time: number) => void) => number
+  cancelAnimationFrame?: (id: number) => void
+}
+
+// Dedicated workers get animation frames in most browsers; elsewhere a 60 Hz timer stands in
+const requestFrame = ctx.requestAnimationFrame?.bind(self)
+const cancelFrame = ctx.cancelAnimationFrame?.bind(self)
+const scheduler: FrameScheduler = requestFrame != null && cancelFrame != null
+  ? { request: requestFrame, cancel: cancelFrame }
+  : {
+    request: callback => self.setTimeout(() => callback(performance.now()), 1000 / 60),
+    cancel: id => self.clearTimeout(id),
+  }
+
+let runner: BoardRunner | null = null
+
+ctx.onmessage = event => {
+  const request = event.data
+  try {
+    if (request.type === "init") {
+      runner?.destroy()
+      runner = new BoardRunner(request.canvas, "worker", message => ctx.postMessage(message), scheduler)
+    } else {
+      runner?.handle(request)
+    }
+  } catch (error) {
+    ctx.postMessage({
+      type: "error",
+      message: error instanceof Error ? error.message : "Board worker failed",
+    })
+  }
+}
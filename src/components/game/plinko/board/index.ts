@@ -0,0 +1,2 @@
+export * from "./BoardRenderer"
+export * from "./BoardRunner"
@@ -1,3 +1,9 @@
-export * from "./usePlinkoPhysics"
-export * from "./usePlinkoRender"
+export * from "./usePlinkoBoard"
 export * from "./useGameSounds"
+export * from "./useFairnessReport"
+export * from "./useBoardEditor"
+export * from "./usePlayerDrops"
+export * from "./useBoardTheme"
+export * from "./useAttendance"
+export * from "./useSeasons"
+export * from "./useAuditLog"
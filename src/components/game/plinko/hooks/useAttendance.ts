@@ -0,0 +1,81 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import type { AttendanceDay, AttendanceEvent } from "../types"
+import { applyAttendanceEvent, computeAttendance, type PlayerAttendance } from "../utils/attendance"
+
+const attendanceStorageKey = "plinko.attendance.v1"
+
+async function loadAttendanceFromAPI(): Promise<AttendanceDay[] | null> {
+  try {
+    const response = await fetch("/api/plinko/attendance")
+    if (!response.ok) return null
+    const data = await response.json()
+    if (data.fallback === true || !Array.isArray(data.days)) return null
+    return data.days
+  } catch {
+    return null
+  }
+}
+
+async function saveAttendanceEventToAPI(event: AttendanceEvent): Promise<boolean> {
+  try {
+    const response = await fetch("/api/plinko/attendance", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ event })
+    })
+    if (!response.ok) return false
+    const data = await response.json()
+    return data.fallback !== true && data.success === true
+  } catch {
+    return false
+  }
+}
+
+function loadLocalAttendance(): AttendanceDay[] {
+  try {
+    const stored = localStorage.getItem(attendanceStorageKey)
+    if (stored == null) return []
+    const parsed = JSON.parse(stored) as AttendanceDay[]
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export interface UseAttendanceReturn {
+  /** Attendance and normalized wins by player id */
+  attendance: Map<string, PlayerAttendance>
+  record: (event: AttendanceEvent) => void
+}
+
+/**
+ * Hook that keeps the daily attendance record - from the API, or localStorage
+ * without storage - and adds round check-ins and wins to it
+ */
+export function useAttendance(): UseAttendanceReturn {
+  const [days, setDays] = useState<AttendanceDay[]>([])
+
+  useEffect(() => {
+    async function loadAttendance() {
+      setDays(await loadAttendanceFromAPI() ?? loadLocalAttendance())
+    }
+    loadAttendance()
+  }, [])
+
+  const record = useCallback((event: AttendanceEvent) => {
+    setDays(prev => {
+      const updated = applyAttendanceEvent(prev, event)
+      try {
+        localStorage.setItem(attendanceStorageKey, JSON.stringify(updated))
+      } catch {}
+      return updated
+    })
+    void saveAttendanceEventToAPI(event)
+  }, [])
+
+  const attendance = useMemo(() => computeAttendance(days), [days])
+
+  return { attendance, record }
+}
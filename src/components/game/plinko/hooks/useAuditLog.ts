@@ -0,0 +1,124 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { AuditContext, AuditEvent, PlayerProfile, PlinkoConfig } from "../types"
+import { parsePlayers } from "../schema"
+import { appendAuditEvent, makePlayersAuditEvent, revertPlayers } from "../utils/audit"
+
+const auditStorageKey = "plinko.audit.v1"
+
+/**
+ * A reverted roster, with its new server version (null when it was reverted
+ * locally and still needs saving and logging), or the reverted config fields
+ */
+export type AuditRevertResult =
+  | { target: "players"; players: PlayerProfile[]; version: number | null }
+  | { target: "config"; config: Partial<PlinkoConfig> }
+
+async function loadAuditFromAPI(): Promise<AuditEvent[] | null> {
+  try {
+    const response = await fetch("/api/plinko/audit?limit=100")
+    if (!response.ok) return null
+    const data = await response.json()
+    if (data.fallback === true || !Array.isArray(data.events)) return null
+    return data.events
+  } catch {
+    return null
+  }
+}
+
+async function revertAuditToAPI(id: string, audit: AuditContext): Promise<AuditRevertResult | null> {
+  try {
+    const response = await fetch(`/api/plinko/audit/${encodeURIComponent(id)}/revert`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ audit })
+    })
+    if (!response.ok) return null
+    const data = await response.json()
+    if (data.fallback === true) return null
+    if (data.config != null) return { target: "config", config: data.config }
+    return Array.isArray(data.players)
+      ? { target: "players", players: parsePlayers(data.players), version: data.version }
+      : null
+  } catch {
+    return null
+  }
+}
+
+function loadLocalAudit(): AuditEvent[] {
+  try {
+    const stored = localStorage.getItem(auditStorageKey)
+    if (stored == null) return []
+    const parsed = JSON.parse(stored) as AuditEvent[]
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export interface UseAuditLogReturn {
+  /** Roster and config changes, newest first */
+  events: AuditEvent[]
+  refresh: () => Promise<void>
+  /** Log a roster change. The server logs its own writes, so this only does anything without storage. */
+  recordPlayersChange: (before: PlayerProfile[], after: PlayerProfile[], audit: AuditContext) => void
+  /**
+   * Undo a logged change on top of `players`. Without storage only roster
+   * changes can be reverted, and the caller saves (and so logs) the result.
+   */
+  revert: (eventId: string, players: PlayerProfile[], audit: AuditContext) => Promise<AuditRevertResult | null>
+}
+
+/**
+ * Hook that keeps the audit log of roster and config changes - from the API,
+ * or localStorage without storage
+ */
+export function useAuditLog(): UseAuditLogReturn {
+  const [events, setEvents] = useState<AuditEvent[]>([])
+  const isLocalRef = useRef(false)
+
+  const refresh = useCallback(async () => {
+    const apiEvents = await loadAuditFromAPI()
+    isLocalRef.current = apiEvents == null
+    setEvents(apiEvents ?? loadLocalAudit())
+  }, [])
+
+  // Load on mount so writes know whether to log locally
+  useEffect(() => {
+    async function loadAudit() {
+      await refresh()
+    }
+    loadAudit()
+  }, [refresh])
+
+  const recordPlayersChange = useCallback((before: PlayerProfile[], after: PlayerProfile[], audit: AuditContext) => {
+    if (!isLocalRef.current) return
+    const event = makePlayersAuditEvent(before, after, audit, Date.now())
+    if (event == null) return
+    setEvents(prev => {
+      const next = appendAuditEvent(prev, event)
+      try {
+        localStorage.setItem(auditStorageKey, JSON.stringify(next))
+      } catch {}
+      return next
+    })
+  }, [])
+
+  const revert = useCallback(async (
+    eventId: string,
+    players: PlayerProfile[],
+    audit: AuditContext
+  ): Promise<AuditRevertResult | null> => {
+    if (isLocalRef.current) {
+      const event = events.find(e => e.id === eventId)
+      if (event == null || event.target !== "players") return null
+      return { target: "players", players: revertPlayers(players, event.changes), version: null }
+    }
+    const result = await revertAuditToAPI(eventId, audit)
+    if (result != null) await refresh()
+    return result
+  }, [events, refresh])
+
+  return { events, refresh, recordPlayersChange, revert }
+}
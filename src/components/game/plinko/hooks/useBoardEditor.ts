@@ -0,0 +1,108 @@
+"use client"
+
+import { useRef, useCallback } from "react"
+import type { BoardObstacle, PlinkoConfig } from "../types"
+import { configSchema } from "../schema"
+import {
+  createObstacle,
+  editableObstacles,
+  findObstacleAt,
+  toBoardLayout,
+  type BoardEditorTool,
+  type BoardLayout,
+} from "../utils/boardEditor"
+
+export interface UseBoardEditorOptions {
+  config: PlinkoConfig
+  /** Active tool, or null when the editor is closed */
+  tool: BoardEditorTool | null
+  onSelectObstacle?: (id: string | null) => void
+  onLayoutChange?: (layout: BoardLayout) => void
+  /** Move the obstacle's live body while it's dragged */
+  onMoveObstacle?: (obstacle: BoardObstacle, x: number, y: number) => void
+}
+
+export interface UseBoardEditorReturn {
+  onPointerDown: (e: React.PointerEvent<HTMLElement>) => void
+  onPointerMove: (e: React.PointerEvent<HTMLElement>) => void
+  onPointerUp: (e: React.PointerEvent<HTMLElement>) => void
+  cursor: string | undefined
+}
+
+/**
+ * Board pointer handling for the board editor: place, pick, drag and erase
+ * obstacles. Dragging moves the live body; the layout is saved on release.
+ */
+export function useBoardEditor({
+  config,
+  tool,
+  onSelectObstacle,
+  onLayoutChange,
+  onMoveObstacle,
+}: UseBoardEditorOptions): UseBoardEditorReturn {
+  const dragRef = useRef<{ obstacle: BoardObstacle; x: number; y: number; moved: boolean } | null>(null)
+
+  // Pointer position in board pixels (the board may be scaled by CSS)
+  const toBoardPoint = useCallback((e: React.PointerEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return {
+      x: Math.min(config.width, Math.max(0, (e.clientX - rect.left) * (config.width / rect.width))),
+      y: Math.min(config.height, Math.max(0, (e.clientY - rect.top) * (config.height / rect.height)))
+    }
+  }, [config.width, config.height])
+
+  const onPointerDown = useCallback((e: React.PointerEvent<HTMLElement>) => {
+    if (tool == null) return
+    const { x, y } = toBoardPoint(e)
+    const obstacles = editableObstacles(config)
+    const hit = findObstacleAt(obstacles, config, x, y)
+
+    if (tool === "erase") {
+      if (hit == null) return
+      onLayoutChange?.(toBoardLayout(config, obstacles.filter(o => o.id !== hit.id), hit))
+      onSelectObstacle?.(null)
+      return
+    }
+
+    // Placing tools drop a new obstacle on empty board, but still pick up existing ones
+    if (hit == null && tool !== "select") {
+      if (obstacles.length >= configSchema.obstacles.max) return
+      const obstacle = createObstacle(tool, x / config.width, y / config.height)
+      onLayoutChange?.(toBoardLayout(config, [...obstacles, obstacle], obstacle))
+      onSelectObstacle?.(obstacle.id)
+      return
+    }
+
+    onSelectObstacle?.(hit?.id ?? null)
+    if (hit != null) {
+      e.currentTarget.setPointerCapture(e.pointerId)
+      dragRef.current = { obstacle: hit, x, y, moved: false }
+    }
+  }, [tool, config, toBoardPoint, onLayoutChange, onSelectObstacle])
+
+  const onPointerMove = useCallback((e: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current
+    if (drag == null) return
+    const { x, y } = toBoardPoint(e)
+    dragRef.current = { ...drag, x, y, moved: true }
+    onMoveObstacle?.(drag.obstacle, x, y)
+  }, [onMoveObstacle, toBoardPoint])
+
+  const onPointerUp = useCallback(() => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (drag == null || !drag.moved) return
+    const moved: BoardObstacle = { ...drag.obstacle, x: drag.x / config.width, y: drag.y / config.height }
+    const obstacles = editableObstacles(config).map(o => o.id === moved.id ? moved : o)
+    onLayoutChange?.(toBoardLayout(config, obstacles, moved))
+  }, [config, onLayoutChange])
+
+  const cursor = tool == null ? undefined : tool === "select" ? "pointer" : "crosshair"
+
+  return {
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    cursor,
+  }
+}
@@ -0,0 +1,76 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react"
+import type { RenderTheme } from "../types"
+import { resolveRenderTheme, type ThemePreference } from "../utils/theme"
+
+const preferenceStorageKey = "plinko.theme"
+const darkSchemeQuery = "(prefers-color-scheme: dark)"
+
+// Hooks in this tab re-read the preference when it's set here; other tabs get a storage event
+const preferenceListeners = new Set<() => void>()
+
+const readPreference = (): ThemePreference => {
+  const stored = localStorage.getItem(preferenceStorageKey)
+  return stored === "light" || stored === "dark" ? stored : "system"
+}
+
+const subscribePreference = (listener: () => void) => {
+  preferenceListeners.add(listener)
+  window.addEventListener("storage", listener)
+  return () => {
+    preferenceListeners.delete(listener)
+    window.removeEventListener("storage", listener)
+  }
+}
+
+const readSystemIsDark = (): boolean => window.matchMedia(darkSchemeQuery).matches
+
+const subscribeSystem = (listener: () => void) => {
+  const query = window.matchMedia(darkSchemeQuery)
+  query.addEventListener("change", listener)
+  return () => query.removeEventListener("change", listener)
+}
+
+export interface UseBoardThemeReturn {
+  preference: ThemePreference
+  setPreference: (preference: ThemePreference) => void
+  /** Whether the page is in dark mode (the preference, or the OS setting under "system") */
+  isDark: boolean
+  /** Board colors: the custom theme if given, otherwise the light or dark palette */
+  theme: RenderTheme
+}
+
+/**
+ * Light/dark mode for the page and the board. Follows the OS color scheme
+ * unless the viewer picks one; the choice is remembered in localStorage and
+ * applied to the page via the `dark` class on <html>.
+ */
+export function useBoardTheme(customTheme: RenderTheme | null = null): UseBoardThemeReturn {
+  // Server render (and hydration) assume light, then pick up the real values
+  const preference = useSyncExternalStore(subscribePreference, readPreference, () => "system" as const)
+  const systemIsDark = useSyncExternalStore(subscribeSystem, readSystemIsDark, () => false)
+  const isDark = preference === "system" ? systemIsDark : preference === "dark"
+
+  useEffect(() => {
+    document.documentElement.classList.toggle("dark", isDark)
+  }, [isDark])
+
+  const setPreference = useCallback((next: ThemePreference) => {
+    if (next === "system") {
+      localStorage.removeItem(preferenceStorageKey)
+    } else {
+      localStorage.setItem(preferenceStorageKey, next)
+    }
+    preferenceListeners.forEach(listener => listener())
+  }, [])
+
+  const theme = useMemo(() => resolveRenderTheme(customTheme, isDark), [customTheme, isDark])
+
+  return {
+    preference,
+    setPreference,
+    isDark,
+    theme,
+  }
+}
@@ -0,0 +1,85 @@
+"use client"
+
+import { useRef, useCallback, useEffect, useState } from "react"
+import type { PlinkoConfig } from "../types"
+import type { FairnessReport } from "../simulation/fairness"
+import type { FairnessWorkerMessage, FairnessWorkerRequest } from "../simulation/fairness.worker"
+import { makeRandomSeed } from "../utils/random"
+
+export interface UseFairnessReportReturn {
+  report: FairnessReport | null
+  isRunning: boolean
+  progress: number
+  error: string | null
+  /** Simulate `rounds` rounds of the board as it will be played, bucket weights included */
+  run: (config: PlinkoConfig, rounds: number, bucketWeights: number[]) => void
+  cancel: () => void
+}
+
+/**
+ * Hook that runs fairness simulations in a Web Worker so the board stays responsive
+ */
+export function useFairnessReport(): UseFairnessReportReturn {
+  const [report, setReport] = useState<FairnessReport | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+  const [progress, setProgress] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const workerRef = useRef<Worker | null>(null)
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setIsRunning(false)
+  }, [])
+
+  const run = useCallback((config: PlinkoConfig, rounds: number, bucketWeights: number[]) => {
+    // A fresh worker per batch - terminating is the only way to stop a running batch
+    workerRef.current?.terminate()
+    const worker = new Worker(new URL("../simulation/fairness.worker.ts", import.meta.url))
+    workerRef.current = worker
+
+    setIsRunning(true)
+    setProgress(0)
+    setError(null)
+
+    worker.onmessage = (event: MessageEvent<FairnessWorkerMessage>) => {
+      const message = event.data
+      switch (message.type) {
+        case "progress":
+          setProgress(message.completedRounds / message.totalRounds)
+          break
+        case "done":
+          setReport(message.report)
+          setIsRunning(false)
+          worker.terminate()
+          workerRef.current = null
+          break
+        case "error":
+          setError(message.message)
+          setIsRunning(false)
+          worker.terminate()
+          workerRef.current = null
+          break
+      }
+    }
+    worker.onerror = () => {
+      setError("Simulation worker failed")
+      setIsRunning(false)
+      worker.terminate()
+      workerRef.current = null
+    }
+
+    const request: FairnessWorkerRequest = { config, rounds, seed: makeRandomSeed(), bucketWeights }
+    worker.postMessage(request)
+  }, [])
+
+  // Stop any in-flight batch on unmount
+  useEffect(() => {
+    return () => {
+      workerRef.current?.terminate()
+      workerRef.current = null
+    }
+  }, [])
+
+  return { report, isRunning, progress, error, run, cancel }
+}
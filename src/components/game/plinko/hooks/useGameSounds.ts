@@ -17,6 +17,10 @@ export interface UseGameSoundsReturn {
   playBucket: () => void
   playWin: (winnerName?: string) => void
   playTiebreaker: () => void
+  /** Soft chime when a standup speaker is nearly out of time */
+  playWarning: () => void
+  /** Buzzer when a standup speaker runs out of time */
+  playTimeUp: () => void
   isMuted: boolean
   setMuted: (muted: boolean) => void
   volume: number
@@ -27,6 +31,8 @@ export interface UseGameSoundsReturn {
 const COLLISION_FREQUENCIES = [800, 900, 1000, 1100, 1200]
 const BUCKET_FREQUENCY = 600
 const WIN_FREQUENCIES = [523.25, 659.25, 783.99, 1046.5] // C5, E5, G5, C6
+const WARNING_FREQUENCIES = [880, 659.25] // A5, E5
+const TIME_UP_FREQUENCY = 196 // G3
 
 /**
  * Hook for managing game sound effects using Web Audio API
@@ -270,6 +276,26 @@ export function useGameSounds({
 
   }, [isMuted, initAudioContext])
 
+  // Standup warning - gentle two-note chime
+  const playWarning = useCallback(() => {
+    if (isMuted) return
+    WARNING_FREQUENCIES.forEach((freq, i) => {
+      setTimeout(() => {
+        playTone(freq, 0.4, "sine", 0.02, 0.3)
+      }, i * 180)
+    })
+  }, [isMuted, playTone])
+
+  // Standup time's up - three short low buzzes
+  const playTimeUp = useCallback(() => {
+    if (isMuted) return
+    for (let i = 0; i < 3; i++) {
+      setTimeout(() => {
+        playTone(TIME_UP_FREQUENCY, 0.18, "square", 0.005, 0.05)
+      }, i * 220)
+    }
+  }, [isMuted, playTone])
+
   // Cleanup
   useEffect(() => {
     return () => {
@@ -284,6 +310,8 @@ export function useGameSounds({
     playBucket,
     playWin,
     playTiebreaker,
+    playWarning,
+    playTimeUp,
     isMuted,
     setMuted,
     volume,
@@ -0,0 +1,87 @@
+"use client"
+
+import { useRef, useCallback } from "react"
+import type { PlinkoConfig } from "../types"
+import type { PlayerAim } from "../board"
+
+export interface UsePlayerDropsOptions {
+  config: PlinkoConfig
+  /** Player whose turn it is, or null when nobody may aim right now */
+  turnOwnerId: string | null
+  /** Show (or hide, with null) the aim on the board */
+  onAim: (aim: PlayerAim | null) => void
+  /** Drop the current player's ball at `x` */
+  onDrop: (x: number) => void
+}
+
+export interface UsePlayerDropsReturn {
+  onPointerDown: (e: React.PointerEvent<HTMLElement>) => void
+  onPointerMove: (e: React.PointerEvent<HTMLElement>) => void
+  onPointerUp: (e: React.PointerEvent<HTMLElement>) => void
+  onPointerLeave: () => void
+}
+
+/**
+ * Aiming for the "players" drop mode: the current player moves the pointer
+ * (or drags) along the board to aim, and releases to drop their ball
+ */
+export function usePlayerDrops({
+  config,
+  turnOwnerId,
+  onAim,
+  onDrop,
+}: UsePlayerDropsOptions): UsePlayerDropsReturn {
+  const aimRef = useRef<PlayerAim | null>(null)
+  const isPressedRef = useRef(false)
+
+  const setAim = useCallback((aim: PlayerAim | null) => {
+    aimRef.current = aim
+    onAim(aim)
+  }, [onAim])
+
+  // Aim at the pointer's x, in board pixels (the board may be scaled by CSS)
+  const updateAim = useCallback((e: React.PointerEvent<HTMLElement>) => {
+    if (turnOwnerId == null) {
+      if (aimRef.current != null) setAim(null)
+      return
+    }
+    const rect = e.currentTarget.getBoundingClientRect()
+    const x = (e.clientX - rect.left) * (config.width / rect.width)
+    setAim({
+      x: Math.min(config.width - config.ballRadius, Math.max(config.ballRadius, x)),
+      ownerId: turnOwnerId
+    })
+  }, [turnOwnerId, setAim, config.width, config.ballRadius])
+
+  const onPointerDown = useCallback((e: React.PointerEvent<HTMLElement>) => {
+    updateAim(e)
+    if (aimRef.current == null) return
+    e.currentTarget.setPointerCapture(e.pointerId)
+    isPressedRef.current = true
+  }, [updateAim])
+
+  const onPointerMove = useCallback((e: React.PointerEvent<HTMLElement>) => {
+    updateAim(e)
+  }, [updateAim])
+
+  const onPointerUp = useCallback(() => {
+    const wasPressed = isPressedRef.current
+    isPressedRef.current = false
+    const aim = aimRef.current
+    if (!wasPressed || aim == null) return
+    // The board clears the aim once the ball is queued; the next player aims on their next move
+    aimRef.current = null
+    onDrop(aim.x)
+  }, [onDrop])
+
+  const onPointerLeave = useCallback(() => {
+    if (!isPressedRef.current && aimRef.current != null) setAim(null)
+  }, [setAim])
+
+  return {
+    onPointerDown,
+    onPointerMove,
+    onPointerUp,
+    onPointerLeave,
+  }
+}
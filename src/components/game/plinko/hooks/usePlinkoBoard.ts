@@ -0,0 +1,247 @@
+"use client"
+
+import { useRef, useCallback, useEffect, useState, useSyncExternalStore } from "react"
+import type { BoardObstacle, BucketModifierType, PlayerDrop, PlinkoConfig, PlinkoRoundResult } from "../types"
+import type { BoardWorkerMessage, BoardWorkerRequest } from "../board/board.worker"
+import {
+  BoardRunner,
+  type BoardCommand,
+  type BoardSetup,
+  type BoardThread,
+  type BoardView,
+  type FrameScheduler,
+  type PlayerAim,
+} from "../board"
+
+export interface UsePlinkoBoardEvents {
+  onBallSettle?: (bucketIndex: number, modifier?: BucketModifierType) => void
+  /** Hardest ball hit of a frame, for collision sounds */
+  onCollision?: (velocity: number) => void
+  onTiebreaker?: (roundNumber: number, tiedBuckets: number[]) => void
+  /** `steps` is how many simulation steps the round took */
+  onGameEnd?: (winningBuckets: number[], result: PlinkoRoundResult, steps: number) => void
+  /** Whose turn it is to aim changed ("players" drop mode) */
+  onTurnChange?: (ownerId: string | null) => void
+  /** The current player's aimed ball was queued */
+  onPlayerDrop?: (drop: PlayerDrop) => void
+  /** Current simulation step, while `playback` is set */
+  onProgress?: (step: number) => void
+}
+
+/**
+ * Replay controls for the board loop
+ */
+export interface BoardPlayback {
+  speed: number
+  paused: boolean
+}
+
+export interface UsePlinkoBoardOptions extends UsePlinkoBoardEvents {
+  /** Element the board canvas is created in */
+  containerRef: React.RefObject<HTMLDivElement | null>
+  /** Preferred thread for the board loop; "worker" falls back to "main" where unsupported */
+  thread: BoardThread
+  config: PlinkoConfig
+  /** Whether balls should be dropped on the configured schedule */
+  isDropping: boolean
+  bucketOwners: string[]
+  view: Omit<BoardView, "aim">
+  /** Speed and pause (replays); the board runs in real time without it */
+  playback?: BoardPlayback | null
+  /** Jump to a step; each new object triggers one seek */
+  seekTo?: { step: number } | null
+  /** Set to the board's canvas (e.g. to record it) */
+  canvasRef?: React.RefObject<HTMLCanvasElement | null>
+}
+
+export interface UsePlinkoBoardReturn {
+  /** Thread the board loop actually runs on */
+  thread: BoardThread
+  /** Build a fresh board from the setup */
+  reset: (setup: BoardSetup) => void
+  setAim: (aim: PlayerAim | null) => void
+  /** Drop the current player's ball at `x` */
+  aimPlayerDrop: (x: number) => void
+  queuePlayerDrops: (drops: PlayerDrop[]) => void
+  moveObstacle: (obstacle: BoardObstacle, x: number, y: number) => void
+}
+
+interface BoardConnection {
+  post: (command: BoardCommand) => void
+  destroy: () => void
+}
+
+const subscribeNever = () => () => {}
+
+const supportsWorkerBoard = (): boolean =>
+  typeof Worker !== "undefined" &&
+  typeof HTMLCanvasElement !== "undefined" &&
+  "transferControlToOffscreen" in HTMLCanvasElement.prototype
+
+const animationFrames: FrameScheduler = {
+  request: callback => requestAnimationFrame(callback),
+  cancel: id => cancelAnimationFrame(id),
+}
+
+/**
+ * Hook that runs a board's frame loop - physics, drawing and particles - in a
+ * Web Worker on an OffscreenCanvas, or on the page where that isn't available.
+ * The canvas is created inside `containerRef`; only settle, turn and win events
+ * come back to React.
+ */
+export function usePlinkoBoard({
+  containerRef,
+  thread,
+  config,
+  isDropping,
+  bucketOwners,
+  view,
+  playback = null,
+  seekTo = null,
+  canvasRef,
+  ...events
+}: UsePlinkoBoardOptions): UsePlinkoBoardReturn {
+  const connectionRef = useRef<BoardConnection | null>(null)
+  // Kept so a replacement connection (worker fallback) can rebuild the board
+  const setupRef = useRef<BoardSetup | null>(null)
+  const viewRef = useRef(view)
+  const playbackRef = useRef(playback)
+  const eventsRef = useRef<UsePlinkoBoardEvents>(events)
+  const [workerFailed, setWorkerFailed] = useState(false)
+  const canUseWorker = useSyncExternalStore(subscribeNever, supportsWorkerBoard, () => false)
+  const activeThread: BoardThread = thread === "worker" && canUseWorker && !workerFailed ? "worker" : "main"
+
+  useEffect(() => {
+    eventsRef.current = events
+  })
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (container == null) return
+
+    // A fresh canvas per connection - a canvas can only be transferred to a worker once
+    const canvas = document.createElement("canvas")
+    canvas.className = "block rounded-xl"
+    canvas.style.width = "100%"
+    canvas.style.height = "100%"
+    container.prepend(canvas)
+
+    const handleEvent = (event: BoardWorkerMessage) => {
+      const handlers = eventsRef.current
+      switch (event.type) {
+        case "ballSettle":
+          handlers.onBallSettle?.(event.bucketIndex, event.modifier)
+          break
+        case "collision":
+          handlers.onCollision?.(event.velocity)
+          break
+        case "tiebreaker":
+          handlers.onTiebreaker?.(event.roundNumber, event.tiedBuckets)
+          break
+        case "gameEnd":
+          handlers.onGameEnd?.(event.winningBuckets, event.result, event.step)
+          break
+        case "turn":
+          handlers.onTurnChange?.(event.ownerId)
+          break
+        case "playerDrop":
+          handlers.onPlayerDrop?.(event.drop)
+          break
+        case "progress":
+          handlers.onProgress?.(event.step)
+          break
+        case "error":
+          console.error("Board worker failed, drawing on the main thread:", event.message)
+          setWorkerFailed(true)
+          break
+      }
+    }
+
+    let connection: BoardConnection
+    if (activeThread === "worker") {
+      const worker = new Worker(new URL("../board/board.worker.ts", import.meta.url))
+      worker.onmessage = (event: MessageEvent<BoardWorkerMessage>) => handleEvent(event.data)
+      worker.onerror = event => handleEvent({ type: "error", message: event.message })
+      const offscreen = canvas.transferControlToOffscreen()
+      const init: BoardWorkerRequest = { type: "init", canvas: offscreen }
+      worker.postMessage(init, [offscreen])
+      connection = {
+        post: command => worker.postMessage(command),
+        destroy: () => worker.terminate(),
+      }
+    } else {
+      const runner = new BoardRunner(canvas, "main", handleEvent, animationFrames)
+      connection = {
+        post: command => runner.handle(command),
+        destroy: () => runner.destroy(),
+      }
+    }
+
+    connection.post({ type: "view", view: viewRef.current })
+    if (playbackRef.current != null) connection.post({ type: "playback", ...playbackRef.current })
+    if (setupRef.current != null) connection.post({ type: "reset", setup: setupRef.current })
+    connectionRef.current = connection
+    if (canvasRef != null) canvasRef.current = canvas
+
+    return () => {
+      connection.destroy()
+      connectionRef.current = null
+      if (canvasRef?.current === canvas) canvasRef.current = null
+      canvas.remove()
+    }
+  }, [activeThread, containerRef, canvasRef])
+
+  // Settings that apply to the running board without rebuilding it
+  useEffect(() => {
+    connectionRef.current?.post({ type: "update", config, isDropping, bucketOwners })
+  }, [config, isDropping, bucketOwners])
+
+  const { theme, winningBuckets, selectedObstacleId, showStats, banner } = view
+  useEffect(() => {
+    const next = { theme, winningBuckets, selectedObstacleId, showStats, banner }
+    viewRef.current = next
+    connectionRef.current?.post({ type: "view", view: next })
+  }, [theme, winningBuckets, selectedObstacleId, showStats, banner])
+
+  const speed = playback?.speed
+  const paused = playback?.paused
+  useEffect(() => {
+    if (speed == null || paused == null) return
+    playbackRef.current = { speed, paused }
+    connectionRef.current?.post({ type: "playback", speed, paused })
+  }, [speed, paused])
+
+  useEffect(() => {
+    if (seekTo != null) connectionRef.current?.post({ type: "seek", step: seekTo.step })
+  }, [seekTo])
+
+  const reset = useCallback((setup: BoardSetup) => {
+    setupRef.current = setup
+    connectionRef.current?.post({ type: "reset", setup })
+  }, [])
+
+  const setAim = useCallback((aim: PlayerAim | null) => {
+    connectionRef.current?.post({ type: "view", view: { aim } })
+  }, [])
+
+  const aimPlayerDrop = useCallback((x: number) => {
+    connectionRef.current?.post({ type: "aimDrop", x })
+  }, [])
+
+  const queuePlayerDrops = useCallback((drops: PlayerDrop[]) => {
+    if (drops.length > 0) connectionRef.current?.post({ type: "queueDrops", drops })
+  }, [])
+
+  const moveObstacle = useCallback((obstacle: BoardObstacle, x: number, y: number) => {
+    connectionRef.current?.post({ type: "moveObstacle", obstacle, x, y })
+  }, [])
+
+  return {
+    thread: activeThread,
+    reset,
+    setAim,
+    aimPlayerDrop,
+    queuePlayerDrops,
+    moveObstacle,
+  }
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import type { AuditContext, PlayerProfile, Season } from "../types"
+import { parsePlayers } from "../schema"
+import { closeSeason, makeSeasonId, openSeason, resetSeasonWins } from "../utils/seasons"
+
+const seasonStorageKey = "plinko.seasons.v1"
+
+async function loadSeasonsFromAPI(): Promise<Season[] | null> {
+  try {
+    const response = await fetch("/api/plinko/seasons")
+    if (!response.ok) return null
+    const data = await response.json()
+    if (data.fallback === true || !Array.isArray(data.seasons)) return null
+    return data.seasons
+  } catch {
+    return null
+  }
+}
+
+async function startSeasonToAPI(name: string, startDate: string, endDate: string): Promise<Season | null> {
+  try {
+    const response = await fetch("/api/plinko/seasons", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, startDate, endDate })
+    })
+    if (!response.ok) return null
+    const data = await response.json()
+    return data.fallback !== true && data.season != null ? data.season : null
+  } catch {
+    return null
+  }
+}
+
+// Closing a season resets wins server-side, so the new roster comes back with it
+async function closeSeasonToAPI(id: string, audit: AuditContext): Promise<{ season: Season; players: PlayerProfile[]; version: number } | null> {
+  try {
+    const response = await fetch(`/api/plinko/seasons/${encodeURIComponent(id)}/close`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ audit })
+    })
+    if (!response.ok) return null
+    const data = await response.json()
+    if (data.fallback === true || data.season == null) return null
+    return { season: data.season, players: parsePlayers(data.players), version: data.version }
+  } catch {
+    return null
+  }
+}
+
+function loadLocalSeasons(): Season[] {
+  try {
+    const stored = localStorage.getItem(seasonStorageKey)
+    if (stored == null) return []
+    const parsed = JSON.parse(stored) as Season[]
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+export interface UseSeasonsOptions {
+  /** The current roster, read when a season opens or closes */
+  getPlayers: () => PlayerProfile[]
+  /**
+   * Apply a closed season's wins reset to the roster. `version` is the
+   * server's new roster version, or null when the reset was made locally.
+   */
+  onWinsReset: (reset: (players: PlayerProfile[]) => PlayerProfile[], version: number | null) => void
+}
+
+export interface UseSeasonsReturn {
+  /** The open season plus closed ones with their final standings */
+  seasons: Season[]
+  /** Resolve to false if the season couldn't be saved */
+  startSeason: (name: string, startDate: string, endDate: string) => Promise<boolean>
+  closeSeason: (seasonId: string, audit: AuditContext) => Promise<boolean>
+}
+
+/**
+ * Hook that loads seasons from the API (or localStorage without storage) and
+ * opens and closes them
+ */
+export function useSeasons({ getPlayers, onWinsReset }: UseSeasonsOptions): UseSeasonsReturn {
+  const [seasons, setSeasons] = useState<Season[]>([])
+  const [isLocal, setIsLocal] = useState(false)
+
+  useEffect(() => {
+    async function loadSeasons() {
+      const apiSeasons = await loadSeasonsFromAPI()
+      setIsLocal(apiSeasons == null)
+      setSeasons(apiSeasons ?? loadLocalSeasons())
+    }
+    loadSeasons()
+  }, [])
+
+  const saveLocalSeasons = useCallback((next: Season[]) => {
+    localStorage.setItem(seasonStorageKey, JSON.stringify(next))
+    setSeasons(next)
+  }, [])
+
+  const startSeason = useCallback(async (name: string, startDate: string, endDate: string): Promise<boolean> => {
+    if (isLocal) {
+      saveLocalSeasons([...seasons, openSeason({ id: makeSeasonId(), name, startDate, endDate }, getPlayers())])
+      return true
+    }
+    const season = await startSeasonToAPI(name, startDate, endDate)
+    if (season == null) return false
+    setSeasons(prev => [...prev, season])
+    return true
+  }, [isLocal, seasons, saveLocalSeasons, getPlayers])
+
+  // Archive the season's standings and start wins again from zero
+  const endSeason = useCallback(async (seasonId: string, audit: AuditContext): Promise<boolean> => {
+    if (isLocal) {
+      const season = seasons.find(s => s.id === seasonId)
+      if (season == null) return false
+      const closed = closeSeason(season, getPlayers(), Date.now())
+      saveLocalSeasons(seasons.map(s => s.id === seasonId ? closed : s))
+      onWinsReset(players => resetSeasonWins(players, closed), null)
+      return true
+    }
+    const result = await closeSeasonToAPI(seasonId, audit)
+    if (result == null) return false
+    setSeasons(prev => prev.map(s => s.id === seasonId ? result.season : s))
+    onWinsReset(() => result.players, result.version)
+    return true
+  }, [isLocal, seasons, saveLocalSeasons, getPlayers, onWinsReset])
+
+  return { seasons, startSeason, closeSeason: endSeason }
+}
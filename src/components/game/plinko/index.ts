@@ -2,8 +2,13 @@ export * from "./PlinkoGame"
 export * from "./PlinkoControls"
 export * from "./PlinkoConfigPanel"
 export * from "./PlinkoLeaderboard"
+export * from "./PlinkoRoundHistory"
 export * from "./WinCelebration"
 export * from "./TiebreakerAnnouncement"
+export * from "./BoardEditorToolbar"
+export * from "./PlinkoReplay"
+export * from "./StandupRunner"
 export * from "./types"
 export * from "./hooks"
 export * from "./utils"
+export * from "./schema"
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest"
+import { defaultConfig } from "./types"
+import {
+  CONFIG_SCHEMA_VERSION,
+  PLAYERS_SCHEMA_VERSION,
+  parseConfig,
+  parseConfigPatch,
+  parsePlayersDocument,
+  serializeConfig,
+  serializePlayers,
+} from "./schema"
+
+describe("parseConfigPatch", () => {
+  it("clamps numbers to their range", () => {
+    expect(parseConfigPatch({ ballCount: 999, dropDelay: 1 })).toEqual({ ballCount: 50, dropDelay: 50 })
+  })
+
+  it("reads numeric strings", () => {
+    expect(parseConfigPatch({ ballCount: "7" })).toEqual({ ballCount: 7 })
+  })
+
+  it("rounds whole-number fields and keeps stepped ones", () => {
+    expect(parseConfigPatch({ ballCount: 7.6, ballRestitution: 0.42 })).toEqual({ ballCount: 8, ballRestitution: 0.42 })
+  })
+
+  it("drops unknown keys and values it can't salvage", () => {
+    expect(parseConfigPatch({
+      ballCount: 12,
+      notAField: true,
+      ballShape: "hexagon",
+      destroyBalls: "yes",
+      pinRows: "",
+    })).toEqual({ ballCount: 12 })
+  })
+
+  it("never goes below two buckets", () => {
+    expect(parseConfigPatch({ bucketCount: 0 })).toEqual({ bucketCount: 2 })
+  })
+
+  it("has nothing to offer for a value that isn't an object", () => {
+    expect(parseConfigPatch(null)).toEqual({})
+    expect(parseConfigPatch([1, 2])).toEqual({})
+  })
+})
+
+describe("parseConfig", () => {
+  it("fills missing fields from defaults", () => {
+    expect(parseConfig({ ballCount: 3 })).toEqual({ ...defaultConfig, ballCount: 3 })
+  })
+
+  it("reads back what it serialized", () => {
+    const config = { ...defaultConfig, ballCount: 20, winCondition: "ranking" as const }
+    expect(serializeConfig(config).schemaVersion).toBe(CONFIG_SCHEMA_VERSION)
+    expect(parseConfig(serializeConfig(config))).toEqual(config)
+  })
+
+  it("upgrades an older config, dropping its version stamp", () => {
+    expect(parseConfig({ schemaVersion: 3, ballCount: 5, winCondition: "most" }))
+      .toEqual({ ...defaultConfig, ballCount: 5, winCondition: "most" })
+  })
+})
+
+describe("parsePlayersDocument", () => {
+  it("migrates a legacy bare array to the current document", () => {
+    const players = parsePlayersDocument([
+      { id: "ana", name: "Ana", wins: 3, active: true },
+      { id: "bo", name: "Bo", wins: -2 },
+    ])
+    expect(players).toEqual([
+      { id: "ana", name: "Ana", wins: 3, active: true, archived: false, tournamentWins: 0 },
+      { id: "bo", name: "Bo", wins: 0, active: true, archived: false, tournamentWins: 0 },
+    ])
+  })
+
+  it("reads a current document", () => {
+    const roster = [{ id: "ana", name: "Ana", wins: 1, active: false, archived: false, tournamentWins: 2 }]
+    const document = serializePlayers(roster)
+    expect(document.schemaVersion).toBe(PLAYERS_SCHEMA_VERSION)
+    expect(parsePlayersDocument(document)).toEqual(roster)
+  })
+
+  it("drops players without an id or name, and repeated ids", () => {
+    const players = parsePlayersDocument({
+      schemaVersion: PLAYERS_SCHEMA_VERSION,
+      players: [{ id: "ana", name: "Ana" }, { id: "ana", name: "Again" }, { name: "No id" }, { id: "bo" }, "cy"],
+    })
+    expect(players?.map(p => p.name)).toEqual(["Ana"])
+  })
+
+  it("is null when nothing is stored", () => {
+    expect(parsePlayersDocument(null)).toBeNull()
+  })
+})
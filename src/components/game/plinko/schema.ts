@@ -0,0 +1,357 @@
+import {
+  defaultConfig,
+  type BoardObstacle,
+  type BoardObstacleType,
+  type BucketModifier,
+  type BucketModifierType,
+  type PlinkoConfig,
+  type PlayerProfile,
+  type RenderTheme
+} from "./types"
+import { normalizeWeight } from "./utils/weights"
+import { lightTheme } from "./utils/theme"
+
+// Bump only when a stored field is renamed or reshaped, and add the migration
+// below. New fields don't need one - missing fields are filled from defaults
+// when parsed. Config has been saved as v7, so it can't go back down.
+export const CONFIG_SCHEMA_VERSION = 7
+export const PLAYERS_SCHEMA_VERSION = 2
+
+interface NumberRule {
+  kind: "number"
+  min: number
+  max: number
+  step?: number // Slider step; integers when omitted
+}
+
+interface BooleanRule {
+  kind: "boolean"
+}
+
+interface EnumRule<T extends string> {
+  kind: "enum"
+  values: readonly T[]
+}
+
+interface ObstaclesRule {
+  kind: "obstacles"
+  max: number
+}
+
+interface BucketModifiersRule {
+  kind: "bucketModifiers"
+  values: readonly BucketModifierType[]
+}
+
+// A custom board theme, or null for none
+interface ThemeRule {
+  kind: "theme"
+}
+
+// Tuple-wrapped so string unions map to one enum rule instead of distributing
+type FieldRule<V> =
+  [V] extends [number] ? NumberRule
+    : [V] extends [boolean] ? BooleanRule
+      : [V] extends [string] ? EnumRule<V>
+        : [V] extends [BoardObstacle[]] ? ObstaclesRule
+          : [V] extends [BucketModifier[]] ? BucketModifiersRule
+            : [V] extends [RenderTheme | null] ? ThemeRule
+              : never
+
+type Range = Omit<NumberRule, "kind">
+
+export const obstacleTypes: readonly BoardObstacleType[] = ["pin", "bumper", "spinner", "deflector", "gate"]
+
+/**
+ * Allowed sizes (bumper radius or bar length) and spinner speeds for placed
+ * obstacles. Pins take their size from the Pins settings.
+ */
+export const obstacleSchema: { size: Record<BoardObstacleType, Range>; speed: Range } = {
+  size: {
+    pin: { min: 2, max: 20 },
+    bumper: { min: 6, max: 40 },
+    spinner: { min: 20, max: 200 },
+    deflector: { min: 20, max: 300 },
+    gate: { min: 20, max: 200 }
+  },
+  speed: { min: -720, max: 720 }
+}
+
+const shapes = ["ball", "square", "triangle"] as const
+
+/**
+ * Allowed values for every config field. Number ranges are the
+ * PlinkoConfigPanel slider limits, which read them from here.
+ */
+export const configSchema: { [K in keyof PlinkoConfig]: FieldRule<PlinkoConfig[K]> } = {
+  ballCount: { kind: "number", min: 0, max: 50 },
+  ballRadius: { kind: "number", min: 4, max: 20 },
+  ballRestitution: { kind: "number", min: 0, max: 1, step: 0.05 },
+  ballFriction: { kind: "number", min: 0, max: 1, step: 0.01 },
+  ballShape: { kind: "enum", values: shapes },
+  destroyBalls: { kind: "boolean" },
+  dropLocation: { kind: "enum", values: ["random", "zigzag", "center"] },
+  dropAngleRandomness: { kind: "number", min: 0, max: 90, step: 5 },
+  dropVelocity: { kind: "number", min: 0, max: 20, step: 0.5 },
+  dropDelay: { kind: "number", min: 50, max: 2000, step: 50 },
+  dropMode: { kind: "enum", values: ["auto", "players"] },
+  ballsPerPlayer: { kind: "number", min: 1, max: 10 },
+  playerScoring: { kind: "enum", values: ["own-bucket", "any"] },
+  pinRadius: { kind: "number", min: 2, max: 20 },
+  pinRows: { kind: "number", min: 1, max: 20 },
+  pinColumns: { kind: "number", min: 1, max: 20 },
+  pinRestitution: { kind: "number", min: 0, max: 1, step: 0.05 },
+  pinFriction: { kind: "number", min: 0, max: 1, step: 0.01 },
+  pinShape: { kind: "enum", values: shapes },
+  pinAngle: { kind: "number", min: -360, max: 360 },
+  pinLayout: { kind: "enum", values: ["grid", "custom"] },
+  obstacles: { kind: "obstacles", max: 500 },
+  pinWallGap: { kind: "number", min: 10, max: 100 },
+  pinRimGap: { kind: "number", min: 10, max: 150 },
+  ceilingGap: { kind: "number", min: 20, max: 200 },
+  wallThickness: { kind: "number", min: 1, max: 50 },
+  rimHeight: { kind: "number", min: 30, max: 200 },
+  rimWidth: { kind: "number", min: 2, max: 20 },
+  bucketCount: { kind: "number", min: 2, max: 100 },
+  bucketDistribution: { kind: "enum", values: ["even", "middle", "edge", "weighted"] },
+  bucketModifiers: { kind: "bucketModifiers", values: ["double", "steal", "reset", "jackpot"] },
+  antiStreak: { kind: "boolean" },
+  antiStreakWindow: { kind: "number", min: 1, max: 20 },
+  winCondition: { kind: "enum", values: ["nth", "most", "first", "last-empty", "ranking"] },
+  winNth: { kind: "number", min: 1, max: 100 },
+  seed: { kind: "number", min: 0, max: 0xffffffff },
+  gameMode: { kind: "enum", values: ["single", "tournament"] },
+  customTheme: { kind: "theme" },
+  speakerOrder: { kind: "enum", values: ["buckets", "ranking", "random"] },
+  speakerSeconds: { kind: "number", min: 15, max: 600, step: 15 },
+  speakerWarningSeconds: { kind: "number", min: 0, max: 120, step: 5 },
+  width: { kind: "number", min: 300, max: 1000 },
+  height: { kind: "number", min: 300, max: 800 }
+}
+
+type NumericConfigKey = {
+  [K in keyof PlinkoConfig]: PlinkoConfig[K] extends number ? K : never
+}[keyof PlinkoConfig]
+
+/**
+ * Input props (min/max/step) for a numeric config field
+ */
+export const configRange = (key: NumericConfigKey): { min: number; max: number; step?: number } => {
+  const { min, max, step } = configSchema[key] as NumberRule
+  return step != null ? { min, max, step } : { min, max }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === "object" && !Array.isArray(value)
+
+const parseNumber = (rule: Range, value: unknown): number | undefined => {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value
+  if (typeof number !== "number" || !Number.isFinite(number)) return undefined
+  const clamped = Math.min(rule.max, Math.max(rule.min, number))
+  return rule.step == null ? Math.round(clamped) : clamped
+}
+
+const fraction: Range = { min: 0, max: 1, step: 0.001 }
+
+/**
+ * Validate one placed obstacle, or null if it has no usable type or position
+ */
+export function parseObstacle(raw: unknown): BoardObstacle | null {
+  if (!isRecord(raw)) return null
+  const { id, type } = raw
+  if (typeof id !== "string" || id === "") return null
+  if (typeof type !== "string" || !(obstacleTypes as readonly string[]).includes(type)) return null
+  const obstacleType = type as BoardObstacleType
+  const x = parseNumber(fraction, raw.x)
+  const y = parseNumber(fraction, raw.y)
+  if (x == null || y == null) return null
+
+  const sizeRange = obstacleSchema.size[obstacleType]
+  const obstacle: BoardObstacle = {
+    id,
+    type: obstacleType,
+    x,
+    y,
+    angle: parseNumber(configSchema.pinAngle, raw.angle) ?? 0,
+    size: parseNumber(sizeRange, raw.size) ?? sizeRange.min
+  }
+  if (obstacleType === "spinner") obstacle.speed = parseNumber(obstacleSchema.speed, raw.speed) ?? 0
+  return obstacle
+}
+
+const parseObstacles = (rule: ObstaclesRule, value: unknown): BoardObstacle[] | undefined => {
+  if (!Array.isArray(value)) return undefined
+  const seen = new Set<string>()
+  return value.flatMap(item => {
+    const obstacle = parseObstacle(item)
+    if (obstacle == null || seen.has(obstacle.id)) return []
+    seen.add(obstacle.id)
+    return [obstacle]
+  }).slice(0, rule.max)
+}
+
+// One modifier per bucket (the first wins), in bucket order
+const parseBucketModifiers = (rule: BucketModifiersRule, value: unknown): BucketModifier[] | undefined => {
+  if (!Array.isArray(value)) return undefined
+  const byBucket = new Map<number, BucketModifier>()
+  value.forEach(item => {
+    if (!isRecord(item)) return
+    const bucket = parseNumber(configSchema.bucketCount, item.bucket)
+    const type = item.type as BucketModifierType
+    if (bucket == null || !rule.values.includes(type) || byBucket.has(bucket)) return
+    byBucket.set(bucket, { bucket, type })
+  })
+  return [...byBucket.values()].sort((a, b) => a.bucket - b.bucket)
+}
+
+const hexColorPattern = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i
+
+// Lowercase #rrggbb, expanding the short #rgb form
+const parseHexColor = (value: unknown): string | undefined => {
+  if (typeof value !== "string" || !hexColorPattern.test(value)) return undefined
+  const hex = value.toLowerCase()
+  return hex.length === 4 ? `#${hex[1]}${hex[1]}${hex[2]}${hex[2]}${hex[3]}${hex[3]}` : hex
+}
+
+// Colors that are missing or invalid fall back to the light theme's
+const parseTheme = (value: unknown): RenderTheme | null | undefined => {
+  if (value === null) return null
+  if (!isRecord(value)) return undefined
+  const keys = Object.keys(lightTheme) as Array<keyof RenderTheme>
+  return Object.fromEntries(
+    keys.map(key => [key, parseHexColor(value[key]) ?? lightTheme[key]])
+  ) as unknown as RenderTheme
+}
+
+type AnyRule = NumberRule | BooleanRule | EnumRule<string> | ObstaclesRule | BucketModifiersRule | ThemeRule
+
+// Coerce one field to its rule, or undefined if it can't be salvaged
+const parseField = (rule: AnyRule, value: unknown): unknown => {
+  switch (rule.kind) {
+    case "number":
+      return parseNumber(rule, value)
+    case "boolean":
+      return typeof value === "boolean" ? value : undefined
+    case "enum":
+      return typeof value === "string" && rule.values.includes(value) ? value : undefined
+    case "obstacles":
+      return parseObstacles(rule, value)
+    case "bucketModifiers":
+      return parseBucketModifiers(rule, value)
+    case "theme":
+      return parseTheme(value)
+  }
+}
+
+type Migration = (data: unknown) => unknown
+
+// configMigrations[n] upgrades version n to n + 1. Versions 1-6 only lacked
+// fields that are now filled from defaults, so they need no steps.
+const configMigrations: Record<number, Migration> = {}
+
+// playersMigrations[n] upgrades version n to n + 1
+const playersMigrations: Record<number, Migration> = {
+  // v1 (plinko.players.v2, unversioned): a bare array of profiles
+  1: data => ({ players: data })
+}
+
+// Data saved before versioning has no schemaVersion and counts as v1
+const readVersion = (data: unknown): number =>
+  isRecord(data) && typeof data.schemaVersion === "number" && Number.isInteger(data.schemaVersion)
+    ? data.schemaVersion
+    : 1
+
+const migrate = (data: unknown, migrations: Record<number, Migration>, targetVersion: number): unknown => {
+  let migrated = data
+  for (let version = readVersion(data); version < targetVersion; version++) {
+    const step = migrations[version] as Migration | undefined
+    if (step != null) migrated = step(migrated)
+  }
+  return migrated
+}
+
+/**
+ * Upgrade and validate a stored (possibly partial) config. Only fields that
+ * are present and salvageable are returned, clamped to their ranges.
+ */
+export function parseConfigPatch(raw: unknown): Partial<PlinkoConfig> {
+  const data = migrate(raw, configMigrations, CONFIG_SCHEMA_VERSION)
+  if (!isRecord(data)) return {}
+  const patch: Record<string, unknown> = {}
+  const keys = Object.keys(configSchema) as Array<keyof PlinkoConfig>
+  keys.forEach(key => {
+    const value = parseField(configSchema[key], data[key])
+    if (value !== undefined) patch[key] = value
+  })
+  return patch as Partial<PlinkoConfig>
+}
+
+/**
+ * Upgrade and validate a stored config, filling anything missing from defaults
+ */
+export const parseConfig = (raw: unknown): PlinkoConfig => ({
+  ...defaultConfig,
+  ...parseConfigPatch(raw)
+})
+
+// The config as persisted, stamped with its schema version
+export const serializeConfig = (config: PlinkoConfig): PlinkoConfig & { schemaVersion: number } => ({
+  ...config,
+  schemaVersion: CONFIG_SCHEMA_VERSION
+})
+
+const parseCount = (value: unknown): number =>
+  typeof value === "number" && Number.isFinite(value) ? Math.max(0, Math.round(value)) : 0
+
+/**
+ * Validate one player, or null if it has no usable id or name
+ */
+export function parsePlayer(raw: unknown): PlayerProfile | null {
+  if (!isRecord(raw)) return null
+  const { id, name, avatarUrl } = raw
+  if (typeof id !== "string" || id === "" || typeof name !== "string") return null
+
+  const player: PlayerProfile = {
+    id,
+    name,
+    wins: parseCount(raw.wins),
+    active: typeof raw.active === "boolean" ? raw.active : true,
+    archived: raw.archived === true,
+    tournamentWins: parseCount(raw.tournamentWins)
+  }
+  if (typeof avatarUrl === "string" && avatarUrl.trim() !== "") player.avatarUrl = avatarUrl
+  if (typeof raw.weight === "number") player.weight = normalizeWeight(raw.weight)
+  if (typeof raw.winsResetFor === "string") player.winsResetFor = raw.winsResetFor
+  return player
+}
+
+/**
+ * Validate a roster, dropping unusable entries and duplicate ids
+ */
+export function parsePlayers(raw: unknown): PlayerProfile[] {
+  if (!Array.isArray(raw)) return []
+  const seen = new Set<string>()
+  return raw.flatMap(item => {
+    const player = parsePlayer(item)
+    if (player == null || seen.has(player.id)) return []
+    seen.add(player.id)
+    return [player]
+  })
+}
+
+/**
+ * Upgrade and validate a stored roster - either the current
+ * `{ schemaVersion, players }` document or a legacy bare array.
+ * Returns null when there is nothing stored.
+ */
+export function parsePlayersDocument(raw: unknown): PlayerProfile[] | null {
+  if (raw == null) return null
+  const document = migrate(raw, playersMigrations, PLAYERS_SCHEMA_VERSION)
+  return isRecord(document) ? parsePlayers(document.players) : null
+}
+
+// The roster as persisted, stamped with its schema version
+export const serializePlayers = (players: PlayerProfile[]): { schemaVersion: number; players: PlayerProfile[] } => ({
+  schemaVersion: PLAYERS_SCHEMA_VERSION,
+  players
+})
@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from "vitest"
+import { defaultConfig, type PlayerProfile, type PlinkoRoundResult } from "../types"
+import { assignBucketsBySeed } from "../utils/players"
+import {
+  MAX_RANKING_TIEBREAKERS,
+  PlinkoSimulation,
+  maxRoundSteps,
+  rankBuckets,
+  unfinishableReason
+} from "./PlinkoSimulation"
+
+describe("rankBuckets", () => {
+  it("orders buckets by balls caught, most first", () => {
+    expect(rankBuckets([[1, 4, 2]])).toEqual([[1], [2], [0]])
+  })
+
+  it("keeps tied buckets together in bucket order", () => {
+    expect(rankBuckets([[3, 1, 3, 1]])).toEqual([[0, 2], [1, 3]])
+  })
+
+  it("only lets a tiebreaker reorder buckets that were still tied", () => {
+    // Bucket 1 led the main round, so its empty tiebreaker doesn't drop it
+    expect(rankBuckets([[2, 5, 2], [0, 0, 3]])).toEqual([[1], [2], [0]])
+  })
+
+  it("returns nothing without stages", () => {
+    expect(rankBuckets([])).toEqual([])
+  })
+})
+
+describe("unfinishableReason", () => {
+  it("accepts the default board", () => {
+    expect(unfinishableReason(defaultConfig)).toBeNull()
+  })
+
+  it("rejects boards that can never end", () => {
+    expect(unfinishableReason({ ...defaultConfig, bucketCount: 1 })).not.toBeNull()
+    expect(unfinishableReason({ ...defaultConfig, dropMode: "players" })).not.toBeNull()
+    expect(unfinishableReason({ ...defaultConfig, ballCount: 0, winCondition: "most" })).not.toBeNull()
+    expect(unfinishableReason({ ...defaultConfig, ballCount: 2, winCondition: "nth", winNth: 3 })).not.toBeNull()
+  })
+
+  it("lets unlimited balls run under the nth win condition", () => {
+    expect(unfinishableReason({ ...defaultConfig, ballCount: 0, winCondition: "nth" })).toBeNull()
+  })
+})
+
+describe("maxRoundSteps", () => {
+  it("leaves a default round room for every ranking tiebreaker", () => {
+    const simulation = new PlinkoSimulation({ ...defaultConfig, winCondition: "ranking" }, 42)
+    const outcome = simulation.runToCompletion()
+    simulation.destroy()
+    expect(outcome).not.toBeNull()
+    expect(maxRoundSteps(defaultConfig)).toBeLessThan(5000)
+  })
+})
+
+describe("PlinkoSimulation determinism", () => {
+  const roster: PlayerProfile[] = ["ana", "bo", "cy", "di"].map(id => ({ id, name: id, wins: 0, active: true }))
+  const config = { ...defaultConfig, bucketCount: roster.length, ballCount: 8, winCondition: "most" as const }
+
+  // Assign buckets and play the round the way the board does, returning the winners' ids
+  const playRound = (players: PlayerProfile[], seed: number) => {
+    const assignments = assignBucketsBySeed(players, seed)
+    const simulation = new PlinkoSimulation(config, seed)
+    const outcome = simulation.runToCompletion()
+    simulation.destroy()
+    return { assignments, outcome, winnerIds: outcome?.winningBuckets.map(bucket => assignments[bucket]) }
+  }
+
+  it("plays the same round from the same seed, config and roster", () => {
+    const first = playRound(roster, 1234)
+    // Roster order doesn't matter, only who is in it
+    const second = playRound([...roster].reverse(), 1234)
+    expect(first.outcome).not.toBeNull()
+    expect(second.assignments).toEqual(first.assignments)
+    expect(second.outcome).toEqual(first.outcome)
+    expect(second.winnerIds).toEqual(first.winnerIds)
+  })
+
+  it("shuffles buckets differently for another seed", () => {
+    const seeds = [1, 2, 3, 4, 5]
+    const orders = new Set(seeds.map(seed => assignBucketsBySeed(roster, seed).join(",")))
+    expect(orders.size).toBeGreaterThan(1)
+  })
+})
+
+describe("PlinkoSimulation ranking rounds", () => {
+  const config = { ...defaultConfig, winCondition: "ranking" as const, bucketCount: 3, ballCount: 6 }
+
+  // Play a whole round, noting each tiebreaker with the counts it started from
+  const play = (seed: number, bucketWeights: number[] = []) => {
+    const tiebreakers: Array<{ roundNumber: number; tiedBuckets: number[]; counts: number[] }> = []
+    const onGameEnd = vi.fn<(winningBuckets: number[], result: PlinkoRoundResult) => void>()
+    const simulation: PlinkoSimulation = new PlinkoSimulation(config, seed, {
+      onGameEnd,
+      onTiebreaker: (roundNumber, tiedBuckets) => {
+        tiebreakers.push({ roundNumber, tiedBuckets, counts: [...simulation.bucketCounts] })
+      },
+    }, bucketWeights)
+    const outcome = simulation.runToCompletion()
+    simulation.destroy()
+    if (outcome == null) throw new Error(`Seed ${seed} didn't finish`)
+    expect(onGameEnd).toHaveBeenCalledOnce()
+    return { outcome, tiebreakers }
+  }
+
+  // Buckets from most to fewest balls
+  const byCount = (counts: number[]) =>
+    counts.map((_, bucket) => bucket).sort((a, b) => counts[b] - counts[a])
+
+  it("publishes the full order when there are no ties", () => {
+    // Seed 1 lands its six balls 0 / 2 / 4
+    const { outcome, tiebreakers } = play(1)
+    expect(tiebreakers).toEqual([])
+    expect(new Set(outcome.bucketCounts).size).toBe(3)
+    expect(outcome.ranking).toEqual(byCount(outcome.bucketCounts))
+    expect(outcome.winningBuckets).toEqual([outcome.ranking?.[0]])
+    expect(outcome.tiebreakerRounds).toBe(0)
+  })
+
+  it("plays a tiebreaker for tied buckets and ranks them on it", () => {
+    // Seed 5 ties all three buckets at two balls each
+    const { outcome, tiebreakers } = play(5)
+    expect(tiebreakers).toHaveLength(1)
+    const [tie] = tiebreakers
+    expect(tie).toMatchObject({ roundNumber: 1, tiedBuckets: [0, 1, 2] })
+    expect(new Set(tie.counts).size).toBe(1)
+
+    // Counts accumulate, so the tiebreaker's own balls are what's on top of the tie
+    const tiebreakerCounts = outcome.bucketCounts.map((count, bucket) => count - tie.counts[bucket])
+    expect(new Set(tiebreakerCounts).size).toBe(3)
+    expect(outcome.ranking).toEqual(byCount(tiebreakerCounts))
+    expect(outcome.tiebreakerRounds).toBe(1)
+  })
+
+  it("only replays the tied part of the order", () => {
+    // Seed 12 ties buckets 0 and 2 with bucket 1 behind them
+    const { outcome, tiebreakers } = play(12)
+    const [first] = tiebreakers
+    expect(first.tiedBuckets).toEqual([0, 2])
+    expect(first.counts[0]).toBe(first.counts[2])
+    expect(first.counts[1]).toBeLessThan(first.counts[0])
+    tiebreakers.forEach(tie => expect(tie.tiedBuckets).toEqual([0, 2]))
+    // However the tiebreakers go, bucket 1 stays last
+    expect(outcome.ranking?.[2]).toBe(1)
+  })
+
+  it("settles ties that never break by seed after the last tiebreaker", () => {
+    // Buckets 1 and 2 are too narrow to catch anything, so they tie every time
+    const narrow = [1, 1e-6, 1e-6]
+    const { outcome, tiebreakers } = play(99, narrow)
+    expect(tiebreakers).toHaveLength(MAX_RANKING_TIEBREAKERS)
+    tiebreakers.forEach(tie => expect(tie.tiedBuckets).toEqual([1, 2]))
+    expect(outcome.bucketCounts.slice(1)).toEqual([0, 0])
+    expect(outcome.ranking?.[0]).toBe(0)
+    expect(outcome.ranking?.slice(1).sort()).toEqual([1, 2])
+    expect(outcome.winningBuckets).toEqual([0])
+    expect(play(99, narrow).outcome.ranking).toEqual(outcome.ranking)
+  })
+})
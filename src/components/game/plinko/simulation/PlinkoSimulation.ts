@@ -0,0 +1,875 @@
+import Matter, {
+  Engine,
+  Bodies,
+  Body,
+  Composite,
+  Events,
+} from "matter-js"
+import type {
+  BoardObstacle,
+  BucketModifierType,
+  PlayerDrop,
+  PlinkoConfig,
+  PlinkoRoundResult
+} from "../types"
+import { createSeededRandom, shuffleWithRandom, type RandomSource } from "../utils/random"
+import {
+  BUMPER_RESTITUTION,
+  OBSTACLE_BAR_THICKNESS,
+  gateNormal,
+  gridPinPositions,
+  obstaclePosition,
+} from "./obstacles"
+
+// Physics always advances in fixed steps so a seeded round replays identically
+export const FIXED_TIMESTEP_MS = 1000 / 60
+
+// "ranking" rounds give up on tiebreakers after this many and order leftover ties by seed
+export const MAX_RANKING_TIEBREAKERS = 5
+
+// Rounds where reset buckets swallow every ball are replayed this many times,
+// then a bucket is drawn by seed
+export const MAX_EMPTY_ROUND_REPLAYS = 5
+
+export interface PlinkoSimulationEvents {
+  onBallSettle?: (bucketIndex: number, modifier?: BucketModifierType) => void
+  /** A ball hit a pin or obstacle: ball speed, ball position and the obstacle's position */
+  onCollision?: (velocity: number, position: { x: number; y: number }, obstaclePosition: { x: number; y: number }) => void
+  onTiebreaker?: (roundNumber: number, tiedBuckets: number[]) => void
+  onGameEnd?: (winningBuckets: number[], result: PlinkoRoundResult) => void
+}
+
+export interface PlinkoSimulationOutcome extends PlinkoRoundResult {
+  winningBuckets: number[]
+  steps: number
+  /** Balls that tunneled through the floor and were put in the nearest bucket */
+  escapedBalls: number
+}
+
+/**
+ * A placed obstacle and the body built for it
+ */
+export interface PlacedObstacle {
+  obstacle: BoardObstacle
+  body: Matter.Body
+}
+
+// Steps between a player aiming and their ball falling, so spectators receive
+// the drop before it is due
+export const PLAYER_DROP_DELAY_STEPS = 6
+
+/**
+ * Balls in one round (before tiebreakers); 0 = unlimited
+ */
+export const roundBallCount = (config: PlinkoConfig): number =>
+  config.dropMode === "players" ? config.bucketCount * config.ballsPerPlayer : config.ballCount
+
+// Steps for the last ball of a stage to fall and settle - twice what a
+// default board's last ball takes
+const SETTLE_ALLOWANCE_STEPS = 300
+
+/**
+ * Step budget for a headless round: every stage (the main round plus the most
+ * tiebreakers a "ranking" round plays) dropping its balls and letting the last
+ * one settle. Unlimited "nth" rounds are bounded by the pigeonhole - some
+ * bucket has N balls once every bucket could have had N - 1.
+ */
+export const maxRoundSteps = (config: PlinkoConfig): number => {
+  const balls = config.ballCount > 0 ? config.ballCount : config.bucketCount * (config.winNth - 1) + 1
+  const dropIntervalSteps = Math.max(1, Math.round(config.dropDelay / FIXED_TIMESTEP_MS))
+  return (balls * dropIntervalSteps + SETTLE_ALLOWANCE_STEPS) * (1 + MAX_RANKING_TIEBREAKERS)
+}
+
+/**
+ * Why a config can't be played to the end headless, or null if it can
+ */
+export function unfinishableReason(config: PlinkoConfig): string | null {
+  if (config.bucketCount < 2) return "Simulations need at least 2 buckets"
+  if (config.dropMode === "players") return "Player drops can't be simulated - every ball needs someone to aim it"
+  if (config.ballCount === 0 && config.winCondition !== "nth") {
+    return "Unlimited balls only end under the \"nth\" win condition"
+  }
+  // Without modifiers a bucket gains at most one per ball
+  if (config.winCondition === "nth" && config.ballCount > 0 && config.winNth > config.ballCount &&
+    config.bucketModifiers.length === 0) {
+    return `No bucket can reach ${config.winNth} balls with only ${config.ballCount} dropped`
+  }
+  return null
+}
+
+// Balls and walls keep Matter's default category; each gate gets its own bit
+// (wrapping after 31) so balls can be let through one gate at a time
+const FIRST_GATE_CATEGORY = 0x0002
+const GATE_CATEGORY_BITS = 31
+
+// Labels of the static bodies that make a sound when hit
+const isObstacleLabel = (label: string): boolean =>
+  /^(pin|bumper|spinner|deflector|gate)-/.test(label)
+
+/**
+ * Helper to create different shaped bodies
+ */
+const makeShape = (
+  type: "ball" | "square" | "triangle",
+  x: number,
+  y: number,
+  radius: number,
+  options: Matter.IBodyDefinition
+): Matter.Body => {
+  switch (type) {
+    case "square":
+      return Bodies.rectangle(x, y, radius * 2, radius * 2, options)
+    case "triangle":
+      return Bodies.polygon(x, y, 3, radius, options)
+    case "ball":
+    default:
+      return Bodies.circle(x, y, radius, options)
+  }
+}
+
+/**
+ * Calculate bucket boundary positions. `bucketWeights` (one per bucket) scale
+ * each bucket's share of the width on top of the distribution's shape.
+ */
+export const bucketBounds = (
+  count: number,
+  totalWidth: number,
+  distribution: PlinkoConfig["bucketDistribution"],
+  bucketWeights: number[] = []
+): number[] => {
+  const isWeighted = bucketWeights.length === count
+  if ((distribution === "even" || distribution === "weighted") && !isWeighted) {
+    return Array.from({ length: count + 1 }, (_, i) => (i * totalWidth) / count)
+  }
+  const weights: number[] = []
+  for (let i = 0; i < count; i++) {
+    const t = count > 1 ? i / (count - 1) : 0.5
+    const curve = 1 + Math.cos((t - 0.5) * Math.PI)
+    const base = distribution === "middle" ? curve : distribution === "edge" ? 2 - curve : 1
+    weights.push(base * (isWeighted ? bucketWeights[i] : 1))
+  }
+  const sum = weights.reduce((a, b) => a + b, 0)
+  const bounds: number[] = [0]
+  let pos = 0
+  for (let i = 0; i < count; i++) {
+    pos += (totalWidth * weights[i]) / sum
+    bounds.push(pos)
+  }
+  return bounds
+}
+
+/**
+ * Decide the winning bucket(s) once every ball of the round has settled.
+ * More than one bucket means a tie that needs a tiebreaker round.
+ */
+export const evaluateWinners = (
+  counts: number[],
+  winCondition: PlinkoConfig["winCondition"],
+  firstBallBucket: number | null
+): number[] => {
+  switch (winCondition) {
+    case "first":
+      // "first" condition has no ties - single winner
+      return firstBallBucket !== null ? [firstBallBucket] : []
+    case "last-empty": {
+      const emptyBuckets = counts
+        .map((count, idx) => count === 0 ? idx : -1)
+        .filter(idx => idx >= 0)
+      if (emptyBuckets.length > 0) return emptyBuckets
+      const minCount = Math.min(...counts.filter(c => c > 0))
+      return counts
+        .map((count, idx) => count === minCount ? idx : -1)
+        .filter(idx => idx >= 0)
+    }
+    case "nth":
+    case "most":
+    case "ranking":
+    default: {
+      const maxCount = Math.max(...counts)
+      if (maxCount <= 0) return []
+      return counts
+        .map((count, idx) => count === maxCount ? idx : -1)
+        .filter(idx => idx >= 0)
+    }
+  }
+}
+
+/**
+ * Order buckets for the "ranking" win condition. Each stage holds the balls a
+ * bucket caught in one round (main round first, then each tiebreaker), and
+ * buckets are compared stage by stage - a tiebreaker only reorders buckets
+ * that were still tied. Returns groups from first to last; a group with more
+ * than one bucket is still tied.
+ */
+export const rankBuckets = (stages: number[][]): number[][] => {
+  if (stages.length === 0) return []
+  const buckets = stages[0].map((_, idx) => idx)
+  const compare = (a: number, b: number): number => {
+    for (const stage of stages) {
+      const diff = (stage[b] ?? 0) - (stage[a] ?? 0)
+      if (diff !== 0) return diff
+    }
+    return 0
+  }
+
+  const groups: number[][] = []
+  for (const bucket of [...buckets].sort((a, b) => compare(a, b) || a - b)) {
+    const lastGroup = groups[groups.length - 1]
+    if (lastGroup != null && compare(lastGroup[0], bucket) === 0) {
+      lastGroup.push(bucket)
+    } else {
+      groups.push([bucket])
+    }
+  }
+  return groups
+}
+
+/**
+ * PlinkoSimulation - Framework-free board, ball dropping, settle detection and
+ * win evaluation. Runs identically in the browser (wrapped by the React hooks)
+ * and headless in Node for batch fairness analysis.
+ */
+export class PlinkoSimulation {
+  readonly engine: Matter.Engine
+  readonly random: RandomSource
+  balls: Matter.Body[] = []
+  pins: Matter.Body[] = []
+  /** Every placed obstacle, including custom-layout pins (which are also in `pins`) */
+  obstacles: PlacedObstacle[] = []
+  bucketBounds: number[] = []
+  bucketCounts: number[]
+  stepCount = 0
+  dropped = 0
+  settled = 0
+  tiebreakerRound = 0
+  /** Balls that tunneled through the floor and were put in the nearest bucket */
+  escapedBalls = 0
+  firstBallBucket: number | null = null
+  ended = false
+  /** Whether balls are automatically dropped on the configured schedule */
+  isDropping = false
+  /** Player id per bucket, in bucket order ("players" drop mode) */
+  bucketOwners: string[] = []
+  /** Owner of each player-dropped ball, by body id */
+  ballOwners = new Map<number, string>()
+
+  private config: PlinkoConfig
+  private events: PlinkoSimulationEvents
+  private settledBallIds = new Set<number>()
+  private liveCountsPrev: number[]
+  private rankingStages: number[][] = []
+  private stageBaseline: number[]
+  private droppingSteps = 0
+  private ballIdCounter = 0
+  private zig: { x: number; dir: number }
+  private bucketWeights: number[]
+  private pendingDrops: PlayerDrop[] = []
+
+  constructor(
+    config: PlinkoConfig,
+    seed: number,
+    events: PlinkoSimulationEvents = {},
+    bucketWeights: number[] = []
+  ) {
+    this.config = config
+    this.events = events
+    this.bucketWeights = bucketWeights
+    this.random = createSeededRandom(seed)
+    this.bucketCounts = new Array(config.bucketCount).fill(0)
+    this.liveCountsPrev = new Array(config.bucketCount).fill(0)
+    this.stageBaseline = new Array(config.bucketCount).fill(0)
+
+    // Initialize zigzag at seeded position with seeded direction
+    const randomX = config.ballRadius + this.random() * (config.width - config.ballRadius * 2)
+    const randomDir = this.random() < 0.5 ? -1 : 1
+    this.zig = { x: randomX, dir: randomDir }
+
+    // Create engine with higher precision to prevent ball tunneling
+    this.engine = Engine.create()
+    this.engine.positionIterations = 12
+    this.engine.velocityIterations = 10
+    this.engine.constraintIterations = 4
+
+    this.buildBoard()
+    Events.on(this.engine, "collisionStart", this.handleCollisionStart)
+    Events.on(this.engine, "afterUpdate", this.detectSettledBalls)
+  }
+
+  /**
+   * Swap in new callbacks (e.g. when React re-renders with fresh handlers)
+   */
+  setEvents(events: PlinkoSimulationEvents): void {
+    this.events = events
+  }
+
+  /**
+   * Update settings that apply without rebuilding the board
+   */
+  setConfig(config: PlinkoConfig): void {
+    this.config = config
+  }
+
+  /**
+   * Advance the simulation by one fixed timestep
+   */
+  step(): void {
+    // Game over freezes physics - balls stay in place
+    if (this.ended) return
+
+    if (this.isDropping && this.config.dropMode === "players") {
+      this.dropPendingBalls()
+    } else if (this.isDropping) {
+      this.droppingSteps += 1
+      const dropIntervalSteps = Math.max(1, Math.round(this.config.dropDelay / FIXED_TIMESTEP_MS))
+      // Skip dropping once the round's ball count is reached (0 = unlimited);
+      // a tiebreaker resets `dropped` so dropping resumes
+      const hasBallsLeft = this.config.ballCount === 0 || this.dropped < this.config.ballCount
+      if (this.droppingSteps % dropIntervalSteps === 0 && hasBallsLeft) {
+        this.dropBall(this.nextDropX())
+        this.dropped += 1
+      }
+    }
+
+    this.updateObstacles()
+    Engine.update(this.engine, FIXED_TIMESTEP_MS)
+    this.stepCount += 1
+  }
+
+  /**
+   * Silently advance `steps` fixed steps, e.g. a spectator catching up with a
+   * round that started before they joined
+   */
+  fastForward(steps: number): void {
+    const events = this.events
+    this.events = {}
+    for (let i = 0; i < steps && !this.ended; i++) {
+      this.step()
+    }
+    this.events = events
+  }
+
+  /**
+   * Run headless until the round ends. Returns null if it doesn't finish
+   * within `maxSteps` - check `unfinishableReason` first for configs that never can.
+   */
+  runToCompletion(maxSteps = maxRoundSteps(this.config)): PlinkoSimulationOutcome | null {
+    let outcome: PlinkoSimulationOutcome | null = null
+    const previousOnGameEnd = this.events.onGameEnd
+    this.events = {
+      ...this.events,
+      onGameEnd: (winningBuckets, result) => {
+        outcome = { ...result, winningBuckets, steps: this.stepCount, escapedBalls: this.escapedBalls }
+        previousOnGameEnd?.(winningBuckets, result)
+      },
+    }
+    this.isDropping = true
+    while (!this.ended && this.stepCount < maxSteps) {
+      this.step()
+    }
+    return outcome
+  }
+
+  /**
+   * Player whose turn it is to aim, or null once every ball of the round is
+   * dropped or queued. Turns go round the buckets in order.
+   */
+  nextTurnOwner(): string | null {
+    const owners = this.bucketOwners
+    const taken = this.dropped + this.pendingDrops.length
+    if (owners.length === 0 || this.ended || taken >= roundBallCount(this.config)) return null
+    return owners[taken % owners.length]
+  }
+
+  /**
+   * Queue the current player's ball at `x`. Returns the drop (to share with
+   * spectators), or null if nobody has a turn.
+   */
+  aimPlayerDrop(x: number): PlayerDrop | null {
+    const ownerId = this.nextTurnOwner()
+    if (ownerId == null) return null
+    const drop = { step: this.stepCount + PLAYER_DROP_DELAY_STEPS, x, ownerId }
+    this.queuePlayerDrop(drop)
+    return drop
+  }
+
+  /**
+   * Queue a drop made elsewhere (e.g. by the host of a live session). Drops
+   * that are already overdue fall on the next step.
+   */
+  queuePlayerDrop(drop: PlayerDrop): void {
+    this.pendingDrops = [...this.pendingDrops, drop].sort((a, b) => a.step - b.step)
+  }
+
+  private dropPendingBalls(): void {
+    while (this.pendingDrops.length > 0 && this.pendingDrops[0].step <= this.stepCount) {
+      const [drop, ...rest] = this.pendingDrops
+      this.pendingDrops = rest
+      const { ballRadius, width } = this.config
+      const ball = this.dropBall(Math.min(width - ballRadius, Math.max(ballRadius, drop.x)))
+      this.ballOwners.set(ball.id, drop.ownerId)
+      this.dropped += 1
+    }
+  }
+
+  /**
+   * Pick the x position for the next scheduled drop
+   */
+  private nextDropX(): number {
+    const { width, ballRadius, dropLocation, pinColumns } = this.config
+    if (dropLocation === "random") {
+      return ballRadius + this.random() * (width - ballRadius * 2)
+    }
+    if (dropLocation === "zigzag") {
+      const x = this.zig.x
+      this.zig.x += (width / pinColumns) * this.zig.dir
+      if (this.zig.x < ballRadius || this.zig.x > width - ballRadius) {
+        this.zig.dir *= -1
+        this.zig.x = Math.max(ballRadius, Math.min(width - ballRadius, this.zig.x))
+      }
+      return x
+    }
+    return width / 2
+  }
+
+  dropBall(x?: number): Matter.Body {
+    const { config } = this
+    const dropX = x ?? config.width / 2
+
+    const ball = makeShape(config.ballShape, dropX, 0, config.ballRadius, {
+      restitution: config.ballRestitution,
+      friction: config.ballFriction,
+      angle: config.ballShape === "ball" ? 0 : this.random() * Math.PI * 2,
+      label: `ball-${this.ballIdCounter++}`
+    })
+
+    this.balls.push(ball)
+    Composite.add(this.engine.world, ball)
+
+    // Apply initial velocity if dropVelocity > 0
+    if (config.dropVelocity > 0) {
+      // Calculate angle: straight down (90 deg / PI/2 rad) plus random offset
+      const baseAngle = Math.PI / 2 // Straight down
+      const randomOffset = config.dropAngleRandomness > 0
+        ? ((this.random() - 0.5) * 2) * (config.dropAngleRandomness * Math.PI / 180)
+        : 0
+      const angle = baseAngle + randomOffset
+
+      // Convert to velocity vector
+      const vx = Math.cos(angle) * config.dropVelocity
+      let vy = Math.sin(angle) * config.dropVelocity
+
+      // Ensure vy is always positive (downward) - prevent balls from flying off screen
+      vy = Math.abs(vy)
+      // Also ensure a minimum downward velocity to prevent balls getting stuck
+      vy = Math.max(vy, config.dropVelocity * 0.1)
+
+      Body.setVelocity(ball, { x: vx, y: vy })
+    }
+
+    return ball
+  }
+
+  clearBalls(): void {
+    this.balls.forEach(ball => {
+      Composite.remove(this.engine.world, ball)
+    })
+    this.balls = []
+    this.ballOwners = new Map()
+    this.settledBallIds = new Set()
+  }
+
+  destroy(): void {
+    Events.off(this.engine, "afterUpdate", this.detectSettledBalls)
+    Events.off(this.engine, "collisionStart", this.handleCollisionStart)
+    Engine.clear(this.engine)
+    this.balls = []
+    this.pins = []
+    this.obstacles = []
+    this.bucketBounds = []
+    this.settledBallIds = new Set()
+  }
+
+  /**
+   * Move an obstacle's body without rebuilding the board (e.g. while it is
+   * dragged in the editor). Grid pins are found by their `row-col` id.
+   */
+  moveObstacle(obstacle: BoardObstacle, x: number, y: number): void {
+    const label = `${obstacle.type}-${obstacle.id}`
+    const body = this.pins.find(pin => pin.label === label) ??
+      this.obstacles.find(entry => entry.body.label === label)?.body
+    if (body != null) Body.setPosition(body, { x, y })
+  }
+
+  private buildBoard(): void {
+    const { config, engine } = this
+    const { width, height } = config
+
+    // Create walls - all walls thick enough to prevent tunneling at high velocities
+    const wallThickness = 200
+    const walls = [
+      Bodies.rectangle(width / 2, -wallThickness / 2, width + wallThickness * 2, wallThickness, { isStatic: true, label: "wall-ceiling" }),
+      Bodies.rectangle(width / 2, height + wallThickness / 2, width + wallThickness * 2, wallThickness, {
+        isStatic: true,
+        label: "wall-floor"
+      }),
+      Bodies.rectangle(-wallThickness / 2, height / 2, wallThickness, height + wallThickness * 2, { isStatic: true, label: "wall-left" }),
+      Bodies.rectangle(width + wallThickness / 2, height / 2, wallThickness, height + wallThickness * 2, { isStatic: true, label: "wall-right" })
+    ]
+    Composite.add(engine.world, walls)
+
+    // Create pins - a custom layout places them as obstacles instead
+    if (config.pinLayout === "grid") {
+      const pins = gridPinPositions(config).map(({ x, y, row, col }) => {
+        // For non-ball shapes, use random rotation for variety
+        const pinAngle = config.pinShape === "ball"
+          ? 0
+          : this.random() * Math.PI * 2
+        return makeShape(config.pinShape, x, y, config.pinRadius, {
+          isStatic: true,
+          restitution: config.pinRestitution,
+          friction: config.pinFriction,
+          angle: pinAngle,
+          label: `pin-${row}-${col}`
+        })
+      })
+      this.pins = pins
+      Composite.add(engine.world, pins)
+    }
+
+    this.buildObstacles()
+
+    // Create bucket dividers
+    const bounds = bucketBounds(config.bucketCount, width, config.bucketDistribution, this.bucketWeights)
+    this.bucketBounds = bounds
+    for (const x of bounds) {
+      Composite.add(engine.world, [
+        Bodies.rectangle(
+          x,
+          height - config.rimHeight / 2,
+          config.rimWidth,
+          config.rimHeight,
+          { isStatic: true, label: "bucket-divider" }
+        )
+      ])
+    }
+  }
+
+  private buildObstacles(): void {
+    const { config, engine } = this
+    let gateCount = 0
+    const placed: PlacedObstacle[] = []
+    for (const obstacle of config.obstacles) {
+      // Grid boards keep their own pins and only take the other obstacle types
+      if (obstacle.type === "pin" && config.pinLayout === "grid") continue
+
+      const { x, y } = obstaclePosition(obstacle, config)
+      const angle = obstacle.angle * Math.PI / 180
+      const label = `${obstacle.type}-${obstacle.id}`
+      let body: Matter.Body
+      if (obstacle.type === "pin") {
+        body = makeShape(config.pinShape, x, y, config.pinRadius, {
+          isStatic: true,
+          restitution: config.pinRestitution,
+          friction: config.pinFriction,
+          angle,
+          label
+        })
+        this.pins.push(body)
+      } else if (obstacle.type === "bumper") {
+        body = Bodies.circle(x, y, obstacle.size, {
+          isStatic: true,
+          restitution: BUMPER_RESTITUTION,
+          friction: 0,
+          label
+        })
+      } else {
+        body = Bodies.rectangle(x, y, obstacle.size, OBSTACLE_BAR_THICKNESS, {
+          isStatic: true,
+          restitution: config.pinRestitution,
+          friction: config.pinFriction,
+          angle,
+          label
+        })
+        if (obstacle.type === "gate") {
+          body.collisionFilter.category = FIRST_GATE_CATEGORY << (gateCount % GATE_CATEGORY_BITS)
+          gateCount += 1
+        }
+      }
+      placed.push({ obstacle, body })
+    }
+    this.obstacles = placed
+    Composite.add(engine.world, placed.map(entry => entry.body))
+  }
+
+  // Spin spinners to their angle for this step and open gates to balls moving
+  // through them the right way. Spinners are static bodies moved by hand
+  // (kinematic), with the angle change passed on as velocity so they bat
+  // balls instead of just pushing them out of the way.
+  private updateObstacles(): void {
+    const seconds = (this.stepCount * FIXED_TIMESTEP_MS) / 1000
+    const gates: Matter.Body[] = []
+    for (const { obstacle, body } of this.obstacles) {
+      if (obstacle.type === "spinner") {
+        const angle = (obstacle.angle + (obstacle.speed ?? 0) * seconds) * Math.PI / 180
+        const turn = angle - body.angle
+        Body.setAngle(body, angle)
+        Body.setAngularVelocity(body, turn)
+      } else if (obstacle.type === "gate") {
+        gates.push(body)
+      }
+    }
+    if (gates.length === 0) return
+
+    for (const ball of this.balls) {
+      let mask = 0xffffffff
+      for (const gate of gates) {
+        const normal = gateNormal(gate.angle)
+        if (ball.velocity.x * normal.x + ball.velocity.y * normal.y > 0) {
+          mask &= ~(gate.collisionFilter.category ?? 0)
+        }
+      }
+      ball.collisionFilter.mask = mask
+    }
+  }
+
+  // Collision detection for sounds/effects
+  private handleCollisionStart = (event: Matter.IEventCollision<Matter.Engine>): void => {
+    const onCollision = this.events.onCollision
+    if (onCollision == null) return
+
+    event.pairs.forEach((pair) => {
+      const isBallPin =
+        (pair.bodyA.label.startsWith("ball") && isObstacleLabel(pair.bodyB.label)) ||
+        (pair.bodyB.label.startsWith("ball") && isObstacleLabel(pair.bodyA.label))
+
+      if (isBallPin) {
+        const [ball, obstacle] = pair.bodyA.label.startsWith("ball") ? [pair.bodyA, pair.bodyB] : [pair.bodyB, pair.bodyA]
+        const velocity = Math.sqrt(ball.velocity.x ** 2 + ball.velocity.y ** 2)
+        onCollision(
+          velocity,
+          { x: ball.position.x, y: ball.position.y },
+          { x: obstacle.position.x, y: obstacle.position.y }
+        )
+      }
+    })
+  }
+
+  // Ball settle detection, run after every engine update
+  private detectSettledBalls = (): void => {
+    const currentBounds = this.bucketBounds
+    const currentConfig = this.config
+    const settleZone = currentConfig.height - 60
+    // Safety threshold: if ball falls this far below the floor, it has escaped
+    const escapeThreshold = currentConfig.height + 100
+
+    // Iterate a copy - settling may remove balls or end the game
+    for (const ball of [...this.balls]) {
+      if (this.ended) return
+      if (this.settledBallIds.has(ball.id)) continue
+
+      // Check if ball has settled (low velocity and in bucket zone)
+      // Using both vertical and horizontal velocity for more reliable detection
+      const speed = Math.sqrt(ball.velocity.x ** 2 + ball.velocity.y ** 2)
+      const isInSettleZone = ball.position.y > settleZone && speed < 2
+      // Safety net: ball has fallen through the floor (tunneling)
+      const hasEscaped = ball.position.y > escapeThreshold
+
+      if (!isInSettleZone && !hasEscaped) continue
+
+      // Determine bucket based on x position
+      let bucketIndex = -1
+      for (let i = 0; i < currentBounds.length - 1; i++) {
+        if (ball.position.x >= currentBounds[i] && ball.position.x < currentBounds[i + 1]) {
+          bucketIndex = i
+          break
+        }
+      }
+
+      // Fallback: if ball x is outside bounds, clamp to nearest bucket
+      if (bucketIndex < 0 && currentBounds.length > 1) {
+        if (ball.position.x < currentBounds[0]) {
+          bucketIndex = 0 // Left-most bucket
+        } else {
+          bucketIndex = currentBounds.length - 2 // Right-most bucket
+        }
+      }
+
+      if (bucketIndex < 0) continue
+
+      this.settledBallIds.add(ball.id)
+
+      if (hasEscaped) this.escapedBalls += 1
+
+      this.handleBallSettle(bucketIndex, ball)
+
+      // Remove escaped balls or optionally destroy settled balls
+      if (hasEscaped || currentConfig.destroyBalls) {
+        Composite.remove(this.engine.world, ball)
+        this.balls = this.balls.filter(b => b.id !== ball.id)
+      }
+    }
+  }
+
+  private handleBallSettle(bucketIndex: number, ball: Matter.Body): void {
+    this.settled += 1
+    // Own-bucket scoring: a player's ball only counts in their own bucket
+    const ownerId = this.ballOwners.get(ball.id)
+    const isScoring = ownerId == null || this.config.playerScoring === "any" ||
+      ownerId === this.bucketOwners[bucketIndex]
+    if (!isScoring) {
+      this.events.onBallSettle?.(bucketIndex)
+      this.checkWinCondition()
+      return
+    }
+
+    const modifier = this.bucketModifier(bucketIndex)
+    const counts = this.bucketCounts
+    counts[bucketIndex] = (counts[bucketIndex] || 0) + (modifier === "double" ? 2 : 1)
+    if (modifier === "reset") {
+      counts[bucketIndex] = 0
+    } else if (modifier === "steal") {
+      // Take from whichever neighbor has more (the left one on a tie)
+      const neighbors = [bucketIndex - 1, bucketIndex + 1].filter(i => (counts[i] ?? 0) > 0)
+      const victim = neighbors.reduce<number | null>(
+        (best, i) => best == null || counts[i] > counts[best] ? i : best,
+        null
+      )
+      if (victim != null) {
+        counts[victim] -= 1
+        counts[bucketIndex] += 1
+      }
+    }
+
+    // Track first ball for "first" win condition
+    if (this.firstBallBucket === null) {
+      this.firstBallBucket = bucketIndex
+    }
+
+    this.events.onBallSettle?.(bucketIndex, modifier)
+    if (modifier === "jackpot") {
+      this.endWithJackpot(bucketIndex)
+      return
+    }
+    this.checkWinCondition()
+  }
+
+  private bucketModifier(bucketIndex: number): BucketModifierType | undefined {
+    return this.config.bucketModifiers.find(m => m.bucket === bucketIndex)?.type
+  }
+
+  // A jackpot bucket wins outright. Under "last-empty" (and so in tournaments)
+  // landing a ball is bad, so jackpots are ordinary buckets there.
+  private endWithJackpot(bucketIndex: number): void {
+    if (this.config.winCondition === "last-empty") {
+      this.checkWinCondition()
+      return
+    }
+    if (this.config.winCondition !== "ranking") {
+      this.endGame([bucketIndex])
+      return
+    }
+    // The rest are ranked on what they have so far, the unfinished stage included
+    const stages = [
+      ...this.rankingStages,
+      this.bucketCounts.map((count, idx) => count - (this.stageBaseline[idx] ?? 0))
+    ]
+    const rest = rankBuckets(stages).flatMap(group => {
+      const others = group.filter(bucket => bucket !== bucketIndex)
+      return others.length > 1 ? shuffleWithRandom(others, this.random) : others
+    })
+    this.endGame([bucketIndex], [bucketIndex, ...rest])
+  }
+
+  private checkWinCondition(): void {
+    if (this.ended) return
+
+    const { config } = this
+    const counts = this.bucketCounts
+
+    // For "nth" condition, check during play (first bucket to reach N balls wins)
+    // No tiebreaker needed - first to reach N wins
+    if (config.winCondition === "nth") {
+      for (let i = 0; i < counts.length; i++) {
+        if (counts[i] >= config.winNth && (this.liveCountsPrev[i] || 0) < config.winNth) {
+          this.endGame([i])
+          return
+        }
+      }
+      this.liveCountsPrev = [...counts]
+      return
+    }
+
+    // For other conditions, wait until all balls have been dropped AND settled
+    // Skip if ballCount is 0 (unlimited mode)
+    const expectedBalls = roundBallCount(config)
+    if (expectedBalls === 0) return
+    if (this.dropped < expectedBalls) return
+    if (this.settled < expectedBalls) return
+
+    if (config.winCondition === "ranking") {
+      this.checkRanking()
+      return
+    }
+
+    const winnerBuckets = evaluateWinners(counts, config.winCondition, this.firstBallBucket)
+
+    // Every ball was lost to reset traps - everyone plays another round
+    if (winnerBuckets.length === 0) {
+      const allBuckets = counts.map((_, idx) => idx)
+      if (this.tiebreakerRound < MAX_EMPTY_ROUND_REPLAYS) {
+        this.startTiebreaker(allBuckets)
+      } else {
+        this.endGame(shuffleWithRandom(allBuckets, this.random).slice(0, 1))
+      }
+      return
+    }
+
+    // Check for ties - if multiple winners, start tiebreaker round
+    if (winnerBuckets.length > 1) {
+      // Tiebreaker: reset drop counters but KEEP bucket counts (they accumulate)
+      // This allows another round of balls to be dropped
+      this.startTiebreaker(winnerBuckets)
+      return
+    }
+
+    if (winnerBuckets.length === 1) {
+      this.endGame(winnerBuckets)
+    }
+  }
+
+  // Close out the finished round as a ranking stage, then either break the
+  // remaining ties with another round or publish the full order
+  private checkRanking(): void {
+    const counts = this.bucketCounts
+    this.rankingStages.push(counts.map((count, idx) => count - (this.stageBaseline[idx] ?? 0)))
+    this.stageBaseline = [...counts]
+
+    const groups = rankBuckets(this.rankingStages)
+    const tiedBuckets = groups.filter(group => group.length > 1).flat()
+    if (tiedBuckets.length > 0 && this.tiebreakerRound < MAX_RANKING_TIEBREAKERS) {
+      this.startTiebreaker(tiedBuckets)
+      return
+    }
+
+    const ranking = groups.flatMap(group =>
+      group.length > 1 ? shuffleWithRandom(group, this.random) : group
+    )
+    this.endGame(ranking.slice(0, 1), ranking)
+  }
+
+  private startTiebreaker(tiedBuckets: number[]): void {
+    this.tiebreakerRound += 1
+    this.dropped = 0
+    this.settled = 0
+    this.events.onTiebreaker?.(this.tiebreakerRound, tiedBuckets)
+  }
+
+  private endGame(winningBuckets: number[], ranking?: number[]): void {
+    this.ended = true
+    this.events.onGameEnd?.(winningBuckets, {
+      bucketCounts: [...this.bucketCounts],
+      tiebreakerRounds: this.tiebreakerRound,
+      ranking,
+    })
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest"
+import { defaultConfig } from "../types"
+import {
+  buildFairnessReport,
+  chiSquareUniformity,
+  playWinDistribution,
+  runWinDistribution,
+  UNFAIR_P_VALUE,
+  type WinDistribution,
+} from "./fairness"
+
+const distribution = (wins: number[]): WinDistribution => {
+  const completed = wins.reduce((a, b) => a + b, 0)
+  return {
+    seed: 1,
+    rounds: completed,
+    completed,
+    incomplete: 0,
+    tiebreakers: 0,
+    escapedBalls: 0,
+    wins,
+    winRates: wins.map(count => count / completed),
+  }
+}
+
+describe("chiSquareUniformity", () => {
+  it("scores perfectly even counts as fair", () => {
+    expect(chiSquareUniformity([25, 25, 25, 25])).toEqual({ statistic: 0, degreesOfFreedom: 3, pValue: 1 })
+  })
+
+  it("matches the chi-square survival function", () => {
+    // χ² = 10 with 1 degree of freedom
+    const result = chiSquareUniformity([10, 0])
+    expect(result.statistic).toBe(10)
+    expect(result.pValue).toBeCloseTo(0.001565, 5)
+    // χ² = 6 with 2 degrees of freedom: p = e^-3
+    expect(chiSquareUniformity([8, 2, 2]).pValue).toBeCloseTo(Math.exp(-3), 8)
+  })
+
+  it("treats empty or single-bucket counts as uninformative", () => {
+    expect(chiSquareUniformity([0, 0, 0]).pValue).toBe(1)
+    expect(chiSquareUniformity([12])).toEqual({ statistic: 0, degreesOfFreedom: 0, pValue: 1 })
+  })
+})
+
+describe("buildFairnessReport", () => {
+  it("flags lopsided distributions", () => {
+    const report = buildFairnessReport(distribution([90, 5, 5]))
+    expect(report.chiSquare.pValue).toBeLessThan(UNFAIR_P_VALUE)
+    expect(report.isUnfair).toBe(true)
+  })
+
+  it("leaves near-even distributions alone", () => {
+    expect(buildFairnessReport(distribution([34, 33, 33])).isUnfair).toBe(false)
+  })
+
+  it("never flags a batch with no completed rounds", () => {
+    expect(buildFairnessReport({ ...distribution([0, 0]), rounds: 3, incomplete: 3 }).isUnfair).toBe(false)
+  })
+})
+
+describe("runWinDistribution", () => {
+  const config = { ...defaultConfig, ballCount: 3, pinRows: 4, bucketCount: 3, dropDelay: 50 }
+
+  it("is reproducible from the batch seed", () => {
+    const first = runWinDistribution(config, 3, 42)
+    const second = runWinDistribution(config, 3, 42)
+    expect(second).toEqual(first)
+    expect(first.completed + first.incomplete).toBe(3)
+    expect(first.winRates).toHaveLength(3)
+  })
+
+  it("yields after every round when played step by step", () => {
+    const steps = playWinDistribution(config, 2, 7)
+    expect(steps.next()).toEqual({ done: false, value: 1 })
+    expect(steps.next()).toEqual({ done: false, value: 2 })
+    const last = steps.next()
+    expect(last.done).toBe(true)
+    expect(last.value).toEqual(runWinDistribution(config, 2, 7))
+  })
+})
@@ -0,0 +1,190 @@
+import type { PlinkoConfig } from "../types"
+import { createSeededRandom } from "../utils/random"
+import { PlinkoSimulation } from "./PlinkoSimulation"
+
+// A config is flagged as unfair when uniform bucket odds are this unlikely
+export const UNFAIR_P_VALUE = 0.01
+
+export interface WinDistribution {
+  seed: number
+  rounds: number
+  completed: number
+  incomplete: number
+  tiebreakers: number
+  /** Balls that tunneled through the floor across the batch */
+  escapedBalls: number
+  wins: number[]
+  winRates: number[]
+}
+
+export interface ChiSquareResult {
+  statistic: number
+  degreesOfFreedom: number
+  pValue: number
+}
+
+export interface FairnessReport extends WinDistribution {
+  chiSquare: ChiSquareResult
+  isUnfair: boolean
+}
+
+/**
+ * Play `rounds` headless rounds and tally which bucket won each one, yielding
+ * the number of rounds done after each so callers can pace the work. Per-round
+ * seeds are derived from `seed`, so the whole batch is reproducible.
+ * `bucketWeights` widen or narrow buckets the same way the live board does.
+ */
+export function* playWinDistribution(
+  config: PlinkoConfig,
+  rounds: number,
+  seed: number,
+  bucketWeights: number[] = []
+): Generator<number, WinDistribution, void> {
+  const nextSeed = createSeededRandom(seed)
+  const wins = new Array<number>(config.bucketCount).fill(0)
+  let tiebreakers = 0
+  let incomplete = 0
+  let escapedBalls = 0
+
+  for (let i = 0; i < rounds; i++) {
+    const roundSeed = 1 + Math.floor(nextSeed() * 0xfffffffe)
+    const simulation = new PlinkoSimulation(config, roundSeed, {}, bucketWeights)
+    const outcome = simulation.runToCompletion()
+    escapedBalls += simulation.escapedBalls
+    simulation.destroy()
+
+    if (outcome == null) {
+      incomplete++
+    } else {
+      if (outcome.tiebreakerRounds > 0) tiebreakers++
+      // Shared wins count for every winning bucket
+      outcome.winningBuckets.forEach(bucket => {
+        wins[bucket]++
+      })
+    }
+    yield i + 1
+  }
+
+  const completed = rounds - incomplete
+  return {
+    seed,
+    rounds,
+    completed,
+    incomplete,
+    tiebreakers,
+    escapedBalls,
+    wins,
+    winRates: wins.map(count => (completed > 0 ? count / completed : 0)),
+  }
+}
+
+/**
+ * Play a whole batch in one go (see `playWinDistribution`)
+ */
+export function runWinDistribution(
+  config: PlinkoConfig,
+  rounds: number,
+  seed: number,
+  bucketWeights: number[] = [],
+  onRoundComplete?: (completedRounds: number) => void
+): WinDistribution {
+  const steps = playWinDistribution(config, rounds, seed, bucketWeights)
+  for (let step = steps.next(); ; step = steps.next()) {
+    if (step.done === true) return step.value
+    onRoundComplete?.(step.value)
+  }
+}
+
+/**
+ * Pearson chi-square test of the observed counts against equal odds per bucket
+ */
+export function chiSquareUniformity(counts: number[]): ChiSquareResult {
+  const total = counts.reduce((a, b) => a + b, 0)
+  const degreesOfFreedom = counts.length - 1
+  if (total === 0 || degreesOfFreedom < 1) {
+    return { statistic: 0, degreesOfFreedom: Math.max(0, degreesOfFreedom), pValue: 1 }
+  }
+
+  const expected = total / counts.length
+  const statistic = counts.reduce((sum, observed) => sum + (observed - expected) ** 2 / expected, 0)
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue: regularizedGammaQ(degreesOfFreedom / 2, statistic / 2),
+  }
+}
+
+/**
+ * Attach the chi-square score and unfairness verdict to a win distribution
+ */
+export function buildFairnessReport(distribution: WinDistribution): FairnessReport {
+  const chiSquare = chiSquareUniformity(distribution.wins)
+  return {
+    ...distribution,
+    chiSquare,
+    isUnfair: distribution.completed > 0 && chiSquare.pValue < UNFAIR_P_VALUE,
+  }
+}
+
+// Lanczos approximation of ln(Γ(x))
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012,
+  9.9843695780195716e-6, 1.5056327351493116e-7,
+]
+
+const logGamma = (x: number): number => {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x)
+  }
+  const z = x - 1
+  let sum = 0.99999999999980993
+  LANCZOS.forEach((c, i) => {
+    sum += c / (z + i + 1)
+  })
+  const t = z + LANCZOS.length - 0.5
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum)
+}
+
+const GAMMA_EPSILON = 1e-12
+const GAMMA_MAX_ITERATIONS = 500
+
+/**
+ * Upper regularized incomplete gamma Q(a, x) - the chi-square survival function
+ * is Q(k / 2, χ² / 2). Series for small x, continued fraction otherwise.
+ */
+const regularizedGammaQ = (a: number, x: number): number => {
+  if (x <= 0) return 1
+  const logPrefix = a * Math.log(x) - x - logGamma(a)
+
+  if (x < a + 1) {
+    let term = 1 / a
+    let sum = term
+    for (let n = 1; n < GAMMA_MAX_ITERATIONS; n++) {
+      term *= x / (a + n)
+      sum += term
+      if (Math.abs(term) < Math.abs(sum) * GAMMA_EPSILON) break
+    }
+    return Math.max(0, 1 - sum * Math.exp(logPrefix))
+  }
+
+  // Lentz's method for the continued fraction
+  const tiny = 1e-300
+  let b = x + 1 - a
+  let c = 1 / tiny
+  let d = 1 / b
+  let h = d
+  for (let n = 1; n < GAMMA_MAX_ITERATIONS; n++) {
+    const an = -n * (n - a)
+    b += 2
+    d = an * d + b
+    if (Math.abs(d) < tiny) d = tiny
+    c = b + an / c
+    if (Math.abs(c) < tiny) c = tiny
+    d = 1 / d
+    const delta = d * c
+    h *= delta
+    if (Math.abs(delta - 1) < GAMMA_EPSILON) break
+  }
+  return Math.min(1, h * Math.exp(logPrefix))
+}
@@ -0,0 +1,40 @@
+import type { PlinkoConfig } from "../types"
+import { buildFairnessReport, runWinDistribution, type FairnessReport } from "./fairness"
+
+export interface FairnessWorkerRequest {
+  config: PlinkoConfig
+  rounds: number
+  seed: number
+  /** Relative bucket widths, as on the live board */
+  bucketWeights: number[]
+}
+
+export type FairnessWorkerMessage =
+  | { type: "progress"; completedRounds: number; totalRounds: number }
+  | { type: "done"; report: FairnessReport }
+  | { type: "error"; message: string }
+
+const ctx = self as unknown as {
+  onmessage: ((event: MessageEvent<FairnessWorkerRequest>) => void) | null
+  postMessage: (message: FairnessWorkerMessage) => void
+}
+
+// Report progress every few rounds rather than flooding the main thread
+const PROGRESS_INTERVAL = 5
+
+ctx.onmessage = event => {
+  const { config, rounds, seed, bucketWeights } = event.data
+  try {
+    const distribution = runWinDistribution(config, rounds, seed, bucketWeights, completedRounds => {
+      if (completedRounds % PROGRESS_INTERVAL === 0 || completedRounds === rounds) {
+        ctx.postMessage({ type: "progress", completedRounds, totalRounds: rounds })
+      }
+    })
+    ctx.postMessage({ type: "done", report: buildFairnessReport(distribution) })
+  } catch (error) {
+    ctx.postMessage({
+      type: "error",
+      message: error instanceof Error ? error.message : "Simulation failed",
+    })
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./PlinkoSimulation"
+export * from "./fairness"
+export * from "./obstacles"
@@ -0,0 +1,74 @@
+import type { BoardObstacle, BoardObstacleType, PlinkoConfig } from "../types"
+
+// Bumpers hand back more energy than they receive
+export const BUMPER_RESTITUTION = 1.2
+
+// Thickness of spinner, deflector and gate bars
+export const OBSTACLE_BAR_THICKNESS = 6
+
+/**
+ * Starting size and spinner speed for newly placed obstacles
+ */
+export const obstacleDefaults: Record<BoardObstacleType, { size: number; speed?: number }> = {
+  pin: { size: 3 },
+  bumper: { size: 14 },
+  spinner: { size: 60, speed: 180 },
+  deflector: { size: 80 },
+  gate: { size: 50 }
+}
+
+export interface GridPin {
+  x: number
+  y: number
+  row: number
+  col: number
+}
+
+/**
+ * Pin positions of the staggered grid layout
+ */
+export function gridPinPositions(config: PlinkoConfig): GridPin[] {
+  const { width, height } = config
+  // Ensure minimum wall gap to prevent balls from getting stuck (at least 2 ball diameters)
+  const minWallGap = config.ballRadius * 4
+  const effectiveWallGap = Math.max(config.pinWallGap, minWallGap)
+  // Calculate spacing so that offset rows (which add half-spacing) still stay within bounds
+  // For offset rows: rightmost pin = effectiveWallGap + (cols-1)*spacing + spacing/2
+  // We want this to equal width - effectiveWallGap, so:
+  // spacing * (cols - 1 + 0.5) = width - 2*effectiveWallGap
+  // spacing = (width - 2*effectiveWallGap) / (cols - 0.5)
+  const xSpacing = (width - effectiveWallGap * 2) / (config.pinColumns - 0.5)
+  const yStart = config.ceilingGap
+  const yEnd = height - config.rimHeight - config.pinRimGap
+  const ySpacing = config.pinRows > 1 ? (yEnd - yStart) / (config.pinRows - 1) : 0
+
+  const pins: GridPin[] = []
+  for (let row = 0; row < config.pinRows; row++) {
+    for (let col = 0; col < config.pinColumns; col++) {
+      pins.push({
+        x: effectiveWallGap + col * xSpacing + (row % 2 === 0 ? 0 : xSpacing / 2),
+        y: yStart + row * ySpacing,
+        row,
+        col
+      })
+    }
+  }
+  return pins
+}
+
+/**
+ * Board position of an obstacle in pixels
+ */
+export const obstaclePosition = (obstacle: BoardObstacle, config: PlinkoConfig): { x: number; y: number } => ({
+  x: obstacle.x * config.width,
+  y: obstacle.y * config.height
+})
+
+/**
+ * Direction a gate lets balls through: the bar's normal, pointing down when
+ * the gate is level
+ */
+export const gateNormal = (angle: number): { x: number; y: number } => ({
+  x: -Math.sin(angle),
+  y: Math.cos(angle)
+})
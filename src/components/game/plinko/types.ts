@@ -5,6 +5,59 @@ export interface PlayerProfile {
   active: boolean
   avatarUrl?: string
   archived?: boolean
+  tournamentWins?: number
+  weight?: number // Relative bucket width in the "weighted" distribution (default 1)
+  winsResetFor?: string // Last season whose wins were taken off `wins`
+}
+
+export type BoardObstacleType = "pin" | "bumper" | "spinner" | "deflector" | "gate"
+
+/**
+ * A hand-placed board element. Position is a fraction of the board size so
+ * layouts survive resizing.
+ */
+export interface BoardObstacle {
+  id: string
+  type: BoardObstacleType
+  x: number
+  y: number
+  angle: number // Degrees clockwise; gates let balls through moving along their downward normal
+  size: number // Bumper radius or bar length in pixels; pins follow the Pins settings
+  speed?: number // Spinners only: degrees per second, negative = counter-clockwise
+}
+
+export type BucketModifierType = "double" | "steal" | "reset" | "jackpot"
+
+/**
+ * Special rule for one bucket: "double" counts each ball twice, "steal" also
+ * takes a ball from the fuller neighbor, "reset" empties the bucket, and
+ * "jackpot" ends the round with that bucket winning
+ */
+export interface BucketModifier {
+  bucket: number
+  type: BucketModifierType
+}
+
+/**
+ * Board colors. Every field is a #rrggbb hex color (translucent effects add
+ * their own alpha) so custom themes can be edited with color pickers.
+ */
+export interface RenderTheme {
+  background: string // Top of the board gradient
+  backgroundEnd: string // Bottom of the board gradient
+  pinColor: string
+  pinGlow: string
+  ballGradientStart: string
+  ballGradientEnd: string
+  ballTrail: string
+  bucketDivider: string
+  bucketHighlight: string
+  wallColor: string
+  bumperColor: string
+  bumperRing: string
+  spinnerColor: string
+  deflectorColor: string
+  gateColor: string
 }
 
 export interface PlinkoConfig {
@@ -18,6 +71,9 @@ export interface PlinkoConfig {
   dropAngleRandomness: number // Degrees of randomness for drop angle (0 = straight down)
   dropVelocity: number // Initial velocity magnitude (0 = just gravity)
   dropDelay: number // Milliseconds between ball drops
+  dropMode: "auto" | "players" // Players = each player aims and drops their own balls in turn
+  ballsPerPlayer: number // Balls each player drops per round ("players" drop mode)
+  playerScoring: "own-bucket" | "any" // Own-bucket = only a player's own balls count in their bucket
   pinRadius: number
   pinRows: number
   pinColumns: number
@@ -25,6 +81,8 @@ export interface PlinkoConfig {
   pinFriction: number
   pinShape: "ball" | "square" | "triangle"
   pinAngle: number
+  pinLayout: "grid" | "custom" // Custom = pins come from `obstacles` instead of the staggered grid
+  obstacles: BoardObstacle[] // Hand-placed pins, bumpers, spinners, deflectors and gates
   pinWallGap: number
   pinRimGap: number
   ceilingGap: number
@@ -32,13 +90,231 @@ export interface PlinkoConfig {
   rimHeight: number
   rimWidth: number
   bucketCount: number
-  bucketDistribution: "even" | "middle" | "edge"
-  winCondition: "nth" | "most" | "first" | "last-empty"
+  bucketDistribution: "even" | "middle" | "edge" | "weighted"
+  bucketModifiers: BucketModifier[] // At most one per bucket; buckets past bucketCount are ignored
+  antiStreak: boolean // Narrow the buckets of recent winners
+  antiStreakWindow: number // How many past rounds count toward a streak
+  winCondition: "nth" | "most" | "first" | "last-empty" | "ranking"
   winNth: number
+  seed: number // Fixed round seed (0 = pick a new random seed every round)
+  gameMode: "single" | "tournament" // Tournament = elimination rounds until one player remains
+  customTheme: RenderTheme | null // Board colors used instead of the light/dark palette (null = follow the page theme)
+  speakerOrder: SpeakerOrder // Standup order after the round's winner(s), who always speak first
+  speakerSeconds: number // Standup time per speaker
+  speakerWarningSeconds: number // Soft warning this many seconds before a speaker's time is up (0 = none)
   width: number
   height: number
 }
 
+/**
+ * Outcome details reported by the board when a round ends
+ */
+export interface PlinkoRoundResult {
+  bucketCounts: number[]
+  tiebreakerRounds: number
+  ranking?: number[] // Every bucket in finishing order ("ranking" win condition)
+}
+
+/**
+ * A ball a player aimed ("players" drop mode). `step` is the simulation step
+ * it falls on, so every viewer replays it at the same moment.
+ */
+export interface PlayerDrop {
+  step: number
+  x: number
+  ownerId: string
+}
+
+/**
+ * A finished round, kept for replays. Rounds are deterministic, so the seed
+ * and the input timeline (player drops) rebuild every frame.
+ */
+export interface RoundReplay {
+  timestamp: number
+  config: PlinkoConfig
+  seed: number
+  bucketWeights: number[]
+  bucketAssignments: string[]
+  playerDrops: PlayerDrop[]
+  /** The round's players, as they were when it was played */
+  players: PlayerProfile[]
+  winningBuckets: number[]
+  /** Simulation steps the round took */
+  steps: number
+}
+
+/**
+ * Persisted record of one completed round
+ */
+export interface RoundRecord {
+  id: string
+  timestamp: number
+  seed: number
+  participants: Array<{ id: string; name: string }>
+  bucketAssignments: string[]
+  bucketCounts: number[]
+  winCondition: PlinkoConfig["winCondition"]
+  winNth?: number
+  tiebreakerRounds: number
+  winnerIds: string[]
+  speakingOrder?: string[] // Player ids in finishing order ("ranking" win condition)
+  standup?: StandupRecord // Set once the standup after the round has finished
+}
+
+/**
+ * Standup queue order after the winner(s): left-to-right buckets, most balls
+ * caught first, or shuffled by the round seed
+ */
+export type SpeakerOrder = "buckets" | "ranking" | "random"
+
+/**
+ * One player's turn in a standup. Snoozed players keep their time when they come back round.
+ */
+export interface StandupSpeaker {
+  playerId: string
+  status: "spoke" | "skipped" | "absent"
+  durationMs: number
+}
+
+/**
+ * Timekeeping for the standup after a round
+ */
+export interface StandupRecord {
+  roundId: string
+  startedAt: number
+  endedAt: number
+  totalMs: number
+  speakers: StandupSpeaker[] // In the order they finished
+}
+
+/**
+ * A player's place in a season's final standings
+ */
+export interface SeasonStanding {
+  playerId: string
+  name: string
+  wins: number
+}
+
+/**
+ * A named stretch of play. The open season has no `closedAt`; closing one
+ * snapshots the standings and starts `wins` again from zero for everyone
+ * who isn't archived.
+ */
+export interface Season {
+  id: string
+  name: string
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD, when it's due to close
+  closedAt?: number
+  winsBaseline?: Record<string, number> // Each player's wins when the season opened
+  standings?: SeasonStanding[] // Most wins first, set on close
+  championIds?: string[] // Most wins when it closed (none if nobody won)
+}
+
+/**
+ * Who was in on one day, built up from the roster each time a round started
+ */
+export interface AttendanceDay {
+  date: string // Local calendar day, YYYY-MM-DD
+  rounds: number // Counted rounds that day
+  enrolledIds: string[] // Enrolled for at least one round
+  inactiveIds: string[] // On the roster but never enrolled
+  archivedIds: string[]
+  roundsAttended: Record<string, number> // Rounds each player was enrolled for
+  wins: Record<string, number> // Counted round wins
+}
+
+/**
+ * A change to a day's attendance: the roster checked in for a counted round,
+ * or the winners of a counted round
+ */
+export type AttendanceEvent =
+  | { type: "check-in"; date: string; enrolledIds: string[]; inactiveIds: string[]; archivedIds: string[] }
+  | { type: "wins"; date: string; playerIds: string[] }
+
+/**
+ * Who made a change: someone in the app, the game itself (round and tournament
+ * wins), or anything else calling the API directly
+ */
+export type AuditSource = "manual" | "game" | "api"
+
+/**
+ * Where a change came from, sent along with writes that get audited
+ */
+export interface AuditContext {
+  source: AuditSource
+  revertOf?: string // Id of the audit event this change undoes
+}
+
+/**
+ * One player's fields before and after a change. Only changed fields are kept,
+ * except when a player is added (`before` is null) or removed (`after` is
+ * null), where the whole profile is.
+ */
+export interface PlayerAuditChange {
+  playerId: string
+  name: string
+  before: Partial<PlayerProfile> | null
+  after: Partial<PlayerProfile> | null
+}
+
+export interface ConfigAuditChange {
+  key: keyof PlinkoPresetConfig
+  before: unknown
+  after: unknown
+}
+
+/**
+ * A recorded change to the roster or the saved config
+ */
+export type AuditEvent = AuditContext & {
+  id: string
+  timestamp: number
+  revertedAt?: number // Set when a revert of this change is claimed, before it's applied
+} & (
+  | { target: "players"; changes: PlayerAuditChange[] }
+  | { target: "config"; changes: ConfigAuditChange[] }
+)
+
+/**
+ * One elimination round of a tournament
+ */
+export interface TournamentElimination {
+  round: number
+  eliminatedIds: string[]
+  bucketCounts: number[]
+  remaining: number
+}
+
+/**
+ * Progress of an elimination tournament; finished once `championId` is set
+ */
+export interface TournamentState {
+  id: string
+  startedAt: number
+  entrantIds: string[]
+  survivorIds: string[]
+  eliminations: TournamentElimination[]
+  championId?: string
+  /** Set while a round that knocked out nobody, or everybody, is played again */
+  replay?: { reason: "nobody-out" | "everyone-out"; count: number }
+}
+
+// Board size follows the viewer's screen, so presets leave it alone
+export type PlinkoPresetConfig = Omit<PlinkoConfig, "width" | "height">
+
+/**
+ * A named board setup. `config` holds overrides on top of `defaultConfig`.
+ */
+export interface PlinkoPreset {
+  id: string
+  name: string
+  config: Partial<PlinkoPresetConfig>
+  builtIn?: boolean
+  createdAt?: number
+}
+
 export const defaultConfig: PlinkoConfig = {
   ballCount: 10,
   ballRadius: 8,
@@ -50,6 +326,9 @@ export const defaultConfig: PlinkoConfig = {
   dropAngleRandomness: 0,
   dropVelocity: 0,
   dropDelay: 500,
+  dropMode: "auto",
+  ballsPerPlayer: 3,
+  playerScoring: "own-bucket",
   pinRadius: 3,
   pinRows: 10,
   pinColumns: 8,
@@ -57,6 +336,8 @@ export const defaultConfig: PlinkoConfig = {
   pinFriction: 0.1,
   pinShape: "ball",
   pinAngle: 0,
+  pinLayout: "grid",
+  obstacles: [],
   pinWallGap: 20,
   pinRimGap: 60,
   ceilingGap: 50,
@@ -65,8 +346,103 @@ export const defaultConfig: PlinkoConfig = {
   rimWidth: 5,
   bucketCount: 6,
   bucketDistribution: "even",
+  bucketModifiers: [],
+  antiStreak: false,
+  antiStreakWindow: 5,
   winCondition: "most",
   winNth: 3,
+  seed: 0,
+  gameMode: "single",
+  customTheme: null,
+  speakerOrder: "ranking",
+  speakerSeconds: 90,
+  speakerWarningSeconds: 15,
   width: 600,
   height: 450
 }
+
+export const builtInPresets: PlinkoPreset[] = [
+  {
+    id: "builtin_classic",
+    name: "Classic",
+    builtIn: true,
+    config: {}
+  },
+  {
+    id: "builtin_chaos",
+    name: "Chaos",
+    builtIn: true,
+    config: {
+      ballCount: 30,
+      ballRestitution: 1,
+      ballShape: "triangle",
+      dropAngleRandomness: 45,
+      dropVelocity: 8,
+      dropDelay: 150,
+      pinRows: 12,
+      pinShape: "square",
+      pinAngle: 45,
+      pinRestitution: 0.9,
+      bucketDistribution: "edge"
+    }
+  },
+  {
+    id: "builtin_slow_burn",
+    name: "Slow Burn",
+    builtIn: true,
+    config: {
+      ballCount: 40,
+      ballRestitution: 0.4,
+      ballFriction: 0.05,
+      dropLocation: "zigzag",
+      dropDelay: 1500,
+      winCondition: "last-empty"
+    }
+  },
+  {
+    id: "builtin_pachinko",
+    name: "Pachinko",
+    builtIn: true,
+    config: {
+      ballCount: 20,
+      ballRadius: 5,
+      ballRestitution: 0.7,
+      dropLocation: "center",
+      dropAngleRandomness: 10,
+      dropDelay: 250,
+      pinRadius: 2,
+      pinRows: 18,
+      pinColumns: 14,
+      pinRestitution: 0.7,
+      bucketDistribution: "middle"
+    }
+  },
+  {
+    id: "builtin_neon",
+    name: "Neon Arcade",
+    builtIn: true,
+    config: {
+      ballRestitution: 0.95,
+      dropLocation: "zigzag",
+      pinShape: "square",
+      pinAngle: 45,
+      customTheme: {
+        background: "#09090b",
+        backgroundEnd: "#1e1b4b",
+        pinColor: "#22d3ee",
+        pinGlow: "#67e8f9",
+        ballGradientStart: "#f0abfc",
+        ballGradientEnd: "#d946ef",
+        ballTrail: "#e879f9",
+        bucketDivider: "#4c1d95",
+        bucketHighlight: "#a3e635",
+        wallColor: "#7c3aed",
+        bumperColor: "#f43f5e",
+        bumperRing: "#fecdd3",
+        spinnerColor: "#facc15",
+        deflectorColor: "#a78bfa",
+        gateColor: "#34d399"
+      }
+    }
+  }
+]
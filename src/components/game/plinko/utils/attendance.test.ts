@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest"
+import type { AttendanceDay, PlayerProfile } from "../types"
+import { applyAttendanceEvent, computeAttendance, makeCheckIn } from "./attendance"
+
+const day = (date: string, overrides: Partial<AttendanceDay> = {}): AttendanceDay => ({
+  date,
+  rounds: 1,
+  enrolledIds: [],
+  inactiveIds: [],
+  archivedIds: [],
+  roundsAttended: {},
+  wins: {},
+  ...overrides,
+})
+
+const player = (id: string, overrides: Partial<PlayerProfile> = {}): PlayerProfile => ({
+  id,
+  name: id,
+  wins: 0,
+  active: true,
+  ...overrides,
+})
+
+describe("makeCheckIn", () => {
+  it("checks in the round's players and records everyone else", () => {
+    const roster = [player("ana"), player("bo", { active: false }), player("cy", { archived: true })]
+    expect(makeCheckIn(roster, ["ana"], new Date(2026, 9, 1, 9).getTime())).toEqual({
+      type: "check-in",
+      date: "2026-10-01",
+      enrolledIds: ["ana"],
+      inactiveIds: ["bo"],
+      archivedIds: ["cy"],
+    })
+  })
+
+  it("counts each tournament round only for the players still in it", () => {
+    const roster = [player("ana"), player("bo"), player("cy")]
+    const morning = new Date(2026, 9, 1, 9).getTime()
+    const days = [
+      makeCheckIn(roster, ["ana", "bo", "cy"], morning),
+      makeCheckIn(roster, ["ana", "bo"], morning),
+      makeCheckIn(roster, ["bo"], morning),
+    ].reduce(applyAttendanceEvent, [])
+    const stats = computeAttendance(days)
+    expect(days[0].rounds).toBe(3)
+    expect(stats.get("ana")).toMatchObject({ daysPresent: 1, roundsAttended: 2 })
+    expect(stats.get("bo")).toMatchObject({ daysPresent: 1, roundsAttended: 3 })
+    // Knocked out in the first round, but still present that day
+    expect(stats.get("cy")).toMatchObject({ daysPresent: 1, roundsAttended: 1, rate: 1 })
+  })
+})
+
+describe("computeAttendance", () => {
+  it("counts days present against days on the roster", () => {
+    const stats = computeAttendance([
+      day("2026-10-02", { enrolledIds: ["ana"], inactiveIds: ["bo"] }),
+      day("2026-10-01", { enrolledIds: ["ana", "bo"] }),
+    ])
+    expect(stats.get("ana")).toMatchObject({ daysPresent: 2, daysOnRoster: 2, rate: 1 })
+    expect(stats.get("bo")).toMatchObject({ daysPresent: 1, daysOnRoster: 2, rate: 0.5 })
+  })
+
+  it("leaves archived days off the roster", () => {
+    const stats = computeAttendance([
+      day("2026-10-02", { archivedIds: ["bo"] }),
+      day("2026-10-01", { enrolledIds: ["bo"] }),
+    ])
+    expect(stats.get("bo")).toMatchObject({ daysPresent: 1, daysOnRoster: 1, rate: 1 })
+  })
+
+  it("ends a streak at the newest day someone missed, whatever order the days come in", () => {
+    const stats = computeAttendance([
+      day("2026-10-01", { enrolledIds: ["ana", "bo"] }),
+      day("2026-10-03", { enrolledIds: ["ana", "bo"] }),
+      day("2026-10-02", { enrolledIds: ["ana"], inactiveIds: ["bo"] }),
+    ])
+    expect(stats.get("ana")?.streak).toBe(3)
+    expect(stats.get("bo")?.streak).toBe(1)
+  })
+
+  it("normalizes wins by rounds attended", () => {
+    const stats = computeAttendance([
+      day("2026-10-02", { enrolledIds: ["ana", "bo"], roundsAttended: { ana: 3, bo: 1 }, wins: { ana: 1 } }),
+      day("2026-10-01", { enrolledIds: ["ana"], roundsAttended: { ana: 1 }, wins: { ana: 1 } }),
+    ])
+    expect(stats.get("ana")).toMatchObject({ roundsAttended: 4, wins: 2, winsPerRound: 0.5 })
+    expect(stats.get("bo")).toMatchObject({ roundsAttended: 1, wins: 0, winsPerRound: 0 })
+  })
+
+  it("has no wins per round before a player has attended one", () => {
+    const stats = computeAttendance([day("2026-10-01", { inactiveIds: ["bo"] })])
+    expect(stats.get("bo")?.winsPerRound).toBeNull()
+  })
+
+  it("matches the days built up from check-ins and wins", () => {
+    const days = [
+      { type: "check-in" as const, date: "2026-10-01", enrolledIds: ["ana", "bo"], inactiveIds: [], archivedIds: [] },
+      { type: "wins" as const, date: "2026-10-01", playerIds: ["bo"] },
+      { type: "check-in" as const, date: "2026-10-01", enrolledIds: ["ana"], inactiveIds: ["bo"], archivedIds: [] },
+    ].reduce(applyAttendanceEvent, [])
+    const stats = computeAttendance(days)
+    expect(days[0].rounds).toBe(2)
+    expect(stats.get("ana")).toMatchObject({ daysPresent: 1, roundsAttended: 2, winsPerRound: 0 })
+    // Enrolled for one of the day's rounds still counts as present
+    expect(stats.get("bo")).toMatchObject({ daysPresent: 1, roundsAttended: 1, winsPerRound: 1 })
+  })
+})
@@ -0,0 +1,124 @@
+import type { AttendanceDay, AttendanceEvent, PlayerProfile } from "../types"
+import { toLocalDate } from "./dates"
+
+// About two years of days; older ones drop off the end
+export const MAX_ATTENDANCE_DAYS = 730
+
+/**
+ * Attendance totals for one player across the recorded days
+ */
+export interface PlayerAttendance {
+  daysPresent: number
+  /** Days they were on the roster at all (enrolled or inactive) */
+  daysOnRoster: number
+  /** daysPresent / daysOnRoster, 0-1 */
+  rate: number
+  /** Consecutive recorded days present, up to the latest one */
+  streak: number
+  roundsAttended: number
+  wins: number
+  /** Wins per round attended, or null before they've attended one */
+  winsPerRound: number | null
+}
+
+const union = (a: string[], b: string[]): string[] => [...new Set([...a, ...b])]
+
+/**
+ * Check-in for a round as it starts: the round's players are in, everyone
+ * else on the roster (including players already out of a tournament) is
+ * recorded as inactive or archived
+ */
+export function makeCheckIn(players: PlayerProfile[], roundPlayerIds: string[], timestamp: number): AttendanceEvent {
+  const inRound = new Set(roundPlayerIds)
+  return {
+    type: "check-in",
+    date: toLocalDate(timestamp),
+    enrolledIds: players.filter(p => inRound.has(p.id) && p.archived !== true).map(p => p.id),
+    inactiveIds: players.filter(p => !inRound.has(p.id) && p.archived !== true).map(p => p.id),
+    archivedIds: players.filter(p => p.archived === true).map(p => p.id),
+  }
+}
+
+const emptyDay = (date: string): AttendanceDay => ({
+  date,
+  rounds: 0,
+  enrolledIds: [],
+  inactiveIds: [],
+  archivedIds: [],
+  roundsAttended: {},
+  wins: {},
+})
+
+const addCounts = (counts: Record<string, number>, ids: string[]): Record<string, number> => {
+  const next = { ...counts }
+  ids.forEach(id => {
+    next[id] = (next[id] ?? 0) + 1
+  })
+  return next
+}
+
+/**
+ * Apply an event to the recorded days (newest first). A player enrolled for
+ * any round that day counts as present, even if they were inactive for another.
+ */
+export function applyAttendanceEvent(days: AttendanceDay[], event: AttendanceEvent): AttendanceDay[] {
+  const existing = days.find(day => day.date === event.date) ?? emptyDay(event.date)
+  let updated: AttendanceDay
+  if (event.type === "check-in") {
+    const enrolledIds = union(existing.enrolledIds, event.enrolledIds)
+    const archivedIds = event.archivedIds.filter(id => !enrolledIds.includes(id))
+    updated = {
+      ...existing,
+      rounds: existing.rounds + 1,
+      enrolledIds,
+      inactiveIds: union(existing.inactiveIds, event.inactiveIds)
+        .filter(id => !enrolledIds.includes(id) && !archivedIds.includes(id)),
+      archivedIds,
+      roundsAttended: addCounts(existing.roundsAttended, event.enrolledIds),
+    }
+  } else {
+    updated = { ...existing, wins: addCounts(existing.wins, event.playerIds) }
+  }
+  return [updated, ...days.filter(day => day.date !== event.date)]
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, MAX_ATTENDANCE_DAYS)
+}
+
+/**
+ * Per-player attendance, streaks and normalized wins from the recorded days
+ */
+export function computeAttendance(days: AttendanceDay[]): Map<string, PlayerAttendance> {
+  const stats = new Map<string, PlayerAttendance>()
+  const statsFor = (id: string): PlayerAttendance => {
+    let entry = stats.get(id)
+    if (entry == null) {
+      entry = { daysPresent: 0, daysOnRoster: 0, rate: 0, streak: 0, roundsAttended: 0, wins: 0, winsPerRound: null }
+      stats.set(id, entry)
+    }
+    return entry
+  }
+
+  days.forEach(day => {
+    union(day.enrolledIds, day.inactiveIds).forEach(id => {
+      const entry = statsFor(id)
+      entry.daysOnRoster++
+      if (day.enrolledIds.includes(id)) entry.daysPresent++
+    })
+    Object.entries(day.roundsAttended).forEach(([id, rounds]) => {
+      statsFor(id).roundsAttended += rounds
+    })
+    Object.entries(day.wins).forEach(([id, wins]) => {
+      statsFor(id).wins += wins
+    })
+  })
+
+  // Newest first, so a streak ends at the first recorded day someone wasn't in
+  const sorted = [...days].sort((a, b) => b.date.localeCompare(a.date))
+  stats.forEach((entry, id) => {
+    const firstMissed = sorted.findIndex(day => !day.enrolledIds.includes(id))
+    entry.streak = firstMissed === -1 ? sorted.length : firstMissed
+    entry.rate = entry.daysOnRoster > 0 ? entry.daysPresent / entry.daysOnRoster : 0
+    entry.winsPerRound = entry.roundsAttended > 0 ? entry.wins / entry.roundsAttended : null
+  })
+  return stats
+}
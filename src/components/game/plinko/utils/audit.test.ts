@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest"
+import type { PlayerProfile } from "../types"
+import { diffPlayers, revertPlayers } from "./audit"
+
+const player = (id: string, wins: number, overrides: Partial<PlayerProfile> = {}): PlayerProfile => ({
+  id,
+  name: id.charAt(0).toUpperCase() + id.slice(1),
+  wins,
+  active: true,
+  ...overrides,
+})
+
+describe("diffPlayers", () => {
+  it("keeps only the fields that changed", () => {
+    const changes = diffPlayers([player("ana", 2), player("bo", 1)], [player("ana", 3), player("bo", 1)])
+    expect(changes).toEqual([{ playerId: "ana", name: "Ana", before: { wins: 2 }, after: { wins: 3 } }])
+  })
+
+  it("keeps whole profiles for added and removed players", () => {
+    const changes = diffPlayers([player("ana", 2)], [player("bo", 0)])
+    expect(changes).toEqual([
+      { playerId: "bo", name: "Bo", before: null, after: player("bo", 0) },
+      { playerId: "ana", name: "Ana", before: player("ana", 2), after: null },
+    ])
+  })
+})
+
+describe("revertPlayers", () => {
+  it("takes back only what the change added to win counters", () => {
+    const changes = diffPlayers(
+      [player("ana", 2, { tournamentWins: 1 })],
+      [player("ana", 5, { tournamentWins: 2 })]
+    )
+    // Two more wins and a tournament came in after the change
+    const reverted = revertPlayers([player("ana", 7, { tournamentWins: 3 })], changes)
+    expect(reverted).toEqual([player("ana", 4, { tournamentWins: 2 })])
+  })
+
+  it("gives back wins a change took away, and never goes below zero", () => {
+    const lowered = diffPlayers([player("ana", 4)], [player("ana", 1)])
+    expect(revertPlayers([player("ana", 2)], lowered)).toEqual([player("ana", 5)])
+
+    const raised = diffPlayers([player("ana", 0)], [player("ana", 3)])
+    // Someone already took the wins off by hand
+    expect(revertPlayers([player("ana", 1)], raised)).toEqual([player("ana", 0)])
+  })
+
+  it("puts other fields back to their old values", () => {
+    const changes = diffPlayers([player("ana", 2)], [player("ana", 2, { name: "Anna", active: false })])
+    expect(revertPlayers([player("ana", 3, { name: "Anna", active: false })], changes))
+      .toEqual([player("ana", 3)])
+  })
+
+  it("removes a player the change added", () => {
+    const changes = diffPlayers([player("ana", 2)], [player("ana", 2), player("bo", 0)])
+    expect(revertPlayers([player("ana", 2), player("bo", 1)], changes)).toEqual([player("ana", 2)])
+  })
+
+  it("brings back a player the change removed, once", () => {
+    const changes = diffPlayers([player("ana", 2), player("bo", 3)], [player("ana", 2)])
+    const reverted = revertPlayers([player("ana", 2)], changes)
+    expect(reverted).toEqual([player("ana", 2), player("bo", 3)])
+    expect(revertPlayers(reverted, changes)).toEqual(reverted)
+  })
+
+  it("skips changes to players who have since been removed", () => {
+    const changes = diffPlayers([player("ana", 2)], [player("ana", 3)])
+    expect(revertPlayers([player("bo", 1)], changes)).toEqual([player("bo", 1)])
+  })
+})
@@ -0,0 +1,141 @@
+import type {
+  AuditContext,
+  AuditEvent,
+  ConfigAuditChange,
+  PlayerAuditChange,
+  PlayerProfile,
+  PlinkoConfig,
+  PlinkoPresetConfig,
+} from "../types"
+
+// Oldest events are dropped past this
+export const MAX_AUDIT_EVENTS = 500
+
+export const makeAuditId = (): string =>
+  `au_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`
+
+// Counters are reverted by taking the change back off, so wins added since still count
+const counterFields = new Set<keyof PlayerProfile>(["wins", "tournamentWins"])
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * Per-player differences between two rosters, in roster order
+ */
+export function diffPlayers(before: PlayerProfile[], after: PlayerProfile[]): PlayerAuditChange[] {
+  const beforeById = new Map(before.map(p => [p.id, p]))
+  const afterIds = new Set(after.map(p => p.id))
+  const changes: PlayerAuditChange[] = []
+
+  after.forEach(player => {
+    const previous = beforeById.get(player.id)
+    if (previous == null) {
+      changes.push({ playerId: player.id, name: player.name, before: null, after: player })
+      return
+    }
+    const keys = new Set([...Object.keys(previous), ...Object.keys(player)] as Array<keyof PlayerProfile>)
+    const changedBefore: Record<string, unknown> = {}
+    const changedAfter: Record<string, unknown> = {}
+    keys.forEach(key => {
+      if (sameValue(previous[key], player[key])) return
+      changedBefore[key] = previous[key]
+      changedAfter[key] = player[key]
+    })
+    if (Object.keys(changedAfter).length > 0) {
+      changes.push({
+        playerId: player.id,
+        name: previous.name,
+        before: changedBefore as Partial<PlayerProfile>,
+        after: changedAfter as Partial<PlayerProfile>,
+      })
+    }
+  })
+  before.forEach(player => {
+    if (!afterIds.has(player.id)) {
+      changes.push({ playerId: player.id, name: player.name, before: player, after: null })
+    }
+  })
+  return changes
+}
+
+/**
+ * Config fields that differ. Board size follows the viewer's screen, so it's left out.
+ */
+export function diffConfig(before: PlinkoConfig, after: PlinkoConfig): ConfigAuditChange[] {
+  return (Object.keys(after) as Array<keyof PlinkoConfig>)
+    .filter((key): key is keyof PlinkoPresetConfig => key !== "width" && key !== "height")
+    .filter(key => !sameValue(before[key], after[key]))
+    .map(key => ({ key, before: before[key], after: after[key] }))
+}
+
+/**
+ * An audit event for a roster change, or null if nothing changed
+ */
+export function makePlayersAuditEvent(
+  before: PlayerProfile[],
+  after: PlayerProfile[],
+  context: AuditContext,
+  timestamp: number
+): AuditEvent | null {
+  const changes = diffPlayers(before, after)
+  return changes.length > 0 ? { id: makeAuditId(), timestamp, ...context, target: "players", changes } : null
+}
+
+/**
+ * An audit event for a config change, or null if nothing changed
+ */
+export function makeConfigAuditEvent(
+  before: PlinkoConfig,
+  after: PlinkoConfig,
+  context: AuditContext,
+  timestamp: number
+): AuditEvent | null {
+  const changes = diffConfig(before, after)
+  return changes.length > 0 ? { id: makeAuditId(), timestamp, ...context, target: "config", changes } : null
+}
+
+/**
+ * Add an event to a newest-first log. Adding the same event twice is a no-op.
+ */
+export const appendAuditEvent = (events: AuditEvent[], event: AuditEvent): AuditEvent[] =>
+  events.some(e => e.id === event.id) ? events : [event, ...events].slice(0, MAX_AUDIT_EVENTS)
+
+/**
+ * Undo one roster change on top of the current roster. Added players are
+ * removed, removed players come back, and changed fields go back to their
+ * old values - except win counters, which lose just what the change added.
+ */
+export function revertPlayers(players: PlayerProfile[], changes: PlayerAuditChange[]): PlayerProfile[] {
+  let reverted = players
+  changes.forEach(({ playerId, before, after }) => {
+    if (before == null) {
+      reverted = reverted.filter(p => p.id !== playerId)
+      return
+    }
+    if (after == null) {
+      if (!reverted.some(p => p.id === playerId)) reverted = [...reverted, before as PlayerProfile]
+      return
+    }
+    const current = reverted.find(p => p.id === playerId)
+    if (current == null) return
+
+    const restored: Record<string, unknown> = { ...current }
+    // A field that was unset on one side is missing from that side once stored
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)] as Array<keyof PlayerProfile>)
+    fields.forEach(key => {
+      const previous = before[key]
+      const next = after[key]
+      restored[key] = counterFields.has(key) && typeof previous === "number" && typeof next === "number"
+        ? Math.max(0, ((current[key] as number | undefined) ?? 0) - (next - previous))
+        : previous
+    })
+    reverted = reverted.map(p => p.id === playerId ? restored as unknown as PlayerProfile : p)
+  })
+  return reverted
+}
+
+/**
+ * Put the changed config fields back to their old values
+ */
+export const revertConfig = (config: PlinkoConfig, changes: ConfigAuditChange[]): PlinkoConfig =>
+  changes.reduce((reverted, change) => ({ ...reverted, [change.key]: change.before }), config)
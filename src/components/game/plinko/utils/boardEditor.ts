@@ -0,0 +1,101 @@
+import type { BoardObstacle, BoardObstacleType, PlinkoConfig } from "../types"
+import {
+  OBSTACLE_BAR_THICKNESS,
+  gridPinPositions,
+  obstacleDefaults,
+  obstaclePosition,
+} from "../simulation/obstacles"
+
+/**
+ * What a click on the board does in the editor: pick/drag, erase, or place
+ * a new obstacle of that type
+ */
+export type BoardEditorTool = "select" | "erase" | BoardObstacleType
+
+/**
+ * The config fields the board editor writes
+ */
+export type BoardLayout = Pick<PlinkoConfig, "pinLayout" | "obstacles">
+
+// Extra pixels around an obstacle that still count as clicking it
+const HIT_SLOP = 4
+
+export const makeObstacleId = (): string =>
+  `o_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`
+
+/**
+ * A new obstacle at a board position given as fractions of width/height
+ */
+export function createObstacle(type: BoardObstacleType, x: number, y: number): BoardObstacle {
+  const { size, speed } = obstacleDefaults[type]
+  const obstacle: BoardObstacle = { id: makeObstacleId(), type, x, y, angle: 0, size }
+  if (speed != null) obstacle.speed = speed
+  return obstacle
+}
+
+/**
+ * Everything the editor can pick. On a grid board the grid pins are listed as
+ * pin obstacles (ids `row-col`, matching their body labels) so they can be
+ * moved or deleted, which turns the board into a custom layout.
+ */
+export function editableObstacles(config: PlinkoConfig): BoardObstacle[] {
+  if (config.pinLayout === "custom") return config.obstacles
+  const gridPins = gridPinPositions(config).map(({ x, y, row, col }): BoardObstacle => ({
+    id: `${row}-${col}`,
+    type: "pin",
+    x: x / config.width,
+    y: y / config.height,
+    angle: 0,
+    size: config.pinRadius
+  }))
+  return [...gridPins, ...config.obstacles.filter(obstacle => obstacle.type !== "pin")]
+}
+
+/**
+ * Layout to save after an edit. Grid boards stay grids until a pin is
+ * touched; from then on every pin is stored.
+ */
+export function toBoardLayout(config: PlinkoConfig, obstacles: BoardObstacle[], changed: BoardObstacle): BoardLayout {
+  if (config.pinLayout === "custom" || changed.type === "pin") {
+    return { pinLayout: "custom", obstacles }
+  }
+  return { pinLayout: "grid", obstacles: obstacles.filter(obstacle => obstacle.type !== "pin") }
+}
+
+// Distance from a point to the segment centered on (cx, cy) with the given length and angle
+const distanceToBar = (px: number, py: number, cx: number, cy: number, length: number, angle: number): number => {
+  const dx = Math.cos(angle)
+  const dy = Math.sin(angle)
+  const along = Math.max(-length / 2, Math.min(length / 2, (px - cx) * dx + (py - cy) * dy))
+  return Math.hypot(px - (cx + along * dx), py - (cy + along * dy))
+}
+
+/**
+ * Topmost obstacle under a board point (in pixels), if any
+ */
+export function findObstacleAt(
+  obstacles: BoardObstacle[],
+  config: PlinkoConfig,
+  x: number,
+  y: number
+): BoardObstacle | null {
+  for (let i = obstacles.length - 1; i >= 0; i--) {
+    const obstacle = obstacles[i]
+    const center = obstaclePosition(obstacle, config)
+    const distance = Math.hypot(x - center.x, y - center.y)
+    let isHit: boolean
+    if (obstacle.type === "pin") {
+      isHit = distance <= Math.max(config.pinRadius, 6) + HIT_SLOP
+    } else if (obstacle.type === "bumper") {
+      isHit = distance <= obstacle.size + HIT_SLOP
+    } else if (obstacle.type === "spinner") {
+      // Anywhere in its sweep, since it keeps turning
+      isHit = distance <= obstacle.size / 2 + HIT_SLOP
+    } else {
+      const angle = obstacle.angle * Math.PI / 180
+      isHit = distanceToBar(x, y, center.x, center.y, obstacle.size, angle) <= OBSTACLE_BAR_THICKNESS / 2 + HIT_SLOP
+    }
+    if (isHit) return obstacle
+  }
+  return null
+}
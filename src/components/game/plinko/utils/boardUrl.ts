@@ -0,0 +1,70 @@
+import { defaultConfig, type PlinkoConfig } from "../types"
+import { parseConfigPatch } from "../schema"
+
+// Query (or hash) parameter carrying a shared board
+export const BOARD_PARAM = "board"
+
+// Bumped if the encoding ever changes, so old links can still be read
+const encodingVersion = "1"
+
+const toBase64Url = (text: string): string => {
+  const binary = Array.from(new TextEncoder().encode(text), byte => String.fromCharCode(byte)).join("")
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"))
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
+
+/**
+ * Encode a config as the settings that differ from `defaultConfig`. Board
+ * size is always included, since the default size is replaced by one that
+ * fits the viewer's screen.
+ */
+export function encodeBoardConfig(config: PlinkoConfig): string {
+  const diff: Partial<Record<keyof PlinkoConfig, unknown>> = {}
+  const keys = Object.keys(defaultConfig) as Array<keyof PlinkoConfig>
+  keys.forEach(key => {
+    // Compared as JSON so the obstacle list counts as a value
+    if (JSON.stringify(config[key]) !== JSON.stringify(defaultConfig[key]) || key === "width" || key === "height") {
+      diff[key] = config[key]
+    }
+  })
+  return `${encodingVersion}.${toBase64Url(JSON.stringify(diff))}`
+}
+
+/**
+ * Decode a shared board. Values are validated and clamped like any stored
+ * config; returns null if the link is unreadable.
+ */
+export function decodeBoardConfig(encoded: string): Partial<PlinkoConfig> | null {
+  const [version, payload] = encoded.split(".", 2)
+  if (version !== encodingVersion || payload == null) return null
+  try {
+    const parsed: unknown = JSON.parse(fromBase64Url(payload))
+    return parsed != null && typeof parsed === "object" ? parseConfigPatch(parsed) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Link to the current page that opens with this board
+ */
+export function buildBoardUrl(config: PlinkoConfig, location: Location): string {
+  const url = new URL(location.href)
+  url.hash = ""
+  url.searchParams.set(BOARD_PARAM, encodeBoardConfig(config))
+  return url.toString()
+}
+
+/**
+ * Read a shared board from `?board=` or `#board=`, or null if there is none
+ */
+export function readBoardFromLocation(location: Location): Partial<PlinkoConfig> | null {
+  const url = new URL(location.href)
+  const encoded = url.searchParams.get(BOARD_PARAM) ??
+    new URLSearchParams(url.hash.replace(/^#/, "")).get(BOARD_PARAM)
+  return encoded != null ? decodeBoardConfig(encoded) : null
+}
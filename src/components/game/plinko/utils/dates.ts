@@ -0,0 +1,12 @@
+/**
+ * Local calendar day of a timestamp, as YYYY-MM-DD
+ */
+export const toLocalDate = (timestamp: number): string => {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, "0")
+  const day = String(date.getDate()).padStart(2, "0")
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+export const isLocalDate = (value: unknown): value is string =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value)
@@ -1 +1,15 @@
 export * from "./particles"
+export * from "./random"
+export * from "./weights"
+export * from "./players"
+export * from "./presets"
+export * from "./boardUrl"
+export * from "./boardEditor"
+export * from "./theme"
+export * from "./standup"
+export * from "./dates"
+export * from "./attendance"
+export * from "./localRecords"
+export * from "./playerStats"
+export * from "./seasons"
+export * from "./audit"
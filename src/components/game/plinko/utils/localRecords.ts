@@ -0,0 +1,30 @@
+import type { PlayerProfile, RoundRecord } from "../types"
+import { parsePlayersDocument, serializePlayers } from "../schema"
+
+// localStorage copies of the roster and round history, used when there's no server storage
+export const playerStorageKey = "plinko.players.v2"
+export const roundStorageKey = "plinko.rounds.v1"
+
+export function loadLocalPlayers(): PlayerProfile[] | null {
+  try {
+    const stored = localStorage.getItem(playerStorageKey)
+    return stored != null ? parsePlayersDocument(JSON.parse(stored)) : null
+  } catch {
+    return null
+  }
+}
+
+export function saveLocalPlayers(players: PlayerProfile[]): void {
+  localStorage.setItem(playerStorageKey, JSON.stringify(serializePlayers(players)))
+}
+
+export function loadLocalRounds(): RoundRecord[] {
+  try {
+    const stored = localStorage.getItem(roundStorageKey)
+    if (stored == null) return []
+    const parsed = JSON.parse(stored) as RoundRecord[]
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
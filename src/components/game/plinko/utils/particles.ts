@@ -1,5 +1,7 @@
 "use client"
 
+import type { RenderTheme } from "../types"
+
 export interface Particle {
   x: number
   y: number
@@ -17,7 +19,7 @@ export interface ParticleEmitter {
   addBurst: (x: number, y: number, count: number, options?: Partial<ParticleOptions>) => void
   addStream: (x: number, y: number, options?: Partial<ParticleOptions>) => void
   update: () => void
-  draw: (ctx: CanvasRenderingContext2D) => void
+  draw: (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D) => void
   clear: () => void
 }
 
@@ -118,7 +120,7 @@ export function createParticleEmitter(): ParticleEmitter {
     }
   }
 
-  const draw = (ctx: CanvasRenderingContext2D) => {
+  const draw = (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D) => {
     particles.forEach(p => {
       ctx.save()
       ctx.globalAlpha = p.alpha
@@ -168,6 +170,16 @@ export const particlePresets = {
     decay: 0.025,
     spread: Math.PI,
   },
+  penalty: {
+    minSize: 2,
+    maxSize: 5,
+    minSpeed: 2,
+    maxSpeed: 6,
+    colors: ["#ef4444", "#f87171", "#fca5a5"],
+    gravity: 0.1,
+    decay: 0.025,
+    spread: Math.PI,
+  },
   win: {
     minSize: 3,
     maxSize: 8,
@@ -189,3 +201,17 @@ export const particlePresets = {
     spread: Math.PI,
   },
 }
+
+/**
+ * Particle presets recolored to match the board: pin sparks in the pin
+ * colors, bucket bursts in the highlight color, and wins in a mix of both
+ */
+export const themedParticlePresets = (theme: RenderTheme): typeof particlePresets => ({
+  ...particlePresets,
+  collision: { ...particlePresets.collision, colors: [theme.pinColor, theme.pinGlow] },
+  bucket: { ...particlePresets.bucket, colors: [theme.bucketHighlight, theme.ballGradientStart] },
+  win: {
+    ...particlePresets.win,
+    colors: [theme.ballGradientStart, theme.ballGradientEnd, theme.bucketHighlight, theme.pinColor, "#eab308", "#ec4899"],
+  },
+})
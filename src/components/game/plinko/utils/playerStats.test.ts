@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest"
+import type { RoundRecord } from "../types"
+import { computePlayerStats } from "./playerStats"
+
+const names: Record<string, string> = { ana: "Ana", bo: "Bo", cy: "Cy" }
+
+// Round `n`, played at time n, with players in bucket order
+const round = (n: number, bucketAssignments: string[], winnerIds: string[], overrides: Partial<RoundRecord> = {}): RoundRecord => ({
+  id: `r_${n}`,
+  timestamp: n,
+  seed: n,
+  participants: bucketAssignments.map(id => ({ id, name: names[id] ?? id })),
+  bucketAssignments,
+  bucketCounts: bucketAssignments.map(() => 0),
+  winCondition: "most",
+  tiebreakerRounds: 0,
+  winnerIds,
+  ...overrides,
+})
+
+describe("computePlayerStats", () => {
+  it("tracks win streaks and droughts in time order, whatever order rounds come in", () => {
+    // Ana: W W L L L W
+    const rounds = [
+      round(6, ["ana", "bo"], ["ana"]),
+      round(3, ["ana", "bo"], ["bo"]),
+      round(1, ["ana", "bo"], ["ana"]),
+      round(5, ["ana", "bo"], ["bo"]),
+      round(2, ["ana", "bo"], ["ana"]),
+      round(4, ["ana", "bo"], ["bo"]),
+    ]
+    const stats = computePlayerStats("ana", rounds)
+    expect(stats).toMatchObject({
+      roundsPlayed: 6,
+      wins: 3,
+      winRate: 0.5,
+      currentWinStreak: 1,
+      longestWinStreak: 2,
+      currentDrought: 0,
+      longestDrought: 3,
+    })
+    expect(stats.cumulativeWins.map(point => point.wins)).toEqual([1, 2, 2, 2, 2, 3])
+  })
+
+  it("ignores rounds the player wasn't in", () => {
+    const stats = computePlayerStats("ana", [round(1, ["ana", "bo"], ["bo"]), round(2, ["bo", "cy"], ["bo"])])
+    expect(stats).toMatchObject({ roundsPlayed: 1, wins: 0, currentDrought: 1, favoriteBucket: null })
+  })
+
+  it("keeps head-to-head records, most shared rounds first", () => {
+    const rounds = [
+      round(1, ["ana", "bo", "cy"], ["ana"]),
+      round(2, ["bo", "ana"], ["bo"]),
+      round(3, ["ana", "bo", "cy"], ["cy"]),
+      round(4, ["ana", "bo"], ["ana", "bo"]),
+    ]
+    expect(computePlayerStats("ana", rounds).headToHead).toEqual([
+      { opponentId: "bo", opponentName: "Bo", rounds: 4, wins: 2, losses: 2 },
+      { opponentId: "cy", opponentName: "Cy", rounds: 2, wins: 1, losses: 1 },
+    ])
+  })
+
+  it("uses an opponent's latest name", () => {
+    const rounds = [
+      round(1, ["ana", "bo"], ["ana"]),
+      round(2, ["ana", "bo"], ["ana"], { participants: [{ id: "ana", name: "Ana" }, { id: "bo", name: "Bob" }] }),
+    ]
+    expect(computePlayerStats("ana", rounds).headToHead[0].opponentName).toBe("Bob")
+  })
+
+  it("picks the bucket won from most as the favorite, then the one played most", () => {
+    const rounds = [
+      round(1, ["ana", "bo", "cy"], ["ana"]),
+      round(2, ["bo", "ana", "cy"], ["ana"]),
+      round(3, ["bo", "ana", "cy"], ["bo"]),
+      round(4, ["bo", "cy", "ana"], ["cy"]),
+    ]
+    const stats = computePlayerStats("ana", rounds)
+    // One win each from buckets 0 and 1; bucket 1 was played twice
+    expect(stats.favoriteBucket).toBe(1)
+    expect(stats.buckets).toEqual([
+      { bucket: 0, played: 1, wins: 1 },
+      { bucket: 1, played: 2, wins: 1 },
+      { bucket: 2, played: 1, wins: 0 },
+    ])
+  })
+
+  it("splits results by win condition", () => {
+    const rounds = [
+      round(1, ["ana", "bo"], ["ana"], { winCondition: "ranking" }),
+      round(2, ["ana", "bo"], ["bo"], { winCondition: "ranking" }),
+      round(3, ["ana", "bo"], ["ana"]),
+    ]
+    expect(computePlayerStats("ana", rounds).byWinCondition).toEqual({
+      ranking: { played: 2, wins: 1 },
+      most: { played: 1, wins: 1 },
+    })
+  })
+})
@@ -0,0 +1,128 @@
+import type { PlinkoConfig, RoundRecord } from "../types"
+
+/**
+ * One player's record against another, over the rounds they both played
+ */
+export interface HeadToHead {
+  opponentId: string
+  opponentName: string
+  rounds: number
+  /** Rounds this player won */
+  wins: number
+  /** Rounds the opponent won */
+  losses: number
+}
+
+/**
+ * Rounds played and won from one bucket position
+ */
+export interface BucketPositionStats {
+  bucket: number
+  played: number
+  wins: number
+}
+
+/**
+ * Everything the player page shows, worked out from round records
+ */
+export interface PlayerStats {
+  roundsPlayed: number
+  wins: number
+  /** wins / roundsPlayed, 0-1 */
+  winRate: number
+  currentWinStreak: number
+  longestWinStreak: number
+  /** Rounds played without a win, up to the latest */
+  currentDrought: number
+  longestDrought: number
+  /** Position they've won from most (ties go to the one played most), null before a win */
+  favoriteBucket: number | null
+  buckets: BucketPositionStats[]
+  byWinCondition: Partial<Record<PlinkoConfig["winCondition"], { played: number; wins: number }>>
+  /** Most shared rounds first */
+  headToHead: HeadToHead[]
+  /** Wins so far after each round played, oldest first */
+  cumulativeWins: Array<{ timestamp: number; wins: number }>
+}
+
+const playedIn = (round: RoundRecord, playerId: string): boolean =>
+  round.bucketAssignments.includes(playerId)
+
+/**
+ * Statistics for one player from the rounds they played (in any order)
+ */
+export function computePlayerStats(playerId: string, rounds: RoundRecord[]): PlayerStats {
+  const played = rounds
+    .filter(round => playedIn(round, playerId))
+    .sort((a, b) => a.timestamp - b.timestamp)
+
+  let wins = 0
+  let winStreak = 0
+  let longestWinStreak = 0
+  let drought = 0
+  let longestDrought = 0
+  const buckets = new Map<number, BucketPositionStats>()
+  const byWinCondition: PlayerStats["byWinCondition"] = {}
+  const opponents = new Map<string, HeadToHead>()
+  const cumulativeWins: PlayerStats["cumulativeWins"] = []
+
+  played.forEach(round => {
+    const won = round.winnerIds.includes(playerId)
+    if (won) {
+      wins++
+      winStreak++
+      drought = 0
+    } else {
+      winStreak = 0
+      drought++
+    }
+    longestWinStreak = Math.max(longestWinStreak, winStreak)
+    longestDrought = Math.max(longestDrought, drought)
+    cumulativeWins.push({ timestamp: round.timestamp, wins })
+
+    const bucket = round.bucketAssignments.indexOf(playerId)
+    const position = buckets.get(bucket) ?? { bucket, played: 0, wins: 0 }
+    buckets.set(bucket, { ...position, played: position.played + 1, wins: position.wins + (won ? 1 : 0) })
+
+    const condition = byWinCondition[round.winCondition] ?? { played: 0, wins: 0 }
+    byWinCondition[round.winCondition] = { played: condition.played + 1, wins: condition.wins + (won ? 1 : 0) }
+
+    const namesById = new Map(round.participants.map(p => [p.id, p.name]))
+    new Set(round.bucketAssignments).forEach(opponentId => {
+      if (opponentId === playerId || opponentId === "") return
+      const record = opponents.get(opponentId) ?? {
+        opponentId,
+        opponentName: namesById.get(opponentId) ?? "Unknown",
+        rounds: 0,
+        wins: 0,
+        losses: 0,
+      }
+      opponents.set(opponentId, {
+        ...record,
+        // Latest name wins, in case they were renamed
+        opponentName: namesById.get(opponentId) ?? record.opponentName,
+        rounds: record.rounds + 1,
+        wins: record.wins + (won ? 1 : 0),
+        losses: record.losses + (round.winnerIds.includes(opponentId) ? 1 : 0),
+      })
+    })
+  })
+
+  const positions = [...buckets.values()].sort((a, b) => a.bucket - b.bucket)
+  const favorite = [...positions].sort((a, b) => b.wins - a.wins || b.played - a.played)[0]
+
+  return {
+    roundsPlayed: played.length,
+    wins,
+    winRate: played.length > 0 ? wins / played.length : 0,
+    currentWinStreak: winStreak,
+    longestWinStreak,
+    currentDrought: drought,
+    longestDrought,
+    favoriteBucket: favorite != null && favorite.wins > 0 ? favorite.bucket : null,
+    buckets: positions,
+    byWinCondition,
+    headToHead: [...opponents.values()].sort((a, b) => b.rounds - a.rounds || b.wins - a.wins),
+    cumulativeWins,
+  }
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest"
+import type { PlayerProfile } from "../types"
+import { mergePlayers } from "./players"
+
+const player = (id: string, wins: number, overrides: Partial<PlayerProfile> = {}): PlayerProfile => ({
+  id,
+  name: id.charAt(0).toUpperCase() + id.slice(1),
+  wins,
+  active: true,
+  ...overrides,
+})
+
+describe("mergePlayers", () => {
+  it("keeps fields changed locally and takes the rest from the server", () => {
+    const base = [player("ana", 2)]
+    const mine = [player("ana", 2, { name: "Anna" })]
+    const theirs = [player("ana", 2, { active: false })]
+    expect(mergePlayers(base, mine, theirs)).toEqual([player("ana", 2, { name: "Anna", active: false })])
+  })
+
+  it("adds a local wins edit onto wins the server counted meanwhile", () => {
+    const base = [player("ana", 5, { tournamentWins: 1 })]
+    // Wins corrected down by two here while the server counted three more
+    const mine = [player("ana", 3, { tournamentWins: 2 })]
+    const theirs = [player("ana", 8, { tournamentWins: 1 })]
+    expect(mergePlayers(base, mine, theirs)).toEqual([player("ana", 6, { tournamentWins: 2 })])
+  })
+
+  it("never merges wins below zero", () => {
+    expect(mergePlayers([player("ana", 5)], [player("ana", 0)], [player("ana", 2)])).toEqual([player("ana", 0)])
+  })
+
+  it("takes server wins when they weren't edited locally", () => {
+    expect(mergePlayers([player("ana", 5)], [player("ana", 5, { name: "Anna" })], [player("ana", 6)]))
+      .toEqual([player("ana", 6, { name: "Anna" })])
+  })
+
+  it("keeps a player deleted locally deleted", () => {
+    const base = [player("ana", 1), player("bo", 2)]
+    expect(mergePlayers(base, [player("ana", 1)], [player("ana", 1), player("bo", 3)])).toEqual([player("ana", 1)])
+  })
+
+  it("keeps players added on either side and drops ones the server removed", () => {
+    const base = [player("ana", 1), player("bo", 2)]
+    const mine = [player("ana", 1), player("bo", 2), player("cy", 0)]
+    const theirs = [player("ana", 1), player("di", 0)]
+    expect(mergePlayers(base, mine, theirs)).toEqual([player("ana", 1), player("di", 0), player("cy", 0)])
+  })
+})
@@ -0,0 +1,68 @@
+import type { PlayerProfile } from "../types"
+import { createSeededRandom, shuffleWithRandom } from "./random"
+
+// Counters merge as deltas, so wins counted on the server during an edit aren't lost
+const counterFields = new Set<keyof PlayerProfile>(["wins", "tournamentWins"])
+
+const asCount = (value: unknown): number => typeof value === "number" ? value : 0
+
+/**
+ * Three-way merge of rosters after a save conflict. `base` is the roster the
+ * local edits started from, `mine` the local edits and `theirs` the roster now
+ * on the server. Fields changed locally win, except win counters, which add the
+ * local change onto the server's count; everything else follows the server.
+ * Players removed on either side stay removed.
+ */
+export function mergePlayers(
+  base: PlayerProfile[],
+  mine: PlayerProfile[],
+  theirs: PlayerProfile[]
+): PlayerProfile[] {
+  const baseById = new Map(base.map(p => [p.id, p]))
+  const mineById = new Map(mine.map(p => [p.id, p]))
+  const theirIds = new Set(theirs.map(p => p.id))
+
+  const merged = theirs.flatMap(their => {
+    const own = mineById.get(their.id)
+    const original = baseById.get(their.id)
+    // Not in the local roster: added on the server, or removed locally
+    if (own == null) return original == null ? [their] : []
+    if (original == null) return [own]
+
+    const result: PlayerProfile = { ...their }
+    const keys = new Set([...Object.keys(own), ...Object.keys(original)]) as Set<keyof PlayerProfile>
+    keys.forEach(key => {
+      if (own[key] === original[key]) return
+      const value = counterFields.has(key)
+        ? Math.max(0, asCount(their[key]) + asCount(own[key]) - asCount(original[key]))
+        : own[key]
+      Object.assign(result, { [key]: value })
+    })
+    return [result]
+  })
+
+  // Keep players added locally; players removed on the server stay removed
+  const added = mine.filter(p => !theirIds.has(p.id) && !baseById.has(p.id))
+  return [...merged, ...added]
+}
+
+/**
+ * Player ids in bucket order for a round. Players are shuffled from a
+ * canonical order, so the same seed and roster give the same buckets
+ * whatever order the roster is in.
+ */
+export function assignBucketsBySeed(players: PlayerProfile[], seed: number): string[] {
+  const roster = [...players].sort((a, b) => a.id.localeCompare(b.id))
+  return shuffleWithRandom(roster, createSeededRandom(seed)).map(p => p.id)
+}
+
+/**
+ * Stable color for a player's balls, derived from their id
+ */
+export function playerColor(playerId: string): string {
+  let hash = 0
+  for (let i = 0; i < playerId.length; i++) {
+    hash = (hash * 31 + playerId.charCodeAt(i)) | 0
+  }
+  return `hsl(${Math.abs(hash) % 360}, 70%, 50%)`
+}
@@ -0,0 +1,49 @@
+import { defaultConfig, type PlinkoConfig, type PlinkoPreset, type PlinkoPresetConfig } from "../types"
+import { parseConfigPatch } from "../schema"
+
+export const makePresetId = (): string =>
+  `c_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`
+
+/**
+ * The part of a config a preset stores - validated fields only, board size dropped
+ */
+export function toPresetConfig(config: unknown): Partial<PlinkoPresetConfig> {
+  const presetConfig = parseConfigPatch(config)
+  delete presetConfig.width
+  delete presetConfig.height
+  return presetConfig
+}
+
+/**
+ * Config after loading a preset: defaults, then the preset, keeping the current board size
+ */
+export const applyPreset = (config: PlinkoConfig, preset: PlinkoPreset): PlinkoConfig => ({
+  ...defaultConfig,
+  ...preset.config,
+  width: config.width,
+  height: config.height
+})
+
+/**
+ * Save a config into a preset list. A preset with the same name (ignoring
+ * case) is replaced in place and keeps its id.
+ */
+export function upsertPreset(
+  presets: PlinkoPreset[],
+  name: string,
+  config: Partial<PlinkoConfig>
+): { presets: PlinkoPreset[]; preset: PlinkoPreset } {
+  const existing = presets.find(p => p.name.toLowerCase() === name.toLowerCase())
+  const preset: PlinkoPreset = {
+    id: existing?.id ?? makePresetId(),
+    name,
+    config: toPresetConfig(config),
+    createdAt: Date.now()
+  }
+  return {
+    presets: existing != null
+      ? presets.map(p => p.id === existing.id ? preset : p)
+      : [...presets, preset],
+    preset
+  }
+}
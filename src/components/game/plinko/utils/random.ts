@@ -0,0 +1,49 @@
+/**
+ * Source of uniformly distributed floats in [0, 1), like `Math.random`
+ */
+export type RandomSource = () => number
+
+const MAX_SEED = 0xffffffff
+
+/**
+ * Create a seeded PRNG (mulberry32) so a round can be replayed exactly
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Pick a fresh non-zero seed (0 is reserved for "random every round")
+ */
+export function makeRandomSeed(): number {
+  return 1 + Math.floor(Math.random() * (MAX_SEED - 1))
+}
+
+/**
+ * Clamp arbitrary input to a valid unsigned 32-bit seed
+ */
+export function normalizeSeed(value: number): number {
+  if (!Number.isFinite(value) || value <= 0) return 0
+  return Math.min(MAX_SEED, Math.floor(value))
+}
+
+/**
+ * Fisher-Yates shuffle driven by the given random source
+ */
+export function shuffleWithRandom<T>(items: readonly T[], random: RandomSource): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    const tmp = result[i]
+    result[i] = result[j]
+    result[j] = tmp
+  }
+  return result
+}
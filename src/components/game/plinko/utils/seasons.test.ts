@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest"
+import type { PlayerProfile, Season } from "../types"
+import { allTimeWins, closeSeason, openSeason, resetSeasonWins } from "./seasons"
+
+const player = (id: string, wins: number, overrides: Partial<PlayerProfile> = {}): PlayerProfile => ({
+  id,
+  name: id.charAt(0).toUpperCase() + id.slice(1),
+  wins,
+  active: true,
+  ...overrides,
+})
+
+const season: Season = { id: "sn_1", name: "Autumn", startDate: "2026-09-01", endDate: "2026-11-30" }
+
+describe("closeSeason", () => {
+  it("snapshots standings most wins first, by name on a tie", () => {
+    const closed = closeSeason(season, [player("cy", 2), player("bo", 5), player("ana", 2)], 1000)
+    expect(closed.closedAt).toBe(1000)
+    expect(closed.standings).toEqual([
+      { playerId: "bo", name: "Bo", wins: 5 },
+      { playerId: "ana", name: "Ana", wins: 2 },
+      { playerId: "cy", name: "Cy", wins: 2 },
+    ])
+    expect(closed.championIds).toEqual(["bo"])
+  })
+
+  it("crowns everyone tied on the most wins", () => {
+    const closed = closeSeason(season, [player("ana", 3), player("bo", 3), player("cy", 1)], 1000)
+    expect(closed.championIds).toEqual(["ana", "bo"])
+  })
+
+  it("has no champion when nobody won", () => {
+    const closed = closeSeason(season, [player("ana", 0), player("bo", 0)], 1000)
+    expect(closed.championIds).toEqual([])
+  })
+
+  it("leaves archived players out", () => {
+    const closed = closeSeason(season, [player("ana", 1), player("bo", 4, { archived: true })], 1000)
+    expect(closed.standings?.map(s => s.playerId)).toEqual(["ana"])
+    expect(closed.championIds).toEqual(["ana"])
+  })
+
+  it("only counts wins since the season opened", () => {
+    const opened = openSeason(season, [player("ana", 10), player("bo", 2)])
+    // Ana won once this season, Bo three times, and Cy joined part way through
+    const closed = closeSeason(opened, [player("ana", 11), player("bo", 5), player("cy", 2)], 1000)
+    expect(closed.standings).toEqual([
+      { playerId: "bo", name: "Bo", wins: 3 },
+      { playerId: "cy", name: "Cy", wins: 2 },
+      { playerId: "ana", name: "Ana", wins: 1 },
+    ])
+    expect(closed.championIds).toEqual(["bo"])
+  })
+})
+
+describe("resetSeasonWins", () => {
+  it("takes the season's wins off once, however often it runs", () => {
+    const closed = closeSeason(openSeason(season, [player("ana", 0)]), [player("ana", 3), player("bo", 2)], 1000)
+    // Bo won again after the snapshot
+    const roster = [player("ana", 3), player("bo", 3)]
+    const reset = resetSeasonWins(roster, closed)
+    expect(reset.map(p => p.wins)).toEqual([0, 1])
+    expect(resetSeasonWins(reset, closed)).toEqual(reset)
+  })
+
+  it("clears wins from before the season opened too", () => {
+    const closed = closeSeason(openSeason(season, [player("ana", 10)]), [player("ana", 11)], 1000)
+    expect(resetSeasonWins([player("ana", 11)], closed).map(p => p.wins)).toEqual([0])
+  })
+
+  it("leaves archived players alone", () => {
+    const closed = closeSeason(openSeason(season, [player("ana", 2)]), [player("ana", 4)], 1000)
+    expect(resetSeasonWins([player("ana", 4, { archived: true })], closed)).toEqual([player("ana", 4, { archived: true })])
+  })
+})
+
+describe("allTimeWins", () => {
+  it("adds closed seasons, and the wins from before them, to the current count", () => {
+    const closed = closeSeason(openSeason(season, [player("ana", 10), player("bo", 0)]), [player("ana", 11), player("bo", 2)], 1000)
+    const roster = resetSeasonWins([player("ana", 11), player("bo", 2)], closed)
+      .map(p => p.id === "bo" ? { ...p, wins: p.wins + 1 } : p)
+    expect(allTimeWins(roster, [closed])).toEqual(new Map([["ana", 11], ["bo", 3]]))
+  })
+})
@@ -0,0 +1,107 @@
+import type { PlayerProfile, Season, SeasonStanding } from "../types"
+
+export const MAX_SEASON_NAME_LENGTH = 40
+
+export const makeSeasonId = (): string =>
+  `sn_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`
+
+/**
+ * The season currently being played, if there is one
+ */
+export const findOpenSeason = (seasons: Season[]): Season | undefined =>
+  seasons.find(season => season.closedAt == null)
+
+/**
+ * Closed seasons, most recent first
+ */
+export const closedSeasons = (seasons: Season[]): Season[] =>
+  seasons
+    .filter(season => season.closedAt != null)
+    .sort((a, b) => (b.closedAt ?? 0) - (a.closedAt ?? 0))
+
+/**
+ * The open season is past its end date and waiting to be closed
+ */
+export const isSeasonDue = (season: Season, today: string): boolean =>
+  season.closedAt == null && today > season.endDate
+
+/**
+ * Record everyone's wins as a season opens, so only wins from then on count toward it
+ */
+export const openSeason = (season: Season, players: PlayerProfile[]): Season => ({
+  ...season,
+  winsBaseline: Object.fromEntries(players.map(p => [p.id, p.wins])),
+})
+
+/**
+ * A player's wins since the season opened. Players who joined later, or
+ * seasons opened before baselines were kept, count every win.
+ */
+export const seasonWins = (season: Season, player: PlayerProfile): number =>
+  Math.max(0, player.wins - (season.winsBaseline?.[player.id] ?? 0))
+
+/**
+ * Close a season: snapshot the standings of everyone not archived and crown
+ * whoever has the most wins
+ */
+export function closeSeason(season: Season, players: PlayerProfile[], closedAt: number): Season {
+  const standings: SeasonStanding[] = players
+    .filter(p => p.archived !== true)
+    .map(p => ({ playerId: p.id, name: p.name, wins: seasonWins(season, p) }))
+    .sort((a, b) => b.wins - a.wins || a.name.localeCompare(b.name))
+  const topWins = standings[0]?.wins ?? 0
+  return {
+    ...season,
+    closedAt,
+    standings,
+    championIds: topWins > 0 ? standings.filter(s => s.wins === topWins).map(s => s.playerId) : [],
+  }
+}
+
+// A player's wins when the season closed: their baseline plus the season's wins
+const snapshotWins = (season: Season, standing: SeasonStanding): number =>
+  (season.winsBaseline?.[standing.playerId] ?? 0) + standing.wins
+
+/**
+ * Start a closed season's players again from zero. Only the wins they had at
+ * the snapshot come off, so any win recorded since is kept; archived players
+ * aren't touched. Each player is marked with the season, so running it again
+ * changes nothing.
+ */
+export function resetSeasonWins(players: PlayerProfile[], season: Season): PlayerProfile[] {
+  const snapshot = new Map((season.standings ?? []).map(s => [s.playerId, snapshotWins(season, s)]))
+  return players.map(p => {
+    const wins = snapshot.get(p.id)
+    return wins == null || p.archived === true || p.winsResetFor === season.id
+      ? p
+      : { ...p, wins: Math.max(0, p.wins - wins), winsResetFor: season.id }
+  })
+}
+
+/**
+ * Wins across every closed season plus the current one, by player id. Wins
+ * from before a season opened were cleared when it closed, so they're added
+ * back along with the season's own.
+ */
+export function allTimeWins(players: PlayerProfile[], seasons: Season[]): Map<string, number> {
+  const totals = new Map(players.map(p => [p.id, p.wins]))
+  closedSeasons(seasons).forEach(season => {
+    season.standings?.forEach(standing => {
+      totals.set(standing.playerId, (totals.get(standing.playerId) ?? 0) + snapshotWins(season, standing))
+    })
+  })
+  return totals
+}
+
+/**
+ * Names of the seasons each player has won, most recent first
+ */
+export function seasonTitles(seasons: Season[]): Map<string, string[]> {
+  const titles = new Map<string, string[]>()
+  closedSeasons(seasons).forEach(season => {
+    season.championIds?.forEach(id => {
+      titles.set(id, [...(titles.get(id) ?? []), season.name])
+    })
+  })
+  return titles
+}
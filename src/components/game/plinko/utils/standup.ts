@@ -0,0 +1,164 @@
+import type { PlinkoRoundResult, SpeakerOrder, StandupRecord, StandupSpeaker } from "../types"
+import { createSeededRandom, shuffleWithRandom } from "./random"
+
+/**
+ * Progress of the standup after a round. While it runs, the current speaker
+ * is `queue[0]` and their turn began at `turnStartedAt`.
+ */
+export interface StandupState {
+  /** Round the standup belongs to (null when the round wasn't recorded) */
+  roundId: string | null
+  queue: string[]
+  /** Finished turns, in order */
+  speakers: StandupSpeaker[]
+  /** Time already used by speakers who snoozed to the end */
+  carriedMs: Record<string, number>
+  startedAt: number | null
+  turnStartedAt: number | null
+  endedAt: number | null
+}
+
+/**
+ * How the current speaker's turn ends: they spoke, were skipped, weren't
+ * there, or snoozed to the back of the queue
+ */
+export type StandupAction = "spoke" | "skip" | "absent" | "snooze"
+
+/**
+ * Player ids in speaking order: the winner(s) first, then everyone else by `order`
+ */
+export function buildSpeakerQueue(
+  order: SpeakerOrder,
+  bucketAssignments: string[],
+  winningBuckets: number[],
+  result: PlinkoRoundResult,
+  seed: number
+): string[] {
+  const buckets = bucketAssignments.map((_, index) => index)
+  const rest = order === "ranking"
+    ? result.ranking ?? [...buckets].sort((a, b) => (result.bucketCounts[b] ?? 0) - (result.bucketCounts[a] ?? 0) || a - b)
+    : order === "random"
+      ? shuffleWithRandom(buckets, createSeededRandom(seed))
+      : buckets
+  const ids = [...winningBuckets, ...rest.filter(bucket => !winningBuckets.includes(bucket))]
+    .map(bucket => bucketAssignments[bucket])
+    .filter(Boolean)
+  return [...new Set(ids)]
+}
+
+export const createStandup = (queue: string[], roundId: string | null): StandupState => ({
+  roundId,
+  queue,
+  speakers: [],
+  carriedMs: {},
+  startedAt: null,
+  turnStartedAt: null,
+  endedAt: null,
+})
+
+/**
+ * Player whose turn it is, or undefined before the standup starts and after it ends
+ */
+export const currentSpeaker = (state: StandupState): string | undefined =>
+  state.turnStartedAt != null ? state.queue[0] : undefined
+
+/**
+ * Time the current speaker has used, including any before they snoozed
+ */
+export const currentSpeakerMs = (state: StandupState, now: number): number => {
+  const speaker = currentSpeaker(state)
+  if (speaker == null || state.turnStartedAt == null) return 0
+  return (state.carriedMs[speaker] ?? 0) + (now - state.turnStartedAt)
+}
+
+export const startStandup = (state: StandupState, now: number): StandupState =>
+  state.startedAt != null || state.queue.length === 0
+    ? state
+    : { ...state, startedAt: now, turnStartedAt: now }
+
+/**
+ * End the current speaker's turn and hand over to the next
+ */
+export function advanceStandup(state: StandupState, action: StandupAction, now: number): StandupState {
+  const [speaker, ...rest] = state.queue
+  if (speaker == null || state.turnStartedAt == null) return state
+  const usedMs = currentSpeakerMs(state, now)
+
+  if (action === "snooze") {
+    // Snoozing the last speaker would just hand the turn straight back
+    if (rest.length === 0) return state
+    return {
+      ...state,
+      queue: [...rest, speaker],
+      carriedMs: { ...state.carriedMs, [speaker]: usedMs },
+      turnStartedAt: now,
+    }
+  }
+
+  const status: StandupSpeaker["status"] = action === "spoke" ? "spoke" : action === "skip" ? "skipped" : "absent"
+  const speakers = [...state.speakers, { playerId: speaker, status, durationMs: status === "absent" ? 0 : usedMs }]
+  return rest.length > 0
+    ? { ...state, queue: rest, speakers, turnStartedAt: now }
+    : { ...state, queue: [], speakers, turnStartedAt: null, endedAt: now }
+}
+
+/**
+ * Check a player off the queue from outside the runner (or put them back).
+ * Checking off the current speaker ends their turn as spoken; anyone further
+ * back is taken out of the queue as having spoken. Unchecking puts a finished
+ * speaker back at the end of the queue. A finished standup is left alone.
+ */
+export function toggleSpoken(state: StandupState, playerId: string, now: number): StandupState {
+  if (state.endedAt != null) return state
+  if (state.speakers.some(s => s.playerId === playerId)) {
+    return {
+      ...state,
+      queue: [...state.queue, playerId],
+      speakers: state.speakers.filter(s => s.playerId !== playerId),
+    }
+  }
+  if (!state.queue.includes(playerId)) return state
+  const started = startStandup(state, now)
+  if (currentSpeaker(started) === playerId) return advanceStandup(started, "spoke", now)
+  return {
+    ...started,
+    queue: started.queue.filter(id => id !== playerId),
+    speakers: [...started.speakers, { playerId, status: "spoke", durationMs: started.carriedMs[playerId] ?? 0 }],
+  }
+}
+
+/**
+ * End the standup early; whoever hasn't had a turn is marked skipped
+ */
+export function finishStandup(state: StandupState, now: number): StandupState {
+  if (state.startedAt == null || state.endedAt != null) return state
+  const speaker = currentSpeaker(state)
+  const speakers = state.queue.map((playerId): StandupSpeaker => ({
+    playerId,
+    status: playerId === speaker ? "spoke" : "skipped",
+    durationMs: playerId === speaker ? currentSpeakerMs(state, now) : state.carriedMs[playerId] ?? 0,
+  }))
+  return { ...state, queue: [], speakers: [...state.speakers, ...speakers], turnStartedAt: null, endedAt: now }
+}
+
+/**
+ * The finished standup as stored with its round, or null if it isn't finished or has no round
+ */
+export const toStandupRecord = (state: StandupState): StandupRecord | null =>
+  state.roundId == null || state.startedAt == null || state.endedAt == null
+    ? null
+    : {
+      roundId: state.roundId,
+      startedAt: state.startedAt,
+      endedAt: state.endedAt,
+      totalMs: state.endedAt - state.startedAt,
+      speakers: state.speakers,
+    }
+
+/**
+ * A duration as m:ss (the sign is dropped; callers show overtime themselves)
+ */
+export const formatClock = (ms: number): string => {
+  const totalSeconds = Math.floor(Math.abs(ms) / 1000)
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, "0")}`
+}
@@ -0,0 +1,99 @@
+import type { RenderTheme } from "../types"
+
+/**
+ * Light/dark choice for one viewer: follow the OS, or pin one
+ */
+export type ThemePreference = "system" | "light" | "dark"
+
+export const lightTheme: RenderTheme = {
+  background: "#f8fafc",
+  backgroundEnd: "#e2e8f0",
+  pinColor: "#6366f1",
+  pinGlow: "#6366f1",
+  ballGradientStart: "#f97316",
+  ballGradientEnd: "#ea580c",
+  ballTrail: "#f97316",
+  bucketDivider: "#cbd5e1",
+  bucketHighlight: "#22c55e",
+  wallColor: "#94a3b8",
+  bumperColor: "#ec4899",
+  bumperRing: "#fbcfe8",
+  spinnerColor: "#0ea5e9",
+  deflectorColor: "#64748b",
+  gateColor: "#10b981",
+}
+
+export const darkTheme: RenderTheme = {
+  background: "#0f172a",
+  backgroundEnd: "#1e293b",
+  pinColor: "#818cf8",
+  pinGlow: "#818cf8",
+  ballGradientStart: "#fb923c",
+  ballGradientEnd: "#f97316",
+  ballTrail: "#fb923c",
+  bucketDivider: "#475569",
+  bucketHighlight: "#4ade80",
+  wallColor: "#64748b",
+  bumperColor: "#f472b6",
+  bumperRing: "#9d174d",
+  spinnerColor: "#38bdf8",
+  deflectorColor: "#94a3b8",
+  gateColor: "#34d399",
+}
+
+/**
+ * Every theme field with its label, in the order the custom theme editor lists them
+ */
+export const renderThemeFields: Array<{ key: keyof RenderTheme; label: string }> = [
+  { key: "background", label: "Background top" },
+  { key: "backgroundEnd", label: "Background bottom" },
+  { key: "pinColor", label: "Pins" },
+  { key: "pinGlow", label: "Pin glow" },
+  { key: "ballGradientStart", label: "Ball highlight" },
+  { key: "ballGradientEnd", label: "Ball" },
+  { key: "ballTrail", label: "Ball trail" },
+  { key: "bucketDivider", label: "Bucket dividers" },
+  { key: "bucketHighlight", label: "Winning bucket" },
+  { key: "wallColor", label: "Walls" },
+  { key: "bumperColor", label: "Bumpers" },
+  { key: "bumperRing", label: "Bumper ring" },
+  { key: "spinnerColor", label: "Spinners" },
+  { key: "deflectorColor", label: "Deflectors" },
+  { key: "gateColor", label: "Gates" },
+]
+
+const themePreferenceOrder: ThemePreference[] = ["system", "light", "dark"]
+
+/**
+ * The preference after a click on the theme toggle: system → light → dark → system
+ */
+export const nextThemePreference = (preference: ThemePreference): ThemePreference =>
+  themePreferenceOrder[(themePreferenceOrder.indexOf(preference) + 1) % themePreferenceOrder.length]
+
+/**
+ * Board colors to draw with: the custom theme if the config has one,
+ * otherwise the palette matching the page
+ */
+export const resolveRenderTheme = (customTheme: RenderTheme | null, isDark: boolean): RenderTheme =>
+  customTheme ?? (isDark ? darkTheme : lightTheme)
+
+const parseHex = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.slice(1), 16)
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff]
+}
+
+/**
+ * A theme color as rgba() with the given opacity
+ */
+export const withAlpha = (hex: string, alpha: number): string => {
+  const [r, g, b] = parseHex(hex)
+  return `rgba(${r}, ${g}, ${b}, ${Math.max(0, Math.min(1, alpha))})`
+}
+
+/**
+ * Whether light text reads better on this color (relative luminance below the midpoint)
+ */
+export const isDarkColor = (hex: string): boolean => {
+  const [r, g, b] = parseHex(hex)
+  return (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255 < 0.5
+}
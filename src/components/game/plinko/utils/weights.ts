@@ -0,0 +1,53 @@
+import type { PlayerProfile, PlinkoConfig } from "../types"
+
+export const MIN_PLAYER_WEIGHT = 0.25
+export const MAX_PLAYER_WEIGHT = 4
+
+/**
+ * Clamp a player weight to the supported range (missing/invalid = 1)
+ */
+export function normalizeWeight(value: number | undefined): number {
+  if (value == null || !Number.isFinite(value)) return 1
+  return Math.min(MAX_PLAYER_WEIGHT, Math.max(MIN_PLAYER_WEIGHT, value))
+}
+
+/**
+ * Width multiplier for a player who won `recentWins` of the last few rounds
+ */
+export const antiStreakFactor = (recentWins: number): number => 1 / (1 + recentWins)
+
+export interface BucketWeightOptions {
+  bucketAssignments: string[]
+  players: PlayerProfile[]
+  config: Pick<PlinkoConfig, "bucketDistribution" | "antiStreak" | "antiStreakWindow">
+  /** Winner ids of past rounds, newest first */
+  recentWinners: string[][]
+}
+
+/**
+ * Relative bucket widths for the current assignment. Player weights only apply
+ * in the "weighted" distribution; anti-streak dampening applies on top of any
+ * distribution. Returns an empty array when every bucket is unweighted.
+ */
+export function computeBucketWeights({
+  bucketAssignments,
+  players,
+  config,
+  recentWinners,
+}: BucketWeightOptions): number[] {
+  const playersById = new Map(players.map(p => [p.id, p]))
+  const recentWins = new Map<string, number>()
+  if (config.antiStreak) {
+    recentWinners.slice(0, config.antiStreakWindow).forEach(winnerIds => {
+      winnerIds.forEach(id => recentWins.set(id, (recentWins.get(id) ?? 0) + 1))
+    })
+  }
+
+  const weights = bucketAssignments.map(playerId => {
+    const base = config.bucketDistribution === "weighted"
+      ? normalizeWeight(playersById.get(playerId)?.weight)
+      : 1
+    return base * antiStreakFactor(recentWins.get(playerId) ?? 0)
+  })
+  return weights.every(weight => weight === 1) ? [] : weights
+}
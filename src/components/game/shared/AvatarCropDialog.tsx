@@ -0,0 +1,152 @@
+"use client"
+
+import * as React from "react"
+import Image from "next/image"
+import { Button } from "@/components/ui/button"
+import { RangeSlider } from "@/components/ui/RangeSlider"
+import type { AvatarCrop } from "@/lib/avatar"
+
+// Side of the square crop viewport, in CSS pixels
+const VIEWPORT_SIZE = 240
+const MAX_ZOOM = 4
+
+/**
+ * An image picked for upload, with its natural size already known
+ */
+export interface PendingAvatar {
+  file: File
+  url: string
+  width: number
+  height: number
+}
+
+export interface AvatarCropDialogProps {
+  image: PendingAvatar
+  onConfirm: (crop: AvatarCrop) => void
+  onCancel: () => void
+}
+
+interface Offset {
+  x: number
+  y: number
+}
+
+/**
+ * AvatarCropDialog - Drag and zoom an image inside a circle before upload
+ */
+export function AvatarCropDialog({ image, onConfirm, onCancel }: AvatarCropDialogProps) {
+  const [zoom, setZoom] = React.useState(1)
+  const dragStartRef = React.useRef<{ pointer: Offset; offset: Offset } | null>(null)
+
+  // At zoom 1 the shorter edge exactly fills the viewport
+  const scale = (VIEWPORT_SIZE / Math.min(image.width, image.height)) * zoom
+  const displayWidth = image.width * scale
+  const displayHeight = image.height * scale
+
+  // Keep the image covering the whole viewport
+  const clampOffset = React.useCallback((offset: Offset, atScale: number): Offset => ({
+    x: Math.min(0, Math.max(VIEWPORT_SIZE - image.width * atScale, offset.x)),
+    y: Math.min(0, Math.max(VIEWPORT_SIZE - image.height * atScale, offset.y))
+  }), [image])
+
+  const [offset, setOffset] = React.useState<Offset>(() => ({
+    x: (VIEWPORT_SIZE - displayWidth) / 2,
+    y: (VIEWPORT_SIZE - displayHeight) / 2
+  }))
+
+  const handleZoomChange = (nextZoom: number) => {
+    // Zoom around the center of the viewport
+    const nextScale = scale * (nextZoom / zoom)
+    const centerX = (VIEWPORT_SIZE / 2 - offset.x) / scale
+    const centerY = (VIEWPORT_SIZE / 2 - offset.y) / scale
+    setOffset(clampOffset({
+      x: VIEWPORT_SIZE / 2 - centerX * nextScale,
+      y: VIEWPORT_SIZE / 2 - centerY * nextScale
+    }, nextScale))
+    setZoom(nextZoom)
+  }
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    dragStartRef.current = { pointer: { x: e.clientX, y: e.clientY }, offset }
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = dragStartRef.current
+    if (start == null) return
+    setOffset(clampOffset({
+      x: start.offset.x + e.clientX - start.pointer.x,
+      y: start.offset.y + e.clientY - start.pointer.y
+    }, scale))
+  }
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null
+  }
+
+  const handleConfirm = () => {
+    onConfirm({
+      x: -offset.x / displayWidth,
+      y: -offset.y / displayHeight,
+      size: 1 / zoom
+    })
+  }
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/50"
+        onClick={onCancel}
+      />
+
+      <div className="relative flex flex-col items-center gap-4 p-5 glass-panel-elevated rounded-2xl animate-in fade-in zoom-in-95 duration-200">
+        <h3 className="text-sm font-semibold self-start">Crop avatar</h3>
+
+        {/* Crop viewport */}
+        <div
+          className="relative overflow-hidden rounded-xl bg-muted cursor-grab active:cursor-grabbing touch-none select-none"
+          style={{ width: VIEWPORT_SIZE, height: VIEWPORT_SIZE }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <Image
+            src={image.url}
+            alt="Avatar preview"
+            width={image.width}
+            height={image.height}
+            unoptimized
+            draggable={false}
+            className="absolute max-w-none pointer-events-none"
+            style={{ left: offset.x, top: offset.y, width: displayWidth, height: displayHeight }}
+          />
+          {/* Dim everything outside the circle the avatar is shown in */}
+          <div className="absolute inset-0 rounded-full pointer-events-none ring-2 ring-white/80 shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]" />
+        </div>
+
+        <div className="flex items-center gap-3 w-full">
+          <span className="text-xs text-muted-foreground">Zoom</span>
+          <RangeSlider
+            value={zoom}
+            onValueChange={handleZoomChange}
+            min={1}
+            max={MAX_ZOOM}
+            step={0.05}
+            aria-label="Zoom"
+          />
+        </div>
+
+        <div className="flex justify-end gap-2 w-full">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleConfirm}>
+            Upload
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -6,6 +6,9 @@ import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/Input"
 import { getAvatarUrl, type PlayerProfile } from "./PlayerSidebar"
+import { AvatarCropDialog, type PendingAvatar } from "./AvatarCropDialog"
+import type { AvatarCrop } from "@/lib/avatar"
+import type { AuditEvent, AuditSource, ConfigAuditChange, PlayerAuditChange } from "../plinko/types"
 
 export interface PlayerManagerProps {
   isOpen: boolean
@@ -15,12 +18,49 @@ export interface PlayerManagerProps {
   onAddPlayer: () => void
   onArchivePlayer: (id: string) => void
   onSave: () => Promise<void>
-  onAvatarUpload?: (playerId: string, file: File) => Promise<void>
+  onAvatarUpload?: (playerId: string, file: File, crop?: AvatarCrop) => Promise<void>
+  /** Recorded roster and config changes, newest first */
+  auditEvents?: AuditEvent[]
+  /** Undo one recorded change; resolves to false if it couldn't be reverted */
+  onRevertAudit?: (eventId: string) => Promise<boolean>
   isDirty?: boolean
   isSaving?: boolean
   uploadingPlayerId?: string | null
 }
 
+const sourceLabels: Record<AuditSource, string> = {
+  manual: "Manual",
+  game: "Game",
+  api: "API",
+}
+
+const playerFieldLabels: Partial<Record<string, string>> = {
+  active: "enrolled",
+  tournamentWins: "tournament wins",
+}
+
+const formatAuditValue = (value: unknown): string => {
+  if (value == null) return "none"
+  if (typeof value === "boolean") return value ? "yes" : "no"
+  return String(value)
+}
+
+function describePlayerChange({ name, before, after }: PlayerAuditChange): string {
+  if (before == null) return `Added ${after?.name ?? name}`
+  if (after == null) return `Removed ${name}`
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])] as Array<keyof typeof before>
+  return `${name}: ${fields.map(field => field === "avatarUrl"
+    ? "new avatar"
+    : `${playerFieldLabels[field] ?? field} ${formatAuditValue(before[field])} → ${formatAuditValue(after[field])}`
+  ).join(", ")}`
+}
+
+// Lists and themes are too big to spell out
+const describeConfigChange = ({ key, before, after }: ConfigAuditChange): string =>
+  typeof after === "object" && after !== null || typeof before === "object" && before !== null
+    ? `${key} changed`
+    : `${key} ${formatAuditValue(before)} → ${formatAuditValue(after)}`
+
 /**
  * PlayerManager - Modal for managing player roster
  * List-based design with avatar, name, actions
@@ -34,11 +74,14 @@ export function PlayerManager({
   onArchivePlayer,
   onSave,
   onAvatarUpload,
+  auditEvents = [],
+  onRevertAudit,
   isDirty = false,
   isSaving = false,
   uploadingPlayerId = null,
 }: PlayerManagerProps) {
   const [searchQuery, setSearchQuery] = React.useState("")
+  const [showHistory, setShowHistory] = React.useState(false)
   
   const visiblePlayers = React.useMemo(() => {
     const filtered = players
@@ -67,11 +110,18 @@ export function PlayerManager({
         {/* Header */}
         <div className="flex items-center justify-between gap-4 p-4 border-b border-border/50">
           <div>
-            <h2 className="text-lg font-semibold">Manage Players</h2>
+            <h2 className="text-lg font-semibold">{showHistory ? "Change History" : "Manage Players"}</h2>
             <p className="text-sm text-muted-foreground">
-              {visiblePlayers.length} players • {visiblePlayers.filter(p => p.active).length} active
+              {showHistory
+                ? `${auditEvents.length} recorded changes`
+                : `${visiblePlayers.length} players • ${visiblePlayers.filter(p => p.active).length} active`}
             </p>
           </div>
+          {onRevertAudit != null && (
+            <Button variant="outline" size="sm" className="ml-auto" onClick={() => setShowHistory(!showHistory)}>
+              {showHistory ? "Players" : "History"}
+            </Button>
+          )}
           <button
             onClick={onClose}
             className="p-2 rounded-lg hover:bg-muted transition-colors"
@@ -83,67 +133,163 @@ export function PlayerManager({
           </button>
         </div>
 
-        {/* Toolbar */}
-        <div className="flex flex-wrap items-center gap-3 p-4 border-b border-border/30 bg-muted/30">
-          <Button variant="outline" size="sm" onClick={onAddPlayer}>
-            <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-            </svg>
-            Add Player
-          </Button>
-          
-          <div className="flex-1 min-w-[180px] max-w-xs">
-            <div className="relative">
-              <svg
-                className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground"
-                fill="none" stroke="currentColor" viewBox="0 0 24 24"
-              >
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        {showHistory && onRevertAudit != null ? (
+          <AuditHistory events={auditEvents} onRevert={onRevertAudit} canRevert={!isDirty} />
+        ) : (
+          <>
+          {/* Toolbar */}
+          <div className="flex flex-wrap items-center gap-3 p-4 border-b border-border/30 bg-muted/30">
+            <Button variant="outline" size="sm" onClick={onAddPlayer}>
+              <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
               </svg>
-              <input
-                type="text"
-                placeholder="Search..."
-                value={searchQuery}
-                onChange={e => setSearchQuery(e.target.value)}
-                className="w-full pl-9 pr-3 py-1.5 text-sm rounded-lg bg-background border border-border/50 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring/50"
-              />
+              Add Player
+            </Button>
+            
+            <div className="flex-1 min-w-[180px] max-w-xs">
+              <div className="relative">
+                <svg
+                  className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground"
+                  fill="none" stroke="currentColor" viewBox="0 0 24 24"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                </svg>
+                <input
+                  type="text"
+                  placeholder="Search..."
+                  value={searchQuery}
+                  onChange={e => setSearchQuery(e.target.value)}
+                  className="w-full pl-9 pr-3 py-1.5 text-sm rounded-lg bg-background border border-border/50 placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring/50"
+                />
+              </div>
+            </div>
+
+            <div className="ml-auto flex items-center gap-2">
+              {isDirty && (
+                <span className="text-xs text-muted-foreground">Unsaved changes</span>
+              )}
+              <Button 
+                size="sm" 
+                onClick={onSave}
+                disabled={!isDirty || isSaving}
+              >
+                {isSaving ? "Saving..." : "Save"}
+              </Button>
             </div>
           </div>
 
-          <div className="ml-auto flex items-center gap-2">
-            {isDirty && (
-              <span className="text-xs text-muted-foreground">Unsaved changes</span>
+          {/* Player List */}
+          <div className="flex-1 overflow-y-auto scrollbar-glass p-4 space-y-2">
+            {visiblePlayers.map(player => (
+              <PlayerManagerItem
+                key={player.id}
+                player={player}
+                onUpdatePlayer={onUpdatePlayer}
+                onArchivePlayer={onArchivePlayer}
+                onAvatarUpload={onAvatarUpload}
+                canArchive={canArchive}
+                isUploading={uploadingPlayerId === player.id}
+              />
+            ))}
+            {visiblePlayers.length === 0 && (
+              <div className="text-center py-8 text-muted-foreground">
+                No players found
+              </div>
             )}
-            <Button 
-              size="sm" 
-              onClick={onSave}
-              disabled={!isDirty || isSaving}
-            >
-              {isSaving ? "Saving..." : "Save"}
-            </Button>
           </div>
-        </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
 
-        {/* Player List */}
-        <div className="flex-1 overflow-y-auto scrollbar-glass p-4 space-y-2">
-          {visiblePlayers.map(player => (
-            <PlayerManagerItem
-              key={player.id}
-              player={player}
-              onUpdatePlayer={onUpdatePlayer}
-              onArchivePlayer={onArchivePlayer}
-              onAvatarUpload={onAvatarUpload}
-              canArchive={canArchive}
-              isUploading={uploadingPlayerId === player.id}
-            />
-          ))}
-          {visiblePlayers.length === 0 && (
-            <div className="text-center py-8 text-muted-foreground">
-              No players found
+/**
+ * Recorded changes, newest first, each with a one-click revert
+ */
+function AuditHistory({
+  events,
+  onRevert,
+  canRevert,
+}: {
+  events: AuditEvent[]
+  onRevert: (eventId: string) => Promise<boolean>
+  canRevert: boolean
+}) {
+  const [revertingId, setRevertingId] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const revertedIds = React.useMemo(
+    () => new Set([
+      ...events.map(event => event.revertOf).filter((id): id is string => id != null),
+      ...events.filter(event => event.revertedAt != null).map(event => event.id),
+    ]),
+    [events]
+  )
+
+  const handleRevert = async (eventId: string) => {
+    setRevertingId(eventId)
+    setError(null)
+    const reverted = await onRevert(eventId)
+    setRevertingId(null)
+    if (!reverted) setError("Couldn't revert that change")
+  }
+
+  return (
+    <div className="flex-1 overflow-y-auto scrollbar-glass p-4 space-y-2">
+      {!canRevert && (
+        <p className="text-xs text-muted-foreground">Save or discard your roster edits to revert changes.</p>
+      )}
+      {error != null && <p className="text-xs text-destructive">{error}</p>}
+      {events.map(event => {
+        const lines = event.target === "players"
+          ? event.changes.map(describePlayerChange)
+          : event.changes.map(describeConfigChange)
+        const revertedOriginal = event.revertOf != null ? events.find(e => e.id === event.revertOf) : undefined
+
+        return (
+          <div key={event.id} className="flex items-start gap-3 p-3 rounded-xl bg-card/50 border border-border/30">
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <span className="tabular-nums">{new Date(event.timestamp).toLocaleString()}</span>
+                <span className={cn(
+                  "px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide rounded",
+                  event.source === "game" ? "bg-game-success/15 text-game-success" : event.source === "api" ? "bg-amber-500/15 text-amber-600" : "bg-primary/10 text-primary"
+                )}>
+                  {sourceLabels[event.source]}
+                </span>
+                <span>{event.target === "players" ? "Roster" : "Config"}</span>
+                {event.revertOf != null && (
+                  <span>
+                    · Reverted {revertedOriginal != null ? `the change from ${new Date(revertedOriginal.timestamp).toLocaleString()}` : "an earlier change"}
+                  </span>
+                )}
+              </div>
+              {lines.map((line, index) => (
+                <div key={index} className="text-sm break-words">{line}</div>
+              ))}
             </div>
-          )}
+            {revertedIds.has(event.id) ? (
+              <span className="shrink-0 text-xs text-muted-foreground">Reverted</span>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                className="shrink-0"
+                onClick={() => handleRevert(event.id)}
+                disabled={!canRevert || revertingId != null}
+              >
+                {revertingId === event.id ? "Reverting..." : "Revert"}
+              </Button>
+            )}
+          </div>
+        )
+      })}
+      {events.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">
+          No changes recorded yet
         </div>
-      </div>
+      )}
     </div>
   )
 }
@@ -162,20 +308,42 @@ function PlayerManagerItem({
   player: PlayerProfile
   onUpdatePlayer: (id: string, updates: Partial<PlayerProfile>) => void
   onArchivePlayer: (id: string) => void
-  onAvatarUpload?: (playerId: string, file: File) => Promise<void>
+  onAvatarUpload?: (playerId: string, file: File, crop?: AvatarCrop) => Promise<void>
   canArchive: boolean
   isUploading: boolean
 }) {
   const fileInputRef = React.useRef<HTMLInputElement>(null)
+  const [pendingAvatar, setPendingAvatar] = React.useState<PendingAvatar | null>(null)
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file && onAvatarUpload) {
-      onAvatarUpload(player.id, file)
+      // Measure the image first so the crop preview can size it
+      const url = URL.createObjectURL(file)
+      const image = new window.Image()
+      image.onload = () => setPendingAvatar({ file, url, width: image.naturalWidth, height: image.naturalHeight })
+      // Not something the browser can show - upload as-is and let the server explain
+      image.onerror = () => {
+        URL.revokeObjectURL(url)
+        onAvatarUpload(player.id, file)
+      }
+      image.src = url
     }
     e.target.value = ""
   }
 
+  const closeCropDialog = () => {
+    if (pendingAvatar != null) URL.revokeObjectURL(pendingAvatar.url)
+    setPendingAvatar(null)
+  }
+
+  const handleCropConfirm = (crop: AvatarCrop) => {
+    if (pendingAvatar != null && onAvatarUpload != null) {
+      onAvatarUpload(player.id, pendingAvatar.file, crop)
+    }
+    closeCropDialog()
+  }
+
   return (
     <div className={cn(
       "flex items-center gap-4 p-3 rounded-xl transition-colors",
@@ -217,10 +385,17 @@ function PlayerManagerItem({
             <input
               ref={fileInputRef}
               type="file"
-              accept="image/*"
+              accept="image/png,image/jpeg,image/gif,image/webp"
               className="hidden"
               onChange={handleFileSelect}
             />
+            {pendingAvatar != null && (
+              <AvatarCropDialog
+                image={pendingAvatar}
+                onConfirm={handleCropConfirm}
+                onCancel={closeCropDialog}
+              />
+            )}
           </>
         )}
       </div>
@@ -235,6 +410,21 @@ function PlayerManagerItem({
         />
       </div>
 
+      {/* Bucket Weight */}
+      <div className="flex items-center gap-1 shrink-0">
+        <span className="text-xs text-muted-foreground mr-1">Weight</span>
+        <Input
+          type="number"
+          value={player.weight ?? 1}
+          onChange={e => onUpdatePlayer(player.id, { weight: Number(e.target.value) })}
+          className="w-16 h-7 text-xs"
+          min={0.25}
+          max={4}
+          step={0.25}
+          title="Relative bucket width when buckets use player weights"
+        />
+      </div>
+
       {/* Wins Stepper */}
       <div className="flex items-center gap-1 shrink-0">
         <span className="text-xs text-muted-foreground mr-1">Wins</span>
@@ -2,16 +2,11 @@
 
 import * as React from "react"
 import Image from "next/image"
+import Link from "next/link"
 import { cn } from "@/lib/utils"
+import type { PlayerProfile } from "../plinko/types"
 
-export interface PlayerProfile {
-  id: string
-  name: string
-  wins: number
-  active: boolean
-  avatarUrl?: string
-  archived?: boolean
-}
+export type { PlayerProfile }
 
 export interface PlayerSidebarProps {
   players: PlayerProfile[]
@@ -19,6 +14,8 @@ export interface PlayerSidebarProps {
   onManageClick?: () => void
   searchQuery?: string
   onSearchChange?: (query: string) => void
+  /** Names of the seasons each player has won, by player id */
+  seasonTitles?: Map<string, string[]>
   className?: string
   title?: string
 }
@@ -41,6 +38,7 @@ export function PlayerSidebar({
   onManageClick,
   searchQuery = "",
   onSearchChange,
+  seasonTitles,
   className,
   title = "Players",
 }: PlayerSidebarProps) {
@@ -135,6 +133,7 @@ export function PlayerSidebar({
           <PlayerListItem
             key={player.id}
             player={player}
+            seasonTitles={seasonTitles?.get(player.id)}
             onToggle={() => onTogglePlayer(player.id)}
           />
         ))}
@@ -149,53 +148,79 @@ export function PlayerSidebar({
 }
 
 /**
- * Individual player list item with avatar and toggle
+ * Individual player list item with avatar and toggle, plus a link to their stats
  */
 function PlayerListItem({
   player,
+  seasonTitles = [],
   onToggle,
 }: {
   player: PlayerProfile
+  seasonTitles?: string[]
   onToggle: () => void
 }) {
   return (
-    <button
-      onClick={onToggle}
-      className="w-full flex items-center gap-3 p-2 rounded-lg transition-all duration-200 hover:bg-accent/30 active:scale-[0.98]"
-    >
-      {/* Avatar */}
-      <div className="relative shrink-0">
-        <Image
-          src={getAvatarUrl(player)}
-          alt={player.name}
-          width={36}
-          height={36}
-          unoptimized
-          className={cn(
-            "w-9 h-9 rounded-full object-cover ring-2 ring-border/50 transition-all",
-            !player.active && "opacity-50"
-          )}
-        />
-      </div>
+    <div className="group flex items-center gap-1">
+      <button
+        onClick={onToggle}
+        className="flex-1 min-w-0 flex items-center gap-3 p-2 rounded-lg transition-all duration-200 hover:bg-accent/30 active:scale-[0.98]"
+      >
+        {/* Avatar */}
+        <div className="relative shrink-0">
+          <Image
+            src={getAvatarUrl(player)}
+            alt={player.name}
+            width={36}
+            height={36}
+            unoptimized
+            className={cn(
+              "w-9 h-9 rounded-full object-cover ring-2 ring-border/50 transition-all",
+              !player.active && "opacity-50"
+            )}
+          />
+        </div>
 
-      {/* Name */}
-      <span className={cn(
-        "flex-1 text-left text-sm font-medium truncate transition-colors",
-        player.active ? "text-foreground" : "text-muted-foreground/70"
-      )}>
-        {player.name}
-      </span>
+        {/* Name */}
+        <span className={cn(
+          "flex-1 text-left text-sm font-medium truncate transition-colors",
+          player.active ? "text-foreground" : "text-muted-foreground/70"
+        )}>
+          {player.name}
+        </span>
 
-      {/* Toggle indicator */}
-      <div className={cn(
-        "w-8 h-5 rounded-full p-0.5 transition-colors shrink-0",
-        player.active ? "bg-primary" : "bg-muted"
-      )}>
+        {/* Season champion badge */}
+        {seasonTitles.length > 0 && (
+          <span
+            className="shrink-0 px-1.5 py-0.5 text-[10px] font-semibold uppercase tracking-wide bg-amber-500/15 text-amber-600 rounded tabular-nums"
+            title={`Season champion: ${seasonTitles.join(", ")}`}
+          >
+            {seasonTitles.length > 1 ? `${seasonTitles.length}× Champ` : "Champ"}
+          </span>
+        )}
+
+        {/* Toggle indicator */}
         <div className={cn(
-          "w-4 h-4 rounded-full bg-white shadow transition-transform",
-          player.active ? "translate-x-3" : "translate-x-0"
-        )} />
-      </div>
-    </button>
+          "w-8 h-5 rounded-full p-0.5 transition-colors shrink-0",
+          player.active ? "bg-primary" : "bg-muted"
+        )}>
+          <div className={cn(
+            "w-4 h-4 rounded-full bg-white shadow transition-transform",
+            player.active ? "translate-x-3" : "translate-x-0"
+          )} />
+        </div>
+      </button>
+
+      {/* Stats link */}
+      <Link
+        href={`/plinko/players/${encodeURIComponent(player.id)}`}
+        className="shrink-0 p-1.5 rounded-md text-muted-foreground opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-accent/30 hover:text-foreground transition-all"
+        aria-label={`${player.name} stats`}
+        title="Player stats"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+        </svg>
+      </Link>
+    </div>
   )
 }
@@ -1,2 +1,3 @@
 export * from "./PlayerSidebar"
 export * from "./PlayerManager"
+export * from "./AvatarCropDialog"
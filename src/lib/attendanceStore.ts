@@ -0,0 +1,36 @@
+import { getStorage, STORAGE_KEYS } from "@/lib/storage"
+import { applyAttendanceEvent } from "@/components/game/plinko/utils/attendance"
+import type { AttendanceDay, AttendanceEvent } from "@/components/game/plinko/types"
+
+// Read-modify-write attempts before giving up on a busy attendance log
+const MAX_UPDATE_ATTEMPTS = 5
+
+const requireStorage = () => {
+  const storage = getStorage()
+  if (storage == null) throw new Error("Storage not configured")
+  return storage
+}
+
+/**
+ * Recorded days, newest first
+ */
+export async function readAttendance(): Promise<AttendanceDay[]> {
+  const days = await requireStorage().get<AttendanceDay[]>(STORAGE_KEYS.ATTENDANCE)
+  return Array.isArray(days) ? days : []
+}
+
+/**
+ * Apply an attendance event, retrying if another writer got in between the
+ * read and the write. Returns the updated day.
+ */
+export async function recordAttendance(event: AttendanceEvent): Promise<AttendanceDay> {
+  const storage = requireStorage()
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const { value, version } = await storage.getVersioned<AttendanceDay[]>(STORAGE_KEYS.ATTENDANCE)
+    const days = applyAttendanceEvent(Array.isArray(value) ? value : [], event)
+    if (await storage.setVersioned(STORAGE_KEYS.ATTENDANCE, days, version) !== null) {
+      return days.find(day => day.date === event.date) ?? days[0]
+    }
+  }
+  throw new Error(`Gave up recording attendance after ${MAX_UPDATE_ATTEMPTS} attempts`)
+}
@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import { getStorage, STORAGE_KEYS } from "@/lib/storage"
+import type { AuditEvent } from "@/components/game/plinko/types"
+import { AuditConflictError, AuditNotFoundError, claimRevert, recordAudit, releaseRevert } from "./auditStore"
+
+// Storage is picked when the module loads, so choose it before the imports run
+vi.hoisted(() => {
+  process.env.PLINKO_STORAGE = "memory"
+})
+
+const event = (id: string, overrides: Partial<AuditEvent> = {}): AuditEvent => ({
+  id,
+  timestamp: 1000,
+  source: "manual",
+  target: "players",
+  changes: [{ playerId: "ana", name: "Ana", before: { wins: 1 }, after: { wins: 2 } }],
+  ...overrides,
+} as AuditEvent)
+
+describe("claimRevert", () => {
+  beforeEach(async () => {
+    await getStorage()?.delete(STORAGE_KEYS.AUDIT)
+    await recordAudit(event("au_1"))
+  })
+
+  it("hands back the event and marks it reverted", async () => {
+    expect(await claimRevert("au_1", 2000)).toMatchObject({ id: "au_1" })
+    const events = await getStorage()?.get<AuditEvent[]>(STORAGE_KEYS.AUDIT)
+    expect(events?.[0].revertedAt).toBe(2000)
+  })
+
+  it("refuses a second revert of the same change", async () => {
+    await claimRevert("au_1", 2000)
+    await expect(claimRevert("au_1", 3000)).rejects.toBeInstanceOf(AuditConflictError)
+  })
+
+  it("lets only one of two racing reverts through", async () => {
+    const results = await Promise.allSettled([claimRevert("au_1", 2000), claimRevert("au_1", 2000)])
+    expect(results.filter(r => r.status === "fulfilled")).toHaveLength(1)
+    const rejected = results.find(r => r.status === "rejected")
+    expect(rejected?.status === "rejected" ? rejected.reason : null).toBeInstanceOf(AuditConflictError)
+  })
+
+  it("refuses a change that a logged revert already undid", async () => {
+    await recordAudit(event("au_2", { revertOf: "au_1" }))
+    await expect(claimRevert("au_1", 2000)).rejects.toBeInstanceOf(AuditConflictError)
+  })
+
+  it("can claim again once the claim is released", async () => {
+    await claimRevert("au_1", 2000)
+    await releaseRevert("au_1")
+    expect(await claimRevert("au_1", 3000)).toMatchObject({ id: "au_1" })
+  })
+
+  it("reports a change that isn't in the log", async () => {
+    await expect(claimRevert("au_missing", 2000)).rejects.toBeInstanceOf(AuditNotFoundError)
+  })
+})
@@ -0,0 +1,107 @@
+import { getStorage, STORAGE_KEYS } from "@/lib/storage"
+import { appendAuditEvent } from "@/components/game/plinko/utils/audit"
+import type { AuditContext, AuditEvent } from "@/components/game/plinko/types"
+
+// Read-modify-write attempts before giving up on a busy audit log
+const MAX_UPDATE_ATTEMPTS = 5
+
+export class AuditNotFoundError extends Error {
+  constructor(readonly eventId: string) {
+    super(`Audit event ${eventId} not found`)
+    this.name = "AuditNotFoundError"
+  }
+}
+
+export class AuditConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "AuditConflictError"
+  }
+}
+
+const requireStorage = () => {
+  const storage = getStorage()
+  if (storage == null) throw new Error("Storage not configured")
+  return storage
+}
+
+/**
+ * Read the `audit` field of a request body. Only the app says where its
+ * changes came from; anything else counts as a direct API call.
+ */
+export function parseAuditContext(raw: unknown): AuditContext {
+  const audit = raw != null && typeof raw === "object" ? raw as Record<string, unknown> : {}
+  const source = audit.source === "manual" || audit.source === "game" ? audit.source : "api"
+  return typeof audit.revertOf === "string" ? { source, revertOf: audit.revertOf } : { source }
+}
+
+/**
+ * Recorded changes, newest first
+ */
+export async function readAudit(): Promise<AuditEvent[]> {
+  const events = await requireStorage().get<AuditEvent[]>(STORAGE_KEYS.AUDIT)
+  return Array.isArray(events) ? events : []
+}
+
+/**
+ * Apply a change to the log, retrying if another writer got in between the
+ * read and the write
+ */
+async function updateAudit<R>(
+  mutate: (events: AuditEvent[]) => { events: AuditEvent[]; result: R }
+): Promise<R> {
+  const storage = requireStorage()
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const { value, version } = await storage.getVersioned<AuditEvent[]>(STORAGE_KEYS.AUDIT)
+    const { events, result } = mutate(Array.isArray(value) ? value : [])
+    if (await storage.setVersioned(STORAGE_KEYS.AUDIT, events, version) !== null) return result
+  }
+  throw new Error(`Gave up updating the audit log after ${MAX_UPDATE_ATTEMPTS} attempts`)
+}
+
+/**
+ * Add an event to the log. Failures are logged rather than thrown: the change
+ * it describes has already been saved.
+ */
+export async function recordAudit(event: AuditEvent | null): Promise<void> {
+  if (event == null) return
+  try {
+    await updateAudit(events => ({ events: appendAuditEvent(events, event), result: undefined }))
+  } catch (error) {
+    console.error("Failed to record audit event:", error)
+  }
+}
+
+/**
+ * Claim an event for reverting. The check that it hasn't been reverted and the
+ * mark saying it now is are one versioned write, so of two reverts racing
+ * only one gets the event back - the other gets an AuditConflictError.
+ */
+export async function claimRevert(id: string, timestamp: number): Promise<AuditEvent> {
+  return await updateAudit(events => {
+    const event = events.find(e => e.id === id)
+    if (event == null) throw new AuditNotFoundError(id)
+    if (event.revertedAt != null || events.some(e => e.revertOf === id)) {
+      throw new AuditConflictError("That change was already reverted")
+    }
+    return {
+      events: events.map(e => e.id === id ? { ...e, revertedAt: timestamp } : e),
+      result: event,
+    }
+  })
+}
+
+/**
+ * Give up a claim when the revert itself couldn't be saved, so it can be tried
+ * again. Failures are logged: the claim then just stays in place.
+ */
+export async function releaseRevert(id: string): Promise<void> {
+  try {
+    await updateAudit(events => ({
+      events: events.map(e => e.id === id ? { ...e, revertedAt: undefined } : e),
+      result: undefined,
+    }))
+  } catch (error) {
+    console.error("Failed to release audit revert:", error)
+  }
+}
@@ -0,0 +1,110 @@
+import sharp from "sharp"
+
+// Uploads larger than this are rejected before decoding
+export const MAX_AVATAR_BYTES = 5 * 1024 * 1024
+
+// Square WebP variants produced for every upload, largest first
+export const AVATAR_SIZES = [256, 64] as const
+
+export type AvatarSize = typeof AVATAR_SIZES[number]
+
+export const ACCEPTED_AVATAR_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"] as const
+
+type AvatarMimeType = typeof ACCEPTED_AVATAR_TYPES[number]
+
+/**
+ * Square crop as fractions of the (EXIF-rotated) source image: `x`/`y` are the
+ * top-left corner relative to width/height, `size` is the side relative to
+ * the shorter edge. Without one, the image is center-cropped.
+ */
+export interface AvatarCrop {
+  x: number
+  y: number
+  size: number
+}
+
+export interface AvatarVariant {
+  size: AvatarSize
+  data: Buffer
+}
+
+export class AvatarValidationError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+    this.name = "AvatarValidationError"
+  }
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+  signature.every((byte, index) => bytes[offset + index] === byte)
+
+const ascii = (text: string): number[] => Array.from(text, char => char.charCodeAt(0))
+
+/**
+ * Identify an image from its leading bytes, ignoring whatever the upload claims
+ */
+export const detectImageType = (bytes: Uint8Array): AvatarMimeType | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png"
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg"
+  if (startsWith(bytes, ascii("GIF87a")) || startsWith(bytes, ascii("GIF89a"))) return "image/gif"
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) return "image/webp"
+  return null
+}
+
+export const isAvatarCrop = (value: unknown): value is AvatarCrop => {
+  if (value == null || typeof value !== "object") return false
+  const { x, y, size } = value as Partial<AvatarCrop>
+  return [x, y, size].every(n => typeof n === "number" && Number.isFinite(n)) &&
+    (size as number) > 0 && (size as number) <= 1
+}
+
+/**
+ * Check an upload's size, declared type and magic bytes
+ */
+export function validateAvatar(bytes: Uint8Array, declaredType: string): void {
+  if (bytes.byteLength === 0) {
+    throw new AvatarValidationError("File is empty", 400)
+  }
+  if (bytes.byteLength > MAX_AVATAR_BYTES) {
+    throw new AvatarValidationError(`File is larger than ${MAX_AVATAR_BYTES / 1024 / 1024}MB`, 413)
+  }
+  if (!(ACCEPTED_AVATAR_TYPES as readonly string[]).includes(declaredType)) {
+    throw new AvatarValidationError(`Unsupported file type (allowed: ${ACCEPTED_AVATAR_TYPES.join(", ")})`, 415)
+  }
+  if (detectImageType(bytes) !== declaredType) {
+    throw new AvatarValidationError("File contents do not match its type", 415)
+  }
+}
+
+/**
+ * Crop an upload to a square and render every avatar size as WebP
+ */
+export async function processAvatar(bytes: Uint8Array, crop?: AvatarCrop): Promise<AvatarVariant[]> {
+  // Bake in EXIF rotation first so crop fractions match what the user saw
+  const oriented = await sharp(bytes)
+    .rotate()
+    .toBuffer({ resolveWithObject: true })
+    .catch(() => {
+      throw new AvatarValidationError("File is not a readable image", 400)
+    })
+
+  const { width, height } = oriented.info
+  const side = Math.max(1, Math.round(Math.min(width, height) * (crop?.size ?? 1)))
+  const left = crop != null ? Math.round(crop.x * width) : Math.floor((width - side) / 2)
+  const top = crop != null ? Math.round(crop.y * height) : Math.floor((height - side) / 2)
+  const region = {
+    left: Math.min(Math.max(0, left), width - side),
+    top: Math.min(Math.max(0, top), height - side),
+    width: side,
+    height: side
+  }
+
+  return await Promise.all(AVATAR_SIZES.map(async size => ({
+    size,
+    data: await sharp(oriented.data)
+      .extract(region)
+      .resize(size, size)
+      .webp({ quality: 85 })
+      .toBuffer()
+  })))
+}
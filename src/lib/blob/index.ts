@@ -0,0 +1,21 @@
+import { join } from "path"
+import { LocalBlobStore } from "./local"
+import { VercelBlobStore } from "./vercel"
+import type { BlobStore } from "./types"
+
+export * from "./types"
+export { LocalBlobStore, LOCAL_UPLOADS_URL } from "./local"
+export { VercelBlobStore } from "./vercel"
+
+export const localBlobStore = new LocalBlobStore(join(process.cwd(), "public", "uploads"))
+
+/**
+ * Pick the store from PLINKO_BLOB_STORE ("vercel" | "local"). When unset,
+ * Vercel Blob is used if its token is present, local files otherwise.
+ */
+export function getBlobStore(): BlobStore {
+  const requested = process.env.PLINKO_BLOB_STORE
+  if (requested === "local") return localBlobStore
+  if (requested === "vercel" || process.env.BLOB_READ_WRITE_TOKEN != null) return new VercelBlobStore()
+  return localBlobStore
+}
@@ -0,0 +1,41 @@
+import { mkdir, readFile, writeFile } from "fs/promises"
+import { dirname, join, normalize, sep } from "path"
+import type { BlobStore } from "./types"
+
+// URL prefix for locally stored files, matching their place under public/
+export const LOCAL_UPLOADS_URL = "/uploads"
+
+/**
+ * Files written to public/uploads - for offline development and self-hosting.
+ * `next start` only serves public files that existed at build time, so the
+ * /uploads route serves anything newer through `read`.
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly backend = "local"
+
+  constructor(private readonly rootDir: string) {}
+
+  // Resolve a relative path inside the uploads dir, or null if it escapes it
+  resolvePath(path: string): string | null {
+    const fullPath = normalize(join(this.rootDir, path))
+    return fullPath.startsWith(this.rootDir + sep) ? fullPath : null
+  }
+
+  async put(path: string, data: Buffer): Promise<string> {
+    const fullPath = this.resolvePath(path)
+    if (fullPath == null) throw new Error(`Invalid upload path: ${path}`)
+    await mkdir(dirname(fullPath), { recursive: true })
+    await writeFile(fullPath, data)
+    return `${LOCAL_UPLOADS_URL}/${path}`
+  }
+
+  async read(path: string): Promise<Buffer | null> {
+    const fullPath = this.resolvePath(path)
+    if (fullPath == null) return null
+    try {
+      return await readFile(fullPath)
+    } catch {
+      return null
+    }
+  }
+}
@@ -0,0 +1,10 @@
+export type BlobBackend = "vercel" | "local"
+
+/**
+ * Somewhere to put public files (avatars). `path` is relative, e.g.
+ * "avatars/abc-256.webp"; the returned URL is what browsers load.
+ */
+export interface BlobStore {
+  readonly backend: BlobBackend
+  put(path: string, data: Buffer, contentType: string): Promise<string>
+}
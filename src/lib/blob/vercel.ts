@@ -0,0 +1,19 @@
+import { put } from "@vercel/blob"
+import type { BlobStore } from "./types"
+
+/**
+ * Files on Vercel Blob - the hosted default
+ */
+export class VercelBlobStore implements BlobStore {
+  readonly backend = "vercel"
+
+  async put(path: string, data: Buffer, contentType: string): Promise<string> {
+    const { url } = await put(`plinko/${path}`, data, {
+      access: "public",
+      contentType,
+      // Paths already carry a unique id
+      addRandomSuffix: false
+    })
+    return url
+  }
+}
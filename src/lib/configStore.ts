@@ -0,0 +1,45 @@
+import { getStorage, STORAGE_KEYS } from "@/lib/storage"
+import { recordAudit } from "@/lib/auditStore"
+import { parseConfig, serializeConfig } from "@/components/game/plinko/schema"
+import { makeConfigAuditEvent } from "@/components/game/plinko/utils/audit"
+import type { AuditContext, PlinkoConfig } from "@/components/game/plinko/types"
+
+// Read-modify-write attempts before giving up on a busy config
+const MAX_UPDATE_ATTEMPTS = 5
+
+const requireStorage = () => {
+  const storage = getStorage()
+  if (storage == null) throw new Error("Storage not configured")
+  return storage
+}
+
+/**
+ * The saved config (null if none was saved yet). Older saves are upgraded
+ * and clamped on the way out.
+ */
+export async function readConfig(): Promise<PlinkoConfig | null> {
+  const stored = await requireStorage().get<unknown>(STORAGE_KEYS.CONFIG)
+  return stored != null ? parseConfig(stored) : null
+}
+
+/**
+ * Replace the saved config with `mutate`'s result and audit the difference,
+ * retrying if another writer got in between the read and the write
+ */
+export async function updateConfig(
+  mutate: (config: PlinkoConfig) => PlinkoConfig,
+  audit: AuditContext
+): Promise<PlinkoConfig> {
+  const storage = requireStorage()
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const { value, version } = await storage.getVersioned<unknown>(STORAGE_KEYS.CONFIG)
+    // Nothing saved yet means everyone was on the defaults
+    const before = parseConfig(value ?? {})
+    const config = parseConfig(mutate(before))
+    if (await storage.setVersioned(STORAGE_KEYS.CONFIG, serializeConfig(config), version) !== null) {
+      await recordAudit(makeConfigAuditEvent(before, config, audit, Date.now()))
+      return config
+    }
+  }
+  throw new Error(`Gave up saving config after ${MAX_UPDATE_ATTEMPTS} attempts`)
+}
@@ -0,0 +1,132 @@
+import { getStorage, STORAGE_KEYS } from "@/lib/storage"
+import { recordAudit } from "@/lib/auditStore"
+import { parsePlayers, parsePlayersDocument, serializePlayers } from "@/components/game/plinko/schema"
+import { makePlayersAuditEvent } from "@/components/game/plinko/utils/audit"
+import type { AuditContext, PlayerProfile } from "@/components/game/plinko/types"
+
+// Read-modify-write attempts before giving up on a busy roster
+const MAX_UPDATE_ATTEMPTS = 5
+
+export interface VersionedPlayers {
+  players: PlayerProfile[] | null
+  version: number
+}
+
+export class PlayerVersionConflictError extends Error {
+  constructor(readonly current: VersionedPlayers) {
+    super("Players were changed by someone else")
+    this.name = "PlayerVersionConflictError"
+  }
+}
+
+export class PlayerNotFoundError extends Error {
+  constructor(readonly playerId: string) {
+    super(`Player ${playerId} not found`)
+    this.name = "PlayerNotFoundError"
+  }
+}
+
+// Strong ETag for a roster version, e.g. "v12"
+export const playersETag = (version: number): string => `"v${version}"`
+
+/**
+ * Parse an If-Match header into a roster version (null = header absent or "*")
+ */
+export const parseIfMatch = (header: string | null): number | null | "invalid" => {
+  if (header == null || header.trim() === "*") return null
+  const match = /^(?:W\/)?"v(\d+)"$/.exec(header.trim())
+  return match != null ? Number(match[1]) : "invalid"
+}
+
+const requireStorage = () => {
+  const storage = getStorage()
+  if (storage == null) throw new Error("Storage not configured")
+  return storage
+}
+
+export async function readPlayers(): Promise<VersionedPlayers> {
+  // Older saves are upgraded on the way out
+  const { value, version } = await requireStorage().getVersioned<unknown>(STORAGE_KEYS.PLAYERS)
+  return { players: parsePlayersDocument(value), version }
+}
+
+/**
+ * Write a roster over the one read at `version` and audit the difference.
+ * Returns the new version, or null if someone else wrote in between.
+ */
+async function commitPlayers(
+  before: PlayerProfile[],
+  players: PlayerProfile[],
+  version: number,
+  audit: AuditContext
+): Promise<number | null> {
+  const parsed = parsePlayers(players)
+  const nextVersion = await requireStorage().setVersioned(STORAGE_KEYS.PLAYERS, serializePlayers(parsed), version)
+  if (nextVersion !== null) await recordAudit(makePlayersAuditEvent(before, parsed, audit, Date.now()))
+  return nextVersion
+}
+
+/**
+ * Replace the whole roster. With `expectedVersion`, the write only lands if the
+ * stored roster is still at that version.
+ */
+export async function writePlayers(
+  players: PlayerProfile[],
+  expectedVersion: number | null,
+  audit: AuditContext
+): Promise<number> {
+  // The stored roster is read first so the audit log gets an accurate "before"
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const current = await readPlayers()
+    if (expectedVersion !== null && current.version !== expectedVersion) {
+      throw new PlayerVersionConflictError(current)
+    }
+    const version = await commitPlayers(current.players ?? [], players, current.version, audit)
+    if (version !== null) return version
+  }
+  throw new Error(`Gave up saving players after ${MAX_UPDATE_ATTEMPTS} attempts`)
+}
+
+/**
+ * Apply a change to a single player atomically, retrying if another writer
+ * got in between the read and the write. `mutate` returns the replacement
+ * player, or null to remove them.
+ */
+export async function updatePlayer(
+  playerId: string,
+  mutate: (player: PlayerProfile) => PlayerProfile | null,
+  audit: AuditContext
+): Promise<{ player: PlayerProfile | null; version: number }> {
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const { players, version } = await readPlayers()
+    const existing = players?.find(p => p.id === playerId)
+    if (players == null || existing == null) throw new PlayerNotFoundError(playerId)
+
+    const updated = mutate(existing)
+    const nextPlayers = updated == null
+      ? players.filter(p => p.id !== playerId)
+      : players.map(p => p.id === playerId ? updated : p)
+
+    const nextVersion = await commitPlayers(players, nextPlayers, version, audit)
+    if (nextVersion !== null) return { player: updated, version: nextVersion }
+  }
+  throw new Error(`Gave up updating player ${playerId} after ${MAX_UPDATE_ATTEMPTS} attempts`)
+}
+
+/**
+ * Apply a change to the whole roster atomically, retrying if another writer
+ * got in between the read and the write
+ */
+export async function updatePlayers(
+  mutate: (players: PlayerProfile[]) => PlayerProfile[],
+  audit: AuditContext
+): Promise<{ players: PlayerProfile[]; version: number }> {
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const { players, version } = await readPlayers()
+    const nextPlayers = mutate(players ?? [])
+
+    const nextVersion = await commitPlayers(players ?? [], nextPlayers, version, audit)
+    if (nextVersion !== null) return { players: nextPlayers, version: nextVersion }
+  }
+  throw new Error(`Gave up updating players after ${MAX_UPDATE_ATTEMPTS} attempts`)
+}
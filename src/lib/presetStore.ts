@@ -0,0 +1,61 @@
+import { getStorage, STORAGE_KEYS } from "@/lib/storage"
+import { toPresetConfig, upsertPreset } from "@/components/game/plinko/utils/presets"
+import type { PlinkoConfig, PlinkoPreset } from "@/components/game/plinko/types"
+
+// Read-modify-write attempts before giving up on a busy preset list
+const MAX_UPDATE_ATTEMPTS = 5
+
+export const MAX_PRESET_NAME_LENGTH = 40
+
+export class PresetNotFoundError extends Error {
+  constructor(readonly presetId: string) {
+    super(`Preset ${presetId} not found`)
+    this.name = "PresetNotFoundError"
+  }
+}
+
+const requireStorage = () => {
+  const storage = getStorage()
+  if (storage == null) throw new Error("Storage not configured")
+  return storage
+}
+
+export async function readPresets(): Promise<PlinkoPreset[]> {
+  const presets = await requireStorage().get<PlinkoPreset[]>(STORAGE_KEYS.PRESETS)
+  return Array.isArray(presets)
+    ? presets.map(preset => ({ ...preset, config: toPresetConfig(preset.config) }))
+    : []
+}
+
+/**
+ * Apply a change to the saved presets, retrying if another writer got in
+ * between the read and the write
+ */
+async function updatePresets<R>(
+  mutate: (presets: PlinkoPreset[]) => { presets: PlinkoPreset[]; result: R }
+): Promise<R> {
+  const storage = requireStorage()
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const { value, version } = await storage.getVersioned<PlinkoPreset[]>(STORAGE_KEYS.PRESETS)
+    const { presets, result } = mutate(Array.isArray(value) ? value : [])
+    if (await storage.setVersioned(STORAGE_KEYS.PRESETS, presets, version) !== null) return result
+  }
+  throw new Error(`Gave up updating presets after ${MAX_UPDATE_ATTEMPTS} attempts`)
+}
+
+/**
+ * Save a config under a name. Saving over an existing name replaces that preset.
+ */
+export async function savePreset(name: string, config: Partial<PlinkoConfig>): Promise<PlinkoPreset> {
+  return await updatePresets(presets => {
+    const saved = upsertPreset(presets, name, config)
+    return { presets: saved.presets, result: saved.preset }
+  })
+}
+
+export async function deletePreset(presetId: string): Promise<void> {
+  await updatePresets(presets => {
+    if (!presets.some(p => p.id === presetId)) throw new PresetNotFoundError(presetId)
+    return { presets: presets.filter(p => p.id !== presetId), result: undefined }
+  })
+}
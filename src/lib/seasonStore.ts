@@ -0,0 +1,89 @@
+import { getStorage, STORAGE_KEYS } from "@/lib/storage"
+import { readPlayers, updatePlayers } from "@/lib/playerStore"
+import { closeSeason, findOpenSeason, makeSeasonId, openSeason, resetSeasonWins } from "@/components/game/plinko/utils/seasons"
+import type { AuditContext, PlayerProfile, Season } from "@/components/game/plinko/types"
+
+// Read-modify-write attempts before giving up on a busy season list
+const MAX_UPDATE_ATTEMPTS = 5
+
+export class SeasonNotFoundError extends Error {
+  constructor(readonly seasonId: string) {
+    super(`Season ${seasonId} not found`)
+    this.name = "SeasonNotFoundError"
+  }
+}
+
+export class SeasonConflictError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "SeasonConflictError"
+  }
+}
+
+const requireStorage = () => {
+  const storage = getStorage()
+  if (storage == null) throw new Error("Storage not configured")
+  return storage
+}
+
+export async function readSeasons(): Promise<Season[]> {
+  const seasons = await requireStorage().get<Season[]>(STORAGE_KEYS.SEASONS)
+  return Array.isArray(seasons) ? seasons : []
+}
+
+/**
+ * Apply a change to the seasons, retrying if another writer got in between
+ * the read and the write
+ */
+async function updateSeasons<R>(
+  mutate: (seasons: Season[]) => Promise<{ seasons: Season[]; result: R }>
+): Promise<R> {
+  const storage = requireStorage()
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const { value, version } = await storage.getVersioned<Season[]>(STORAGE_KEYS.SEASONS)
+    const { seasons, result } = await mutate(Array.isArray(value) ? value : [])
+    if (await storage.setVersioned(STORAGE_KEYS.SEASONS, seasons, version) !== null) return result
+  }
+  throw new Error(`Gave up updating seasons after ${MAX_UPDATE_ATTEMPTS} attempts`)
+}
+
+/**
+ * Open a new season. Only one season can be open at a time.
+ */
+export async function startSeason(name: string, startDate: string, endDate: string): Promise<Season> {
+  return await updateSeasons(async seasons => {
+    const open = findOpenSeason(seasons)
+    if (open != null) throw new SeasonConflictError(`Season "${open.name}" is still open`)
+    const { players } = await readPlayers()
+    const season = openSeason({ id: makeSeasonId(), name, startDate, endDate }, players ?? [])
+    return { seasons: [...seasons, season], result: season }
+  })
+}
+
+/**
+ * Close the open season: snapshot the standings, then take the season's wins
+ * off the roster. Returns the closed season and the updated roster.
+ *
+ * The two live under separate keys, so they're written one after the other.
+ * The wins reset is idempotent, and ending a season that's already closed
+ * just runs it again from the stored standings - so a reset that failed
+ * part way can be retried.
+ */
+export async function endSeason(
+  seasonId: string,
+  audit: AuditContext
+): Promise<{ season: Season; players: PlayerProfile[]; version: number }> {
+  const season = (await readSeasons()).find(s => s.id === seasonId)
+  if (season == null) throw new SeasonNotFoundError(seasonId)
+  const closed = season.closedAt != null ? season : await updateSeasons(async seasons => {
+    const season = seasons.find(s => s.id === seasonId)
+    if (season == null) throw new SeasonNotFoundError(seasonId)
+    // Closed by someone else since the read above - keep their snapshot
+    if (season.closedAt != null) return { seasons, result: season }
+    const { players } = await readPlayers()
+    const result = closeSeason(season, players ?? [], Date.now())
+    return { seasons: seasons.map(s => s.id === seasonId ? result : s), result }
+  })
+  const { players, version } = await updatePlayers(roster => resetSeasonWins(roster, closed), audit)
+  return { season: closed, players, version }
+}
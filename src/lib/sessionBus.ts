@@ -0,0 +1,208 @@
+import { randomBytes, timingSafeEqual } from "crypto"
+import { parseConfig } from "@/components/game/plinko/schema"
+import type { PlayerDrop, PlinkoConfig, PlinkoRoundResult } from "@/components/game/plinko/types"
+
+/**
+ * Player details a spectator needs to draw the board (no wins/roster state)
+ */
+export interface SessionPlayer {
+  id: string
+  name: string
+  avatarUrl?: string
+}
+
+// Events the host publishes for a live round
+export type SessionEvent =
+  | {
+      type: "round-start"
+      seed: number
+      config: PlinkoConfig
+      bucketAssignments: string[]
+      bucketWeights: number[]
+      players: SessionPlayer[]
+    }
+  | { type: "drop"; drop: PlayerDrop }
+  | { type: "settle"; bucketIndex: number }
+  | { type: "tiebreaker"; roundNumber: number }
+  | { type: "round-end"; winningBuckets: number[]; result: PlinkoRoundResult }
+  | { type: "celebration"; winnerId: string }
+  | { type: "stop" }
+
+/**
+ * Event as delivered to spectators. `elapsedMs` is how long ago the server
+ * received it - 0 for live events, larger when replayed to a late joiner.
+ */
+export interface SessionMessage {
+  event: SessionEvent
+  elapsedMs: number
+}
+
+type Listener = (message: SessionMessage) => void
+
+interface Session {
+  // Only the host that created the session holds this, so only it can publish
+  hostToken: string
+  // Events of the current round only - a new round-start clears the log
+  log: Array<{ event: SessionEvent; receivedAt: number }>
+  listeners: Set<Listener>
+  updatedAt: number
+}
+
+// Idle sessions are dropped after this long
+const SESSION_TTL_MS = 6 * 60 * 60 * 1000
+
+// In-memory, so the host and every viewer must reach the same server process:
+// run a single instance (no serverless or multi-replica deploys) while live
+// sessions are in use. Kept on globalThis to survive module reloads in development.
+const globalForSessions = globalThis as unknown as { plinkoSessions?: Map<string, Session> }
+const sessions = globalForSessions.plinkoSessions ?? new Map<string, Session>()
+globalForSessions.plinkoSessions = sessions
+
+const pruneSessions = (now: number) => {
+  sessions.forEach((session, id) => {
+    if (session.listeners.size === 0 && now - session.updatedAt > SESSION_TTL_MS) {
+      sessions.delete(id)
+    }
+  })
+}
+
+const makeSessionId = (): string =>
+  `s_${Date.now().toString(36)}_${randomBytes(4).toString("hex")}`
+
+/**
+ * Open a session. The host token is handed out once, here - publishing
+ * needs it, watching doesn't.
+ */
+export function createSession(): { id: string; hostToken: string } {
+  const now = Date.now()
+  pruneSessions(now)
+  const id = makeSessionId()
+  const hostToken = randomBytes(24).toString("base64url")
+  sessions.set(id, { hostToken, log: [], listeners: new Set(), updatedAt: now })
+  return { id, hostToken }
+}
+
+export const sessionExists = (id: string): boolean => sessions.has(id)
+
+export const isSessionHost = (id: string, token: string): boolean => {
+  const expected = sessions.get(id)?.hostToken
+  if (expected == null) return false
+  const a = Buffer.from(expected)
+  const b = Buffer.from(token)
+  return a.length === b.length && timingSafeEqual(a, b)
+}
+
+/**
+ * Record a host event and fan it out to every connected spectator. Does
+ * nothing for a session that was never created (or has expired).
+ */
+export function publishSessionEvent(id: string, event: SessionEvent): void {
+  const now = Date.now()
+  pruneSessions(now)
+  const session = sessions.get(id)
+  if (session == null) return
+  if (event.type === "round-start") session.log = []
+  session.log.push({ event, receivedAt: now })
+  session.updatedAt = now
+  session.listeners.forEach(listener => listener({ event, elapsedMs: 0 }))
+}
+
+/**
+ * Subscribe to a session. The current round is replayed first so late joiners
+ * can catch up. Returns the unsubscribe function, or null if there is no such session.
+ */
+export function subscribeToSession(id: string, listener: Listener): (() => void) | null {
+  const session = sessions.get(id)
+  if (session == null) return null
+  const now = Date.now()
+  session.log.forEach(({ event, receivedAt }) => {
+    listener({ event, elapsedMs: now - receivedAt })
+  })
+  session.listeners.add(listener)
+  return () => {
+    session.listeners.delete(listener)
+    session.updatedAt = Date.now()
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  value != null && typeof value === "object" && !Array.isArray(value)
+
+const isCount = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 0
+
+const isCountList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every(isCount)
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string")
+
+const parseSessionPlayer = (value: unknown): SessionPlayer | null => {
+  if (!isRecord(value) || typeof value.id !== "string" || typeof value.name !== "string") return null
+  if (value.avatarUrl != null && typeof value.avatarUrl !== "string") return null
+  return value.avatarUrl != null
+    ? { id: value.id, name: value.name, avatarUrl: value.avatarUrl }
+    : { id: value.id, name: value.name }
+}
+
+const parseRoundResult = (value: unknown): PlinkoRoundResult | null => {
+  if (!isRecord(value) || !isCountList(value.bucketCounts) || !isCount(value.tiebreakerRounds)) return null
+  if (value.ranking != null && !isCountList(value.ranking)) return null
+  return value.ranking != null
+    ? { bucketCounts: value.bucketCounts, tiebreakerRounds: value.tiebreakerRounds, ranking: value.ranking }
+    : { bucketCounts: value.bucketCounts, tiebreakerRounds: value.tiebreakerRounds }
+}
+
+/**
+ * Check a host event field by field, since spectators draw straight from it.
+ * Returns the event with only known fields (config normalized like a saved
+ * one), or null if anything is missing or the wrong shape.
+ */
+export function parseSessionEvent(value: unknown): SessionEvent | null {
+  if (!isRecord(value)) return null
+  switch (value.type) {
+    case "round-start": {
+      if (!isRecord(value.config) || typeof value.seed !== "number" || !Number.isFinite(value.seed)) return null
+      const config = parseConfig(value.config)
+      const { bucketAssignments, bucketWeights } = value
+      if (!isStringList(bucketAssignments) || bucketAssignments.length > config.bucketCount) return null
+      if (!Array.isArray(bucketWeights) ||
+        !bucketWeights.every(w => typeof w === "number" && Number.isFinite(w) && w > 0)) return null
+      if (!Array.isArray(value.players)) return null
+      const players = value.players.map(parseSessionPlayer)
+      if (players.some(p => p == null)) return null
+      return {
+        type: "round-start",
+        seed: value.seed,
+        config,
+        bucketAssignments,
+        bucketWeights,
+        players: players as SessionPlayer[]
+      }
+    }
+    case "drop": {
+      const drop = value.drop
+      if (!isRecord(drop) || !isCount(drop.step) || typeof drop.x !== "number" || !Number.isFinite(drop.x) ||
+        typeof drop.ownerId !== "string") return null
+      return { type: "drop", drop: { step: drop.step, x: drop.x, ownerId: drop.ownerId } }
+    }
+    case "settle":
+      return isCount(value.bucketIndex) ? { type: "settle", bucketIndex: value.bucketIndex } : null
+    case "tiebreaker":
+      return isCount(value.roundNumber) ? { type: "tiebreaker", roundNumber: value.roundNumber } : null
+    case "round-end": {
+      const result = parseRoundResult(value.result)
+      return isCountList(value.winningBuckets) && result != null
+        ? { type: "round-end", winningBuckets: value.winningBuckets, result }
+        : null
+    }
+    case "celebration":
+      return typeof value.winnerId === "string" ? { type: "celebration", winnerId: value.winnerId } : null
+    case "stop":
+      return { type: "stop" }
+    default:
+      return null
+  }
+}
+
+export const isValidSessionId = (id: string): boolean => /^[a-z0-9_-]{4,64}$/i.test(id)
@@ -0,0 +1,68 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises"
+import { dirname } from "path"
+import { MemoryStorageAdapter } from "./memory"
+import type { StorageBackend } from "./types"
+
+/**
+ * Storage kept in a single JSON file - for self-hosting on one box without
+ * Redis. Operations are queued so each one sees the previous write, and the
+ * file is replaced atomically. Only one server process may use a given file.
+ */
+export class FileStorageAdapter extends MemoryStorageAdapter {
+  override readonly backend: StorageBackend = "file"
+  private loaded = false
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(private readonly filePath: string) {
+    super()
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) return
+    this.data = new Map()
+    try {
+      const contents = JSON.parse(await readFile(this.filePath, "utf8")) as Record<string, unknown>
+      this.data = new Map(Object.entries(contents))
+    } catch (error) {
+      // A missing file is just an empty store; anything else is worth stopping for
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error
+    }
+    this.loaded = true
+  }
+
+  private async persist(): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`
+    await mkdir(dirname(this.filePath), { recursive: true })
+    await writeFile(tempPath, JSON.stringify(Object.fromEntries(this.data), null, 2))
+    await rename(tempPath, this.filePath)
+  }
+
+  private enqueue<R>(operation: () => Promise<R>): Promise<R> {
+    const result = this.queue.then(operation)
+    // Keep the queue moving even if this operation fails
+    this.queue = result.catch(() => {})
+    return result
+  }
+
+  protected override async read<R>(fn: (data: Map<string, unknown>) => R): Promise<R> {
+    return await this.enqueue(async () => {
+      await this.load()
+      return fn(this.data)
+    })
+  }
+
+  protected override async write<R>(fn: (data: Map<string, unknown>) => R): Promise<R> {
+    return await this.enqueue(async () => {
+      await this.load()
+      const result = fn(this.data)
+      try {
+        await this.persist()
+      } catch (error) {
+        // Reload from disk next time rather than trust a change that never landed
+        this.loaded = false
+        throw error
+      }
+      return result
+    })
+  }
+}
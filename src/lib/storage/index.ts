@@ -0,0 +1,70 @@
+import { resolve } from "path"
+import { createRedisClient } from "@/lib/redis"
+import { FileStorageAdapter } from "./file"
+import { MemoryStorageAdapter } from "./memory"
+import { UpstashStorageAdapter } from "./upstash"
+import type { StorageAdapter, StorageBackend } from "./types"
+
+export * from "./types"
+export { FileStorageAdapter } from "./file"
+export { MemoryStorageAdapter } from "./memory"
+export { UpstashStorageAdapter } from "./upstash"
+
+// Keys for storing data
+export const STORAGE_KEYS = {
+  PLAYERS: "plinko:players",
+  CONFIG: "plinko:config",
+  PRESETS: "plinko:presets",
+  ROUNDS: "plinko:rounds",
+  // Prefix - each round's standup is stored under `${STANDUPS}:${roundId}`
+  STANDUPS: "plinko:standups",
+  ATTENDANCE: "plinko:attendance",
+  SEASONS: "plinko:seasons",
+  AUDIT: "plinko:audit"
+} as const
+
+export const standupKey = (roundId: string): string => `${STORAGE_KEYS.STANDUPS}:${roundId}`
+
+const DEFAULT_STORAGE_FILE = ".data/plinko.json"
+
+const storageBackends = new Set<StorageBackend>(["upstash", "file", "memory"])
+
+/**
+ * Pick the backend from PLINKO_STORAGE ("upstash" | "file" | "memory"). When
+ * unset, Upstash is used if its environment variables are present.
+ */
+function createStorage(): StorageAdapter | null {
+  const requested = process.env.PLINKO_STORAGE
+  if (requested != null && requested !== "" && !storageBackends.has(requested as StorageBackend)) {
+    console.warn(`Unknown PLINKO_STORAGE "${requested}". Using localStorage fallback.`)
+    return null
+  }
+
+  if (requested === "file") {
+    return new FileStorageAdapter(resolve(process.env.PLINKO_STORAGE_FILE ?? DEFAULT_STORAGE_FILE))
+  }
+  if (requested === "memory") {
+    return new MemoryStorageAdapter()
+  }
+
+  const client = createRedisClient()
+  if (client == null) {
+    console.warn("No storage backend configured. Using localStorage fallback.")
+    return null
+  }
+  return new UpstashStorageAdapter(client)
+}
+
+// Kept on globalThis so the in-memory and file backends survive module
+// reloads in development
+const globalForStorage = globalThis as unknown as { plinkoStorage?: StorageAdapter | null }
+const storage = globalForStorage.plinkoStorage !== undefined ? globalForStorage.plinkoStorage : createStorage()
+globalForStorage.plinkoStorage = storage
+
+/**
+ * The configured storage backend, or null when there is none and clients
+ * should fall back to localStorage
+ */
+export function getStorage(): StorageAdapter | null {
+  return storage
+}
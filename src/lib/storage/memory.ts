@@ -0,0 +1,84 @@
+import { versionKey, type StorageAdapter, type StorageBackend, type Versioned } from "./types"
+
+// Values go in and out as copies, the same as a backend that serializes them
+const clone = <T>(value: T): T =>
+  value === undefined ? value : JSON.parse(JSON.stringify(value)) as T
+
+const asList = (value: unknown): unknown[] => Array.isArray(value) ? value : []
+
+/**
+ * Storage held in process memory - for tests and throwaway local runs.
+ * Everything is lost when the server restarts.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly backend: StorageBackend = "memory"
+  protected data = new Map<string, unknown>()
+
+  // Subclasses override these two to load and persist around each operation
+  protected async read<R>(fn: (data: Map<string, unknown>) => R): Promise<R> {
+    return fn(this.data)
+  }
+
+  protected async write<R>(fn: (data: Map<string, unknown>) => R): Promise<R> {
+    return fn(this.data)
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return await this.read(data => data.has(key) ? clone(data.get(key) as T) : null)
+  }
+
+  async getMany<T>(keys: string[]): Promise<Array<T | null>> {
+    return await this.read(data => keys.map(key => data.has(key) ? clone(data.get(key) as T) : null))
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.write(data => {
+      data.set(key, clone(value))
+    })
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.write(data => {
+      data.delete(key)
+    })
+  }
+
+  async incr(key: string, amount = 1): Promise<number> {
+    return await this.write(data => {
+      const next = Number(data.get(key) ?? 0) + amount
+      data.set(key, next)
+      return next
+    })
+  }
+
+  async listPush<T>(key: string, value: T): Promise<void> {
+    await this.write(data => {
+      data.set(key, [clone(value), ...asList(data.get(key))])
+    })
+  }
+
+  async listRange<T>(key: string, offset: number, limit: number): Promise<T[]> {
+    return await this.read(data => clone(asList(data.get(key)).slice(offset, offset + limit) as T[]))
+  }
+
+  async listLength(key: string): Promise<number> {
+    return await this.read(data => asList(data.get(key)).length)
+  }
+
+  async getVersioned<T>(key: string): Promise<Versioned<T>> {
+    return await this.read(data => ({
+      value: data.has(key) ? clone(data.get(key) as T) : null,
+      version: Number(data.get(versionKey(key)) ?? 0)
+    }))
+  }
+
+  async setVersioned<T>(key: string, value: T, expectedVersion: number | null): Promise<number | null> {
+    return await this.write(data => {
+      const current = Number(data.get(versionKey(key)) ?? 0)
+      if (expectedVersion !== null && current !== expectedVersion) return null
+      data.set(key, clone(value))
+      data.set(versionKey(key), current + 1)
+      return current + 1
+    })
+  }
+}
@@ -0,0 +1,38 @@
+export type StorageBackend = "upstash" | "file" | "memory"
+
+/**
+ * A value stored alongside a version counter that bumps on every write
+ */
+export interface Versioned<T> {
+  value: T | null
+  version: number
+}
+
+/**
+ * Key-value storage the API routes persist through. Values are JSON-serializable;
+ * lists keep the most recently pushed item at index 0.
+ */
+export interface StorageAdapter {
+  readonly backend: StorageBackend
+  get<T>(key: string): Promise<T | null>
+  // Several values in one round trip, in the order of `keys` (null where missing)
+  getMany<T>(keys: string[]): Promise<Array<T | null>>
+  set<T>(key: string, value: T): Promise<void>
+  delete(key: string): Promise<void>
+  // Atomically add `amount` to a numeric key (missing keys start at 0)
+  incr(key: string, amount?: number): Promise<number>
+  listPush<T>(key: string, value: T): Promise<void>
+  listRange<T>(key: string, offset: number, limit: number): Promise<T[]>
+  listLength(key: string): Promise<number>
+  // Read a value together with its version, as one consistent snapshot
+  getVersioned<T>(key: string): Promise<Versioned<T>>
+  /**
+   * Write a value and bump its version. With `expectedVersion`, the write only
+   * lands if the stored version still matches. Returns the new version, or
+   * null on a mismatch.
+   */
+  setVersioned<T>(key: string, value: T, expectedVersion: number | null): Promise<number | null>
+}
+
+// Version counters live next to the value they track
+export const versionKey = (key: string): string => `${key}:version`
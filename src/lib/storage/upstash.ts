@@ -0,0 +1,73 @@
+import type { Redis } from "@upstash/redis"
+import { versionKey, type StorageAdapter, type Versioned } from "./types"
+
+// Replace the value only if nobody bumped the version since it was read.
+// Returns the new version, or -1 on a version mismatch.
+const COMPARE_AND_SET_SCRIPT = `
+local current = tonumber(redis.call("GET", KEYS[2]) or "0")
+if current ~= tonumber(ARGV[2]) then return -1 end
+redis.call("SET", KEYS[1], ARGV[1])
+return redis.call("INCR", KEYS[2])
+`
+
+/**
+ * Storage backed by Upstash Redis - the hosted default
+ */
+export class UpstashStorageAdapter implements StorageAdapter {
+  readonly backend = "upstash"
+
+  constructor(private readonly client: Redis) {}
+
+  async get<T>(key: string): Promise<T | null> {
+    return await this.client.get<T>(key)
+  }
+
+  async getMany<T>(keys: string[]): Promise<Array<T | null>> {
+    // MGET needs at least one key
+    if (keys.length === 0) return []
+    return await this.client.mget<Array<T | null>>(...keys)
+  }
+
+  async set<T>(key: string, value: T): Promise<void> {
+    await this.client.set(key, value)
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.del(key)
+  }
+
+  async incr(key: string, amount = 1): Promise<number> {
+    return await this.client.incrby(key, amount)
+  }
+
+  async listPush<T>(key: string, value: T): Promise<void> {
+    await this.client.lpush(key, value)
+  }
+
+  async listRange<T>(key: string, offset: number, limit: number): Promise<T[]> {
+    return await this.client.lrange<T>(key, offset, offset + limit - 1)
+  }
+
+  async listLength(key: string): Promise<number> {
+    return await this.client.llen(key)
+  }
+
+  async getVersioned<T>(key: string): Promise<Versioned<T>> {
+    const [value, version] = await this.client.mget<[T | null, number | null]>(key, versionKey(key))
+    return { value, version: Number(version ?? 0) }
+  }
+
+  async setVersioned<T>(key: string, value: T, expectedVersion: number | null): Promise<number | null> {
+    if (expectedVersion === null) {
+      await this.client.set(key, value)
+      return await this.client.incr(versionKey(key))
+    }
+
+    const version = await this.client.eval<[string, string], number>(
+      COMPARE_AND_SET_SCRIPT,
+      [key, versionKey(key)],
+      [JSON.stringify(value), String(expectedVersion)]
+    )
+    return version < 0 ? null : version
+  }
+}